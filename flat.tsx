@@ -10,6 +10,552 @@ import { UnrealBloomPass } from "https://aistudiocdn.com/three@0.180.0/examples/
 import { Water } from "https://aistudiocdn.com/three@0.180.0/examples/jsm/objects/Water.js"
 import { mergeGeometries } from "https://aistudiocdn.com/three@0.180.0/examples/jsm/utils/BufferGeometryUtils.js"
 
+// Older Safari only has the prefixed audio context
+declare global {
+    interface Window {
+        webkitAudioContext?: typeof AudioContext
+    }
+}
+
+// --- Seeded Random ---
+// A tiny deterministic PRNG (mulberry32). Each generator gets its own stream
+// derived from the world seed, so changing one (e.g. the grass count) never
+// reshuffles another (e.g. the tree layout).
+type RandomFn = () => number
+
+function hashString(str: string): number {
+    // FNV-1a
+    let hash = 0x811c9dc5
+    for (let i = 0; i < str.length; i++) {
+        hash ^= str.charCodeAt(i)
+        hash = Math.imul(hash, 0x01000193)
+    }
+    return hash >>> 0
+}
+
+function createRandom(seed: number, stream = ""): RandomFn {
+    let state = (Math.floor(seed) ^ hashString(stream)) >>> 0
+    return () => {
+        state = (state + 0x6d2b79f5) >>> 0
+        let t = state
+        t = Math.imul(t ^ (t >>> 15), t | 1)
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+    }
+}
+
+function getSeedFromURL(fallback: number): number {
+    const value = new URLSearchParams(window.location.search).get("seed")
+    if (value === null) return fallback
+    const seed = parseInt(value, 10)
+    return Number.isFinite(seed) ? seed : fallback
+}
+
+function setSeedInURL(seed: number) {
+    const url = new URL(window.location.href)
+    url.searchParams.set("seed", String(seed))
+    window.history.replaceState(null, "", url)
+}
+
+// --- Noise ---
+// Seeded 2D value noise with smooth interpolation, returning values in [-1, 1]
+type Noise2D = (x: number, z: number) => number
+
+function createNoise2D(random: RandomFn): Noise2D {
+    const size = 256
+    const values = new Float32Array(size)
+    const perm = new Uint8Array(size * 2)
+    for (let i = 0; i < size; i++) {
+        values[i] = random() * 2 - 1
+        perm[i] = i
+    }
+    // Fisher-Yates shuffle of the lattice permutation
+    for (let i = size - 1; i > 0; i--) {
+        const j = Math.floor(random() * (i + 1))
+        const tmp = perm[i]
+        perm[i] = perm[j]
+        perm[j] = tmp
+    }
+    for (let i = 0; i < size; i++) perm[i + size] = perm[i]
+
+    const lattice = (ix: number, iz: number) =>
+        values[perm[(ix & 255) + perm[iz & 255]]]
+
+    return (x: number, z: number) => {
+        const ix = Math.floor(x)
+        const iz = Math.floor(z)
+        const fx = x - ix
+        const fz = z - iz
+        const u = fx * fx * (3 - 2 * fx)
+        const v = fz * fz * (3 - 2 * fz)
+
+        const a = lattice(ix, iz)
+        const b = lattice(ix + 1, iz)
+        const c = lattice(ix, iz + 1)
+        const d = lattice(ix + 1, iz + 1)
+        return THREE.MathUtils.lerp(
+            THREE.MathUtils.lerp(a, b, u),
+            THREE.MathUtils.lerp(c, d, u),
+            v
+        )
+    }
+}
+
+// Fractal sum of several noise octaves, normalised back to roughly [-1, 1]
+function fbm2D(noise: Noise2D, x: number, z: number, octaves: number) {
+    let sum = 0
+    let amplitude = 1
+    let frequency = 1
+    let norm = 0
+    for (let i = 0; i < octaves; i++) {
+        sum += noise(x * frequency, z * frequency) * amplitude
+        norm += amplitude
+        amplitude *= 0.5
+        frequency *= 2.0
+    }
+    return sum / norm
+}
+
+// --- Chunk Streaming ---
+// The world is tiled into square cells. Each content layer (ground, grass,
+// trees) owns a fixed pool of chunk slots and refills them as the focus
+// (camera or player) moves, so the meadow is endless at a constant cost.
+const CHUNK_SIZE = 20
+const GROUND_CHUNK_RADIUS = 3 // 7x7 ground tiles, reaching well into the fog
+const TREE_CHUNK_RADIUS = 2
+
+type ChunkLayer = {
+    radius: number // In cells around the focus cell
+    innerRadius?: number // Cells this close belong to another (denser) layer
+    cellSize?: number // Defaults to CHUNK_SIZE
+    fillChunk: (slot: number, cx: number, cz: number, seed: number) => void
+    onChunksChanged?: () => void // Flush GPU buffers once per update
+}
+
+type ChunkManager = {
+    update: (focus: THREE.Vector3) => boolean
+    refresh: (layer?: ChunkLayer) => void
+    refreshArea: (
+        x: number,
+        z: number,
+        radius: number,
+        layers?: ChunkLayer[]
+    ) => void
+    reseed: (seed: number) => void
+    getCenter: () => THREE.Vector3
+}
+
+// Number of cells in a square of `radius` around the focus, minus the inner
+// square of `innerRadius` (a ring when innerRadius >= 0)
+function getChunkSlotCount(radius: number, innerRadius = -1) {
+    const outer = 2 * radius + 1
+    const inner = innerRadius >= 0 ? 2 * innerRadius + 1 : 0
+    return outer * outer - inner * inner
+}
+
+function createChunkManager(seed: number, layers: ChunkLayer[]): ChunkManager {
+    const layerStates = layers.map((layer) => ({
+        layer,
+        cellSize: layer.cellSize ?? CHUNK_SIZE,
+        innerRadius: layer.innerRadius ?? -1,
+        focusCX: NaN,
+        focusCZ: NaN,
+        loaded: new Map<string, { slot: number; cx: number; cz: number }>(),
+        freeSlots: Array.from(
+            { length: getChunkSlotCount(layer.radius, layer.innerRadius) },
+            (_, i) => i
+        ).reverse(),
+    }))
+    let currentSeed = seed
+    const center = new THREE.Vector3()
+
+    const refillLayer = (state: (typeof layerStates)[number]) => {
+        state.loaded.forEach((chunk) =>
+            state.layer.fillChunk(chunk.slot, chunk.cx, chunk.cz, currentSeed)
+        )
+        state.layer.onChunksChanged?.()
+    }
+
+    // Returns true when the focus crossed into a new cell and chunks changed
+    const update = (focus: THREE.Vector3) => {
+        let changed = false
+
+        layerStates.forEach((state) => {
+            const cx = Math.floor(focus.x / state.cellSize)
+            const cz = Math.floor(focus.z / state.cellSize)
+            if (cx === state.focusCX && cz === state.focusCZ) return
+            state.focusCX = cx
+            state.focusCZ = cz
+            changed = true
+
+            const { radius } = state.layer
+            const inRange = (chunkX: number, chunkZ: number) => {
+                const ring = Math.max(
+                    Math.abs(chunkX - cx),
+                    Math.abs(chunkZ - cz)
+                )
+                return ring <= radius && ring > state.innerRadius
+            }
+
+            // Recycle chunks that fell out of range
+            state.loaded.forEach((chunk, key) => {
+                if (!inRange(chunk.cx, chunk.cz)) {
+                    state.freeSlots.push(chunk.slot)
+                    state.loaded.delete(key)
+                }
+            })
+
+            // Generate chunks that came into range
+            for (let dz = -radius; dz <= radius; dz++) {
+                for (let dx = -radius; dx <= radius; dx++) {
+                    if (!inRange(cx + dx, cz + dz)) continue
+                    const key = `${cx + dx},${cz + dz}`
+                    if (state.loaded.has(key)) continue
+                    const slot = state.freeSlots.pop()
+                    if (slot === undefined) continue
+                    state.loaded.set(key, { slot, cx: cx + dx, cz: cz + dz })
+                    state.layer.fillChunk(slot, cx + dx, cz + dz, currentSeed)
+                }
+            }
+            state.layer.onChunksChanged?.()
+        })
+
+        center.set(
+            (Math.floor(focus.x / CHUNK_SIZE) + 0.5) * CHUNK_SIZE,
+            0,
+            (Math.floor(focus.z / CHUNK_SIZE) + 0.5) * CHUNK_SIZE
+        )
+        return changed
+    }
+
+    const refresh = (layer?: ChunkLayer) => {
+        layerStates.forEach((state) => {
+            if (!layer || state.layer === layer) refillLayer(state)
+        })
+    }
+
+    // Refill only the loaded chunks overlapping a circle, e.g. under a brush
+    const refreshArea = (
+        x: number,
+        z: number,
+        radius: number,
+        layers?: ChunkLayer[]
+    ) => {
+        layerStates.forEach((state) => {
+            if (layers && !layers.includes(state.layer)) return
+            const size = state.cellSize
+            let touched = false
+            state.loaded.forEach((chunk) => {
+                const nearestX = THREE.MathUtils.clamp(
+                    x,
+                    chunk.cx * size,
+                    (chunk.cx + 1) * size
+                )
+                const nearestZ = THREE.MathUtils.clamp(
+                    z,
+                    chunk.cz * size,
+                    (chunk.cz + 1) * size
+                )
+                if (Math.hypot(x - nearestX, z - nearestZ) > radius) return
+                state.layer.fillChunk(
+                    chunk.slot,
+                    chunk.cx,
+                    chunk.cz,
+                    currentSeed
+                )
+                touched = true
+            })
+            if (touched) state.layer.onChunksChanged?.()
+        })
+    }
+
+    const reseed = (newSeed: number) => {
+        currentSeed = newSeed
+        refresh()
+    }
+
+    return { update, refresh, refreshArea, reseed, getCenter: () => center }
+}
+
+// --- Wind ---
+// One wind for the whole meadow: a direction and a strength, with gusts of
+// drifting noise that sweep downwind across the ground. Every material that
+// sways shares these uniforms, so grass, trees, water and rain move together.
+type WindUniforms = {
+    uWindDirection: { value: THREE.Vector2 } // Unit vector it blows towards
+    uWindStrength: { value: number }
+    uWindGustiness: { value: number }
+    uWindTime: { value: number }
+    uWindOffset: { value: THREE.Vector2 } // How far the gusts have drifted
+}
+
+type Wind = {
+    uniforms: WindUniforms
+    update: () => void
+}
+
+// getWind(worldPos) is the local wind strength, gusts included
+const WIND_GLSL = `
+    uniform vec2 uWindDirection;
+    uniform float uWindStrength;
+    uniform float uWindGustiness;
+    uniform float uWindTime;
+    uniform vec2 uWindOffset;
+
+    float windHash(vec2 p) {
+        return fract(sin(dot(p, vec2(127.1, 311.7))) * 43758.5453);
+    }
+    float windNoise(vec2 p) {
+        vec2 i = floor(p);
+        vec2 f = fract(p);
+        vec2 u = f * f * (3.0 - 2.0 * f);
+        return mix(
+            mix(windHash(i), windHash(i + vec2(1.0, 0.0)), u.x),
+            mix(windHash(i + vec2(0.0, 1.0)), windHash(i + vec2(1.0, 1.0)), u.x),
+            u.y
+        );
+    }
+    float getWind(vec2 worldPos) {
+        vec2 p = (worldPos - uWindOffset) * 0.05;
+        float gust = windNoise(p) * 0.65 + windNoise(p * 2.3) * 0.35;
+        return uWindStrength * mix(1.0, gust * 2.0, uWindGustiness);
+    }
+`
+
+function createWind(params: typeof initialParams): Wind {
+    const uniforms: WindUniforms = {
+        uWindDirection: { value: new THREE.Vector2(1, 0) },
+        uWindStrength: { value: params.windStrength },
+        uWindGustiness: { value: params.windGustiness },
+        uWindTime: { value: 0 },
+        uWindOffset: { value: new THREE.Vector2() },
+    }
+
+    // The gusts drift by however the wind blows each frame, so turning or
+    // strengthening it changes their course without jumping them elsewhere
+    let lastUpdate = performance.now()
+    const update = () => {
+        const now = performance.now()
+        const delta = Math.min((now - lastUpdate) / 1000, 0.25)
+        lastUpdate = now
+
+        // windDirection is where it blows from, like a weather report, on
+        // the sky's compass (north along -z, east along +x)
+        const bearing = THREE.MathUtils.degToRad(params.windDirection)
+        uniforms.uWindDirection.value.set(-Math.sin(bearing), Math.cos(bearing))
+        uniforms.uWindStrength.value = params.windStrength
+        uniforms.uWindGustiness.value = params.windGustiness
+        uniforms.uWindTime.value = now / 1000
+        uniforms.uWindOffset.value.addScaledVector(
+            uniforms.uWindDirection.value,
+            4 * Math.max(params.windStrength, 0.3) * delta
+        )
+    }
+    update()
+
+    return { uniforms, update }
+}
+
+// --- Seasons ---
+// params.season runs round the year from 0 to 1: 0 is the height of spring,
+// 0.25 summer, 0.5 autumn and 0.75 winter. Each season holds its look around
+// its peak and eases into the next one in between.
+type SeasonLook = {
+    grassColor: string // What the blades turn towards
+    grassAmount: number // How far they turn; 0 keeps the preset colours
+    foliageColor: string
+    foliageAmount: number
+    groundColor: string
+    groundAmount: number
+    flowers: number // Share of the wildflowers in bloom
+    snow: number // Snow lying on the ground, trees and monolith
+    frozen: number // Ice over the pond
+    leaves: number // Falling leaves
+    snowfall: number // Falling snow
+}
+
+const SEASON_LOOKS: SeasonLook[] = [
+    {
+        // Spring
+        grassColor: "#8fd650",
+        grassAmount: 0.3,
+        foliageColor: "#5e9c3c",
+        foliageAmount: 0.15,
+        groundColor: "#6f8a3c",
+        groundAmount: 0.15,
+        flowers: 1,
+        snow: 0,
+        frozen: 0,
+        leaves: 0,
+        snowfall: 0,
+    },
+    {
+        // Summer: the preset colours as they are
+        grassColor: "#8fd650",
+        grassAmount: 0,
+        foliageColor: "#3d6b2a",
+        foliageAmount: 0,
+        groundColor: "#7a6a45",
+        groundAmount: 0,
+        flowers: 0.2,
+        snow: 0,
+        frozen: 0,
+        leaves: 0,
+        snowfall: 0,
+    },
+    {
+        // Autumn
+        grassColor: "#c99a45",
+        grassAmount: 0.7,
+        foliageColor: "#6b5e2c",
+        foliageAmount: 0.25,
+        groundColor: "#8a6538",
+        groundAmount: 0.35,
+        flowers: 0,
+        snow: 0,
+        frozen: 0,
+        leaves: 1,
+        snowfall: 0,
+    },
+    {
+        // Winter
+        grassColor: "#a69d7f",
+        grassAmount: 0.6,
+        foliageColor: "#2b4632",
+        foliageAmount: 0.3,
+        groundColor: "#6e6552",
+        groundAmount: 0.4,
+        flowers: 0,
+        snow: 1,
+        frozen: 1,
+        leaves: 0,
+        snowfall: 0.6,
+    },
+]
+
+type SeasonUniforms = {
+    uSeasonGrassColor: { value: THREE.Color }
+    uSeasonGrassAmount: { value: number }
+    uSeasonFoliageColor: { value: THREE.Color }
+    uSeasonFoliageAmount: { value: number }
+    uSeasonGroundColor: { value: THREE.Color }
+    uSeasonGroundAmount: { value: number }
+    uFlowers: { value: number }
+    uSnow: { value: number }
+}
+
+type SeasonConditions = {
+    frozen: number
+    leaves: number
+    snowfall: number
+}
+
+type Season = {
+    uniforms: SeasonUniforms
+    conditions: SeasonConditions
+    update: () => void
+}
+
+const SEASON_GLSL = `
+    uniform vec3 uSeasonGrassColor;
+    uniform float uSeasonGrassAmount;
+    uniform vec3 uSeasonFoliageColor;
+    uniform float uSeasonFoliageAmount;
+    uniform vec3 uSeasonGroundColor;
+    uniform float uSeasonGroundAmount;
+    uniform float uFlowers;
+    uniform float uSnow;
+
+    const vec3 SNOW_COLOR = vec3(0.92, 0.95, 1.0);
+
+    float seasonHash(vec2 p) {
+        return fract(sin(dot(p, vec2(127.1, 311.7))) * 43758.5453);
+    }
+    float seasonNoise(vec2 p) {
+        vec2 i = floor(p);
+        vec2 f = fract(p);
+        vec2 u = f * f * (3.0 - 2.0 * f);
+        return mix(
+            mix(seasonHash(i), seasonHash(i + vec2(1.0, 0.0)), u.x),
+            mix(seasonHash(i + vec2(0.0, 1.0)), seasonHash(i + vec2(1.0, 1.0)), u.x),
+            u.y
+        );
+    }
+    // Snow settles first on flat, upward-facing ground and drifts unevenly;
+    // up is the world normal's y
+    float getSnowCover(vec3 worldPos, float up) {
+        if (uSnow <= 0.0) return 0.0;
+        float drift = seasonNoise(worldPos.xz * 0.15) * 0.6 + seasonNoise(worldPos.xz * 0.6) * 0.4;
+        float cover = clamp(up, 0.0, 1.0) * 0.7 + drift * 0.3;
+        return smoothstep(1.0 - uSnow, 1.15 - uSnow, cover);
+    }
+`
+
+// Day of the year spring peaks in the north (early May); the other seasons
+// follow a quarter of a year apart, and the south runs half a year out
+const SEASON_PEAK_DAY = 125
+
+function getSeasonFromDate(date: Date, latitude: number) {
+    const dayOfYear =
+        (date.getTime() - Date.UTC(date.getUTCFullYear(), 0, 1)) / 86400000
+    const season =
+        (dayOfYear - SEASON_PEAK_DAY) / 365.25 + (latitude < 0 ? 0.5 : 0)
+    return ((season % 1) + 1) % 1
+}
+
+function createSeason(params: typeof initialParams): Season {
+    const uniforms: SeasonUniforms = {
+        uSeasonGrassColor: { value: new THREE.Color() },
+        uSeasonGrassAmount: { value: 0 },
+        uSeasonFoliageColor: { value: new THREE.Color() },
+        uSeasonFoliageAmount: { value: 0 },
+        uSeasonGroundColor: { value: new THREE.Color() },
+        uSeasonGroundAmount: { value: 0 },
+        uFlowers: { value: 0 },
+        uSnow: { value: 0 },
+    }
+    const conditions: SeasonConditions = { frozen: 0, leaves: 0, snowfall: 0 }
+    const colorA = new THREE.Color()
+    const colorB = new THREE.Color()
+
+    const update = () => {
+        if (params.seasonFromDate) {
+            params.season = getSeasonFromDate(
+                getAstronomyDate(params.astronomyDate, params.timeOfDay),
+                params.latitude
+            )
+        }
+        const position = (((params.season % 1) + 1) % 1) * SEASON_LOOKS.length
+        const index = Math.floor(position)
+        const from = SEASON_LOOKS[index]
+        const to = SEASON_LOOKS[(index + 1) % SEASON_LOOKS.length]
+        const t = THREE.MathUtils.smootherstep(position - index, 0.3, 0.7)
+        const blend = (key: keyof SeasonLook) =>
+            THREE.MathUtils.lerp(from[key] as number, to[key] as number, t)
+        const blendColor = (key: keyof SeasonLook, target: THREE.Color) =>
+            target.copy(
+                colorA
+                    .set(from[key] as string)
+                    .lerp(colorB.set(to[key] as string), t)
+            )
+
+        blendColor("grassColor", uniforms.uSeasonGrassColor.value)
+        uniforms.uSeasonGrassAmount.value = blend("grassAmount")
+        blendColor("foliageColor", uniforms.uSeasonFoliageColor.value)
+        uniforms.uSeasonFoliageAmount.value = blend("foliageAmount")
+        blendColor("groundColor", uniforms.uSeasonGroundColor.value)
+        uniforms.uSeasonGroundAmount.value = blend("groundAmount")
+        uniforms.uFlowers.value = blend("flowers")
+        uniforms.uSnow.value = blend("snow")
+        conditions.frozen = blend("frozen")
+        conditions.leaves = blend("leaves")
+        conditions.snowfall = blend("snowfall")
+    }
+    update()
+
+    return { uniforms, conditions, update }
+}
+
 // --- FROM Clouds.tsx ---
 // --- New Soft & Blurry Cloud Texture Generator ---
 function createSoftCloudTexture() {
@@ -47,10 +593,14 @@ function createSoftCloudTexture() {
 }
 
 // --- Cloud Factory ---
-function createClouds(params: {
-    count: number
-    color: string | number | THREE.Color
-}) {
+function createClouds(
+    params: {
+        count: number
+        color: string | number | THREE.Color
+    },
+    random: RandomFn,
+    wind: Wind
+) {
     const cloudTexture = createSoftCloudTexture()
 
     const baseCloudMaterial = new THREE.MeshLambertMaterial({
@@ -70,25 +620,30 @@ function createClouds(params: {
     const baseColor = new THREE.Color(params.color)
     const shadowColor = new THREE.Color(0x8899aa) // A cool, grayish shadow color
 
-    for (let i = 0; i < maxClouds; i++) {
+    const buildCloud = (index: number, count: number) => {
         const puffyCloud = new THREE.Group()
-        const puffCount = 10 + Math.floor(Math.random() * 10)
+        const puffCount = 10 + Math.floor(random() * 10)
+        let shadowRadius = 0
 
         for (let j = 0; j < puffCount; j++) {
             // Clone material for each puff to give it a unique color for shading
             const puffMaterial = baseCloudMaterial.clone()
             const puff = new THREE.Mesh(cloudGeo, puffMaterial)
 
-            const puffScale = 20 + Math.random() * 15
+            const puffScale = 20 + random() * 15
             puff.scale.set(puffScale, puffScale, 1)
 
             // Position puffs to create a more cloud-like shape (flatter bottom, puffier top)
-            const xPos = (Math.random() - 0.5) * puffScale * 1.8
-            const yPos = Math.random() * Math.random() * puffScale * 0.6 // Skew towards bottom
-            const zPos = (Math.random() - 0.5) * puffScale * 1.2
+            const xPos = (random() - 0.5) * puffScale * 1.8
+            const yPos = random() * random() * puffScale * 0.6 // Skew towards bottom
+            const zPos = (random() - 0.5) * puffScale * 1.2
             puff.position.set(xPos, yPos, zPos)
+            shadowRadius = Math.max(
+                shadowRadius,
+                Math.abs(xPos) + puffScale * 0.3
+            )
 
-            puff.rotation.z = Math.random() * Math.PI * 2
+            puff.rotation.z = random() * Math.PI * 2
 
             // Fake shading based on vertical position within the cloud
             const shadeFactor = Math.max(
@@ -105,36 +660,59 @@ function createClouds(params: {
         }
 
         puffyCloud.position.set(
-            (Math.random() - 0.5) * areaSize,
-            heightRange.min +
-                Math.random() * (heightRange.max - heightRange.min),
-            (Math.random() - 0.5) * areaSize
+            (random() - 0.5) * areaSize,
+            heightRange.min + random() * (heightRange.max - heightRange.min),
+            (random() - 0.5) * areaSize
         )
 
-        puffyCloud.userData.speed = new THREE.Vector3(
-            0.5 + Math.random() * 1.5,
-            0,
-            0
-        )
+        puffyCloud.userData.speed = 0.5 + random() * 1.5 // Times the wind
+        puffyCloud.userData.shadowRadius = shadowRadius
 
-        puffyCloud.visible = i < params.count
+        puffyCloud.visible = index < count
         cloudsGroup.add(puffyCloud)
     }
 
+    for (let i = 0; i < maxClouds; i++) {
+        buildCloud(i, params.count)
+    }
+
     // --- User Data Functions for GUI control ---
 
-    cloudsGroup.userData.update = (delta: number, camera: THREE.Camera) => {
+    // Timed on its own, like the wind, so drift is the same in both loops
+    let lastUpdate = performance.now()
+    cloudsGroup.userData.update = (camera: THREE.Camera) => {
+        const now = performance.now()
+        const delta = Math.min((now - lastUpdate) / 1000, 0.25)
+        lastUpdate = now
+        const direction = wind.uniforms.uWindDirection.value
+        const strength = wind.uniforms.uWindStrength.value
+
         cloudsGroup.children.forEach((cloud) => {
             if (cloud instanceof THREE.Group && cloud.visible) {
-                cloud.position.x += cloud.userData.speed.x * delta
+                const drift = cloud.userData.speed * strength * delta
+                cloud.position.x += direction.x * drift
+                cloud.position.z += direction.y * drift
 
+                // Wrap around the camera so the sky stays populated however
+                // far the viewer wanders, at a fresh height each time round
                 const wrapBoundary = areaSize / 2 + 50
-                if (cloud.position.x > wrapBoundary) {
-                    cloud.position.x = -wrapBoundary
-                    cloud.position.z = (Math.random() - 0.5) * areaSize
+                const offsetX = cloud.position.x - camera.position.x
+                const offsetZ = cloud.position.z - camera.position.z
+                if (
+                    Math.abs(offsetX) > wrapBoundary ||
+                    Math.abs(offsetZ) > wrapBoundary
+                ) {
+                    if (Math.abs(offsetX) > wrapBoundary) {
+                        cloud.position.x -=
+                            Math.sign(offsetX) * wrapBoundary * 2
+                    }
+                    if (Math.abs(offsetZ) > wrapBoundary) {
+                        cloud.position.z -=
+                            Math.sign(offsetZ) * wrapBoundary * 2
+                    }
                     cloud.position.y =
                         heightRange.min +
-                        Math.random() * (heightRange.max - heightRange.min)
+                        random() * (heightRange.max - heightRange.min)
                 }
 
                 // Billboard effect
@@ -153,10 +731,28 @@ function createClouds(params: {
         })
     }
 
+    // Rebuilds the whole cloud field from a fresh random stream (new seed)
+    cloudsGroup.userData.regenerate = (newRandom: RandomFn) => {
+        const visibleCount = cloudsGroup.children.filter(
+            (cloud) => cloud.visible
+        ).length
+        cloudsGroup.children.slice().forEach((cloud) => {
+            cloud.children.forEach((puff) => {
+                if (puff instanceof THREE.Mesh) puff.material.dispose()
+            })
+            cloudsGroup.remove(cloud)
+        })
+        random = newRandom
+        for (let i = 0; i < maxClouds; i++) {
+            buildCloud(i, visibleCount)
+        }
+    }
+
     cloudsGroup.userData.setCloudColor = (
         color: string | number | THREE.Color
     ) => {
         const newBaseColor = new THREE.Color(color)
+        baseColor.copy(newBaseColor) // Keep regenerated clouds in sync
         cloudsGroup.children.forEach((cloud) => {
             if (cloud instanceof THREE.Group) {
                 cloud.children.forEach((puff) => {
@@ -183,1792 +779,7513 @@ function createClouds(params: {
     return cloudsGroup
 }
 
-// --- FROM Water.tsx ---
-// This function creates a stylized, textureless water effect.
-// Instead of using a normal map texture, it generates procedural ripples in the shader.
-// The color is derived entirely from reflections and refractions of the environment.
-function createWater(
-    geometry: THREE.BufferGeometry,
-    sunDirection: THREE.Vector3,
-    params: {
-        rippleScale: number
-        rippleSpeed: number
-        rippleIntensity: number
-        interactiveRippleRadius: number
-        interactiveRippleStrength: number
-        waterDistortion: number
-        sunColor: string | number | THREE.Color
-    }
-) {
-    const water = new Water(geometry, {
-        textureWidth: 512,
-        textureHeight: 512,
-        waterNormals: new THREE.Texture(), // Pass an empty texture, we won't use it
-        sunDirection: sunDirection,
-        sunColor: params.sunColor,
-        waterColor: 0x001e0f, // This color is mostly overridden by fog and reflection
-        distortionScale: params.waterDistortion,
-        fog: true,
-        alpha: 0.95,
-    })
-
-    water.rotation.x = -Math.PI / 2
-
-    const waterMaterial = water.material as THREE.ShaderMaterial
+// --- Raymarched Cloud Layer ---
+// The alternative to the puffs: a slab of cloud between two altitudes, carved
+// out of 3D noise and marched through per pixel on a dome around the camera.
+// Light is traced a few steps towards the sun, and a forward-scattering phase
+// lights the edges up when you look past them towards the sun.
+const CLOUD_LAYER_BOTTOM = 50
+const CLOUD_LAYER_TOP = 85
+
+type CloudQuality = "low" | "medium" | "high"
+
+// Steps along the view ray, steps towards the sun and noise octaves
+const CLOUD_QUALITY_DEFINES: Record<
+    CloudQuality,
+    { CLOUD_STEPS: number; CLOUD_LIGHT_STEPS: number; CLOUD_OCTAVES: number }
+> = {
+    low: { CLOUD_STEPS: 16, CLOUD_LIGHT_STEPS: 2, CLOUD_OCTAVES: 3 },
+    medium: { CLOUD_STEPS: 32, CLOUD_LIGHT_STEPS: 3, CLOUD_OCTAVES: 4 },
+    high: { CLOUD_STEPS: 64, CLOUD_LIGHT_STEPS: 5, CLOUD_OCTAVES: 5 },
+}
 
-    // Add new uniforms for procedural ripples
-    waterMaterial.uniforms.rippleScale = { value: params.rippleScale }
-    waterMaterial.uniforms.rippleSpeed = { value: params.rippleSpeed }
-    waterMaterial.uniforms.rippleIntensity = { value: params.rippleIntensity }
-    waterMaterial.uniforms.uMousePos = {
-        value: new THREE.Vector3(9999, 9999, 9999),
+// The layer's density, shared with the cloud shadows so the ground is shaded
+// by exactly the clouds overhead
+const CLOUD_DENSITY_GLSL = `
+    uniform vec2 uCloudOffset;
+    uniform float uCloudCoverage;
+    #ifndef CLOUD_OCTAVES
+    #define CLOUD_OCTAVES 3
+    #endif
+    const float CLOUD_BOTTOM = ${CLOUD_LAYER_BOTTOM.toFixed(1)};
+    const float CLOUD_TOP = ${CLOUD_LAYER_TOP.toFixed(1)};
+
+    float cloudHash(vec3 p) {
+        p = fract(p * 0.3183099 + 0.1);
+        p *= 17.0;
+        return fract(p.x * p.y * p.z * (p.x + p.y + p.z));
     }
-    waterMaterial.uniforms.uRippleRadius = {
-        value: params.interactiveRippleRadius,
+    float cloudNoise(vec3 x) {
+        vec3 i = floor(x);
+        vec3 f = fract(x);
+        f = f * f * (3.0 - 2.0 * f);
+        return mix(
+            mix(
+                mix(cloudHash(i), cloudHash(i + vec3(1.0, 0.0, 0.0)), f.x),
+                mix(cloudHash(i + vec3(0.0, 1.0, 0.0)), cloudHash(i + vec3(1.0, 1.0, 0.0)), f.x),
+                f.y
+            ),
+            mix(
+                mix(cloudHash(i + vec3(0.0, 0.0, 1.0)), cloudHash(i + vec3(1.0, 0.0, 1.0)), f.x),
+                mix(cloudHash(i + vec3(0.0, 1.0, 1.0)), cloudHash(i + vec3(1.0, 1.0, 1.0)), f.x),
+                f.y
+            ),
+            f.z
+        );
     }
-    waterMaterial.uniforms.uRippleStrength = {
-        value: params.interactiveRippleStrength,
+    float cloudDensity(vec3 p) {
+        float height = (p.y - CLOUD_BOTTOM) / (CLOUD_TOP - CLOUD_BOTTOM);
+        if (height < 0.0 || height > 1.0) return 0.0;
+        // Flat bases and rounded, thinning tops
+        float profile = smoothstep(0.0, 0.15, height) * (1.0 - smoothstep(0.45, 1.0, height));
+
+        vec3 q = vec3(p.x - uCloudOffset.x, p.y * 1.6, p.z - uCloudOffset.y) * 0.012;
+        float shape = 0.0;
+        float amplitude = 0.5;
+        for (int i = 0; i < CLOUD_OCTAVES; i++) {
+            shape += amplitude * cloudNoise(q);
+            q = q * 2.03 + 11.7;
+            amplitude *= 0.5;
+        }
+        float threshold = mix(0.72, 0.3, uCloudCoverage);
+        return clamp((shape - threshold) * 3.0, 0.0, 1.0) * profile;
     }
+`
 
-    // We will override the default shader to create our procedural effect
-    waterMaterial.onBeforeCompile = (shader) => {
-        // Add uniforms and noise function to the shader code
-        shader.fragmentShader =
-            `
-            uniform float rippleScale;
-            uniform float rippleSpeed;
-            uniform float rippleIntensity;
-            
-            uniform vec3 uMousePos;
-            uniform float uRippleRadius;
-            uniform float uRippleStrength;
-
-            // 2D Simplex Noise
-            vec2 hash( vec2 p ) {
-                p = vec2( dot(p,vec2(127.1,311.7)),
-                          dot(p,vec2(269.5,183.3)) );
-                return -1.0 + 2.0*fract(sin(p)*43758.5453123);
+function createCloudLayer(
+    quality: CloudQuality,
+    wind: Wind,
+    cloudShadows: CloudShadows
+) {
+    const material = new THREE.ShaderMaterial({
+        defines: { ...CLOUD_QUALITY_DEFINES[quality] },
+        uniforms: {
+            uCloudOffset: cloudShadows.uniforms.uCloudOffset,
+            uCloudCoverage: cloudShadows.uniforms.uCloudCoverage,
+            uDarkness: { value: 0 },
+            uSunDirection: { value: new THREE.Vector3(0, 1, 0) },
+            uSunColor: { value: new THREE.Color() },
+            uAmbientColor: { value: new THREE.Color() },
+            uFogColor: { value: new THREE.Color() },
+        },
+        vertexShader: `
+            varying vec3 vWorldPosition;
+            void main() {
+                vec4 worldPosition = modelMatrix * vec4(position, 1.0);
+                vWorldPosition = worldPosition.xyz;
+                gl_Position = projectionMatrix * viewMatrix * worldPosition;
             }
+        `,
+        fragmentShader: `
+            uniform float uDarkness;
+            uniform vec3 uSunDirection;
+            uniform vec3 uSunColor;
+            uniform vec3 uAmbientColor;
+            uniform vec3 uFogColor;
+            varying vec3 vWorldPosition;
+            ${CLOUD_DENSITY_GLSL}
 
-            float noise( in vec2 p ) {
-                const float K1 = 0.366025404; // (sqrt(3)-1)/2;
-                const float K2 = 0.211324865; // (3-sqrt(3))/6;
-            
-                vec2 i = floor( p + (p.x+p.y)*K1 );
-                
-                vec2 a = p - i + (i.x+i.y)*K2;
-                vec2 o = (a.x>a.y) ? vec2(1.0,0.0) : vec2(0.0,1.0);
-                vec2 b = a - o + K2;
-                vec2 c = a - 1.0 + 2.0*K2;
-            
-                vec3 h = max( 0.5-vec3(dot(a,a), dot(b,b), dot(c,c) ), 0.0 );
-                vec3 n = h*h*h*h*vec3( dot(a,hash(i+0.0)), dot(b,hash(i+o)), dot(c,hash(i+1.0)));
-            
-                return dot( n, vec3(70.0) );
-            }
-        \n` + shader.fragmentShader
+            const float MAX_DISTANCE = 700.0;
+            const float LIGHT_STEP = 6.0;
 
-        const normalCalculation = `
-            // --- Start of Procedural Normals ---
+            float henyeyGreenstein(float cosTheta, float g) {
+                float g2 = g * g;
+                return (1.0 - g2) / pow(1.0 + g2 - 2.0 * g * cosTheta, 1.5);
+            }
 
-            // Function to get total displacement at a world position
-            float getDisplacement(vec2 worldPos) {
-                // Ambient waves
-                vec2 pos = worldPos * rippleScale * 0.05;
-                float n1 = noise(pos + time * rippleSpeed);
-                float n2 = noise(pos * 2.1 + time * rippleSpeed * 1.3);
-                float ambientDisplacement = n1 * 0.6 + n2 * 0.4;
-
-                // Interactive ripples
-                float interactiveDisplacement = 0.0;
-                float dist = distance(worldPos, uMousePos.xz);
-                if(dist < uRippleRadius) {
-                    float falloff = smoothstep(uRippleRadius, 0.0, dist);
-                    // Create a circular wave expanding from the center
-                    interactiveDisplacement = -sin(dist * 4.0 - time * 10.0) * falloff * uRippleStrength;
+            void main() {
+                vec3 rayDirection = normalize(vWorldPosition - cameraPosition);
+                if (abs(rayDirection.y) < 0.01) discard;
+                float tBottom = (CLOUD_BOTTOM - cameraPosition.y) / rayDirection.y;
+                float tTop = (CLOUD_TOP - cameraPosition.y) / rayDirection.y;
+                float tStart = max(min(tBottom, tTop), 0.0);
+                float tEnd = min(max(tBottom, tTop), MAX_DISTANCE);
+                if (tEnd <= tStart) discard;
+
+                float stepSize = (tEnd - tStart) / float(CLOUD_STEPS);
+                // A per-pixel start offset turns banding into fine grain
+                float t = tStart + stepSize * cloudHash(vec3(gl_FragCoord.xy, uCloudOffset.x));
+
+                // Silver linings: a strong forward lobe plus a weak back one
+                float cosTheta = dot(rayDirection, uSunDirection);
+                float phase = mix(henyeyGreenstein(cosTheta, 0.6), henyeyGreenstein(cosTheta, -0.25), 0.35);
+                float extinction = mix(0.08, 0.16, uDarkness);
+
+                vec3 color = vec3(0.0);
+                float transmittance = 1.0;
+                for (int i = 0; i < CLOUD_STEPS; i++) {
+                    vec3 p = cameraPosition + rayDirection * t;
+                    float density = cloudDensity(p);
+                    if (density > 0.01) {
+                        float shadow = 0.0;
+                        for (int j = 1; j <= CLOUD_LIGHT_STEPS; j++) {
+                            shadow += cloudDensity(p + uSunDirection * LIGHT_STEP * float(j));
+                        }
+                        float sunlight = exp(-shadow * LIGHT_STEP * extinction);
+                        float powder = 1.0 - exp(-density * 4.0);
+                        float height = (p.y - CLOUD_BOTTOM) / (CLOUD_TOP - CLOUD_BOTTOM);
+                        vec3 light =
+                            uSunColor * sunlight * phase * mix(1.0, powder, 0.5) * (1.0 - 0.7 * uDarkness) +
+                            uAmbientColor * mix(0.4, 1.0, height) * (1.0 - 0.5 * uDarkness);
+
+                        float stepTransmittance = exp(-density * extinction * stepSize);
+                        color += transmittance * light * (1.0 - stepTransmittance);
+                        transmittance *= stepTransmittance;
+                        if (transmittance < 0.02) break;
+                    }
+                    t += stepSize;
                 }
 
-                return ambientDisplacement + interactiveDisplacement;
+                float alpha = 1.0 - transmittance;
+                if (alpha < 0.002) discard;
+                // Far cloud melts into the haze along the horizon
+                float haze = smoothstep(MAX_DISTANCE * 0.3, MAX_DISTANCE, tStart);
+                gl_FragColor = vec4(mix(color / alpha, uFogColor, haze * 0.7), alpha * (1.0 - haze));
+                #include <tonemapping_fragment>
+                #include <colorspace_fragment>
             }
+        `,
+        transparent: true,
+        side: THREE.BackSide,
+        depthWrite: false,
+    })
 
-            // Calculate the normal from the gradient of the displacement field
-            vec2 delta = vec2(0.1, 0.0);
-
-            float displacement = getDisplacement(worldPosition.xz);
-            float displacement_dx = getDisplacement(worldPosition.xz + delta.xy);
-            float displacement_dz = getDisplacement(worldPosition.xz + delta.yx);
+    const cloudLayer = new THREE.Mesh(
+        new THREE.SphereGeometry(380, 32, 16),
+        material
+    )
+    cloudLayer.renderOrder = 1 // Over the stars and moon, under rain and bolts
+    cloudLayer.visible = false
 
-            vec3 normal = normalize(vec3(
-                (displacement - displacement_dx) * rippleIntensity * 100.0,
-                1.0,
-                (displacement - displacement_dz) * rippleIntensity * 100.0
-            ));
-            // --- End of Procedural Normals ---
-        `
+    cloudLayer.userData.setQuality = (newQuality: CloudQuality) => {
+        if (!CLOUD_QUALITY_DEFINES[newQuality]) return
+        material.defines = { ...CLOUD_QUALITY_DEFINES[newQuality] }
+        material.needsUpdate = true
+    }
+    cloudLayer.userData.setCoverage = (coverage: number) =>
+        (material.uniforms.uCloudCoverage.value = coverage)
+    cloudLayer.userData.setDarkness = (darkness: number) =>
+        (material.uniforms.uDarkness.value = darkness)
+    cloudLayer.userData.setLighting = (
+        sunDirection: THREE.Vector3,
+        sunColor: THREE.Color,
+        ambientColor: THREE.Color,
+        fogColor: THREE.Color
+    ) => {
+        material.uniforms.uSunDirection.value.copy(sunDirection)
+        material.uniforms.uSunColor.value.copy(sunColor)
+        material.uniforms.uAmbientColor.value.copy(ambientColor)
+        material.uniforms.uFogColor.value.copy(fogColor)
+    }
 
-        // Replace the texture-based normal calculation with our procedural one
-        shader.fragmentShader = shader.fragmentShader.replace(
-            "vec4 normalColor = texture2D( tNormal, vUv * textureMatrix );",
-            "vec4 normalColor = vec4(0.0); // Not used"
-        )
-        shader.fragmentShader = shader.fragmentShader.replace(
-            "vec3 normal = normalize( vec3( normalColor.r * 2.0 - 1.0, normalColor.b,  normalColor.g * 2.0 - 1.0 ) );",
-            normalCalculation
+    // Drift is integrated here rather than in the shader, so changing the
+    // wind speed never makes the whole layer jump
+    let lastUpdate = performance.now()
+    cloudLayer.userData.update = () => {
+        const now = performance.now()
+        const delta = Math.min((now - lastUpdate) / 1000, 0.25)
+        lastUpdate = now
+        material.uniforms.uCloudOffset.value.addScaledVector(
+            wind.uniforms.uWindDirection.value,
+            wind.uniforms.uWindStrength.value * 1.5 * delta
         )
     }
 
-    return water
+    return cloudLayer
 }
 
-// --- FROM pinetree.tsx ---
-// --- Color Palette based on Reference ---
-const TRUNK_COLOR_DARK = new THREE.Color("#4a3b2a")
-const TRUNK_COLOR_LIGHT = new THREE.Color("#6b5a4a")
-const FOLIAGE_COLOR_DARK = new THREE.Color("#2a402a") // Less uniform dark
-const FOLIAGE_COLOR_LIGHT = new THREE.Color("#507858") // Lighter, yellower light
-const FOLIAGE_SHADOW = new THREE.Color("#1f3024") // More color in shadow
+// --- Cloud Shadows ---
+// Shade drifting across the ground, grass, trees and water. Under the puffs
+// each cloud casts a soft blob from where it really is; under the raymarched
+// layer the ground samples the layer's own density along the ray to the sun.
+// Every lit vertex loops over the puffs, so only the few nearest the camera
+// are passed in, out of those whose shadows land within sight
+const MAX_CLOUD_SHADOWS = 16
+const CLOUD_SHADOW_REACH =
+    (GROUND_CHUNK_RADIUS + 1) * CHUNK_SIZE * Math.SQRT2 + 20 // Tall trees too
+
+type CloudShadowUniforms = {
+    uCloudOffset: { value: THREE.Vector2 }
+    uCloudCoverage: { value: number }
+    uCloudShadowStrength: { value: number }
+    uCloudShadowSun: { value: THREE.Vector3 } // Towards the key light
+    uCloudShadowLayer: { value: number } // 1 while the raymarched layer shows
+    uCloudShadowPuffs: { value: THREE.Vector4[] } // xyz centre, w radius
+    uCloudShadowPuffCount: { value: number }
+}
 
-// Helper to create a single sprig of pine needles
-// This is the base unit for all foliage
-function createPineNeedleSprig(): THREE.BufferGeometry {
-    const needlesPerSprig = 8
-    const needleLength = 0.6
-    const needleWidth = 0.02
+type CloudShadows = {
+    uniforms: CloudShadowUniforms
+    update: (
+        clouds: THREE.Group,
+        raymarched: boolean,
+        strength: number,
+        center: THREE.Vector3
+    ) => void
+}
 
-    const sprigGeometries: THREE.BufferGeometry[] = []
-    const needleGeom = new THREE.PlaneGeometry(needleWidth, needleLength)
+const CLOUD_SHADOW_GLSL = `
+    ${CLOUD_DENSITY_GLSL}
+    uniform float uCloudShadowStrength;
+    uniform vec3 uCloudShadowSun;
+    uniform float uCloudShadowLayer;
+    uniform vec4 uCloudShadowPuffs[${MAX_CLOUD_SHADOWS}];
+    uniform int uCloudShadowPuffCount;
+
+    // How much direct light reaches a point, 1 in the open
+    float getCloudShadow(vec3 worldPos) {
+        if (uCloudShadowStrength <= 0.0) return 1.0;
+        // A low sun would throw shadows from clouds far out of view
+        vec3 sun = uCloudShadowSun;
+        sun.y = max(sun.y, 0.25);
+
+        float shade = 0.0;
+        if (uCloudShadowLayer > 0.5) {
+            float depth = 0.0;
+            for (int i = 0; i < 2; i++) {
+                float height = mix(CLOUD_BOTTOM, CLOUD_TOP, 0.25 + 0.3 * float(i));
+                depth += cloudDensity(worldPos + sun * (height - worldPos.y) / sun.y);
+            }
+            shade = 1.0 - exp(-depth * 3.0);
+        } else {
+            for (int i = 0; i < ${MAX_CLOUD_SHADOWS}; i++) {
+                if (i >= uCloudShadowPuffCount) break;
+                vec4 puff = uCloudShadowPuffs[i];
+                vec2 p = worldPos.xz + sun.xz * (puff.y - worldPos.y) / sun.y;
+                // Puffs spread wider along x than z
+                float d = length((p - puff.xz) * vec2(1.0, 1.5)) / puff.w;
+                if (d < 1.3) {
+                    // Seeded by the puff's height, which stays with it
+                    // however the list is culled
+                    d += (cloudNoise(vec3(p * 0.08, puff.y)) - 0.5) * 0.5;
+                    shade = max(shade, 1.0 - smoothstep(0.4, 1.0, d));
+                }
+            }
+        }
+        return 1.0 - uCloudShadowStrength * shade;
+    }
+`
+
+function createCloudShadows(): CloudShadows {
+    const uniforms: CloudShadowUniforms = {
+        uCloudOffset: { value: new THREE.Vector2() },
+        uCloudCoverage: { value: 0.2 },
+        uCloudShadowStrength: { value: 0 },
+        uCloudShadowSun: { value: new THREE.Vector3(0, 1, 0) },
+        uCloudShadowLayer: { value: 0 },
+        uCloudShadowPuffs: {
+            value: Array.from(
+                { length: MAX_CLOUD_SHADOWS },
+                () => new THREE.Vector4()
+            ),
+        },
+        uCloudShadowPuffCount: { value: 0 },
+    }
 
-    const colors = []
-    colors.push(
-        FOLIAGE_COLOR_DARK.r,
-        FOLIAGE_COLOR_DARK.g,
-        FOLIAGE_COLOR_DARK.b
-    )
-    colors.push(
-        FOLIAGE_COLOR_DARK.r,
-        FOLIAGE_COLOR_DARK.g,
-        FOLIAGE_COLOR_DARK.b
-    )
-    colors.push(
-        FOLIAGE_COLOR_LIGHT.r,
-        FOLIAGE_COLOR_LIGHT.g,
-        FOLIAGE_COLOR_LIGHT.b
-    )
-    colors.push(
-        FOLIAGE_COLOR_LIGHT.r,
-        FOLIAGE_COLOR_LIGHT.g,
-        FOLIAGE_COLOR_LIGHT.b
-    )
-    needleGeom.setAttribute(
-        "color",
-        new THREE.Float32BufferAttribute(colors, 3)
-    )
-
-    needleGeom.translate(0, needleLength / 2, 0)
-
-    for (let i = 0; i < needlesPerSprig; i++) {
-        const needleClone = needleGeom.clone()
-
-        const angleX = Math.PI * 0.2 + (Math.random() - 0.5) * Math.PI * 0.2 // Angle outwards
-        const yRotation =
-            (i / needlesPerSprig) * Math.PI * 2 + Math.random() * 0.5 // Fan around
-
-        const tempMesh = new THREE.Mesh(needleClone)
-        tempMesh.rotation.set(angleX, yRotation, 0)
-        tempMesh.updateMatrix()
-
-        needleClone.applyMatrix4(tempMesh.matrix)
-        sprigGeometries.push(needleClone)
+    const update = (
+        clouds: THREE.Group,
+        raymarched: boolean,
+        strength: number,
+        center: THREE.Vector3
+    ) => {
+        uniforms.uCloudShadowStrength.value = strength
+        uniforms.uCloudShadowLayer.value = raymarched ? 1 : 0
+        let count = 0
+        if (!raymarched && strength > 0) {
+            // Where each shadow falls on the ground, with the same low sun
+            // limit as the shader
+            const sun = uniforms.uCloudShadowSun.value
+            const sunY = Math.max(sun.y, 0.25)
+            const nearby: { cloud: THREE.Object3D; distance: number }[] = []
+            clouds.children.forEach((cloud) => {
+                if (!cloud.visible) return
+                const { x, y, z } = cloud.position
+                const distance = Math.hypot(
+                    x - (sun.x * y) / sunY - center.x,
+                    z - (sun.z * y) / sunY - center.z
+                )
+                const radius = cloud.userData.shadowRadius
+                if (distance - radius * 1.6 < CLOUD_SHADOW_REACH) {
+                    nearby.push({ cloud, distance })
+                }
+            })
+            nearby
+                .sort((a, b) => a.distance - b.distance)
+                .slice(0, MAX_CLOUD_SHADOWS)
+                .forEach(({ cloud }) => {
+                    const { x, y, z } = cloud.position
+                    uniforms.uCloudShadowPuffs.value[count++].set(
+                        x,
+                        y,
+                        z,
+                        cloud.userData.shadowRadius
+                    )
+                })
+        }
+        uniforms.uCloudShadowPuffCount.value = count
     }
 
-    needleGeom.dispose()
-    if (sprigGeometries.length === 0) return new THREE.BufferGeometry()
-
-    const sprigGeometry = mergeGeometries(sprigGeometries)
-    if (!sprigGeometry) return new THREE.BufferGeometry()
-
-    const nonIndexedSprig = sprigGeometry.toNonIndexed()
-    sprigGeometry.dispose()
+    return { uniforms, update }
+}
 
-    return nonIndexedSprig
+// Lets a lit material's direct light fall into the cloud shadows. The shadow
+// is worked out per vertex, which is plenty for shade this soft.
+function addCloudShadows(
+    shader: THREE.WebGLProgramParametersWithUniforms,
+    cloudShadows: CloudShadows
+) {
+    Object.assign(shader.uniforms, cloudShadows.uniforms)
+    shader.vertexShader =
+        `
+        ${CLOUD_SHADOW_GLSL}
+        varying float vCloudShadow;
+    \n` +
+        shader.vertexShader.replace(
+            "#include <project_vertex>",
+            `
+            #include <project_vertex>
+            vec4 cloudShadowPosition = vec4(transformed, 1.0);
+            #ifdef USE_INSTANCING
+                cloudShadowPosition = instanceMatrix * cloudShadowPosition;
+            #endif
+            vCloudShadow = getCloudShadow((modelMatrix * cloudShadowPosition).xyz);
+            `
+        )
+    shader.fragmentShader =
+        `
+        varying float vCloudShadow;
+    \n` +
+        shader.fragmentShader.replace(
+            "#include <lights_fragment_end>",
+            `
+            #include <lights_fragment_end>
+            reflectedLight.directDiffuse *= vCloudShadow;
+            reflectedLight.directSpecular *= vCloudShadow;
+            `
+        )
 }
 
-// Helper to create a larger "pad" of foliage by clustering sprigs
-function createFoliagePad(
-    baseSprig: THREE.BufferGeometry
-): THREE.BufferGeometry {
-    const sprigsPerPad = 15
-    const padGeometries: THREE.BufferGeometry[] = []
-    const padRadius = 0.5
+// --- Rain Factory ---
+// Every drop is a short streak whose fall is computed on the GPU from its
+// starting point, wrapped inside a box that travels with the camera.
+const RAIN_BOX_WIDTH = 60
+const RAIN_BOX_HEIGHT = 30
+
+function createRain(maxDrops: number, random: RandomFn, wind: Wind) {
+    const positions = new Float32Array(maxDrops * 2 * 3)
+    const ends = new Float32Array(maxDrops * 2)
+    const randoms = new Float32Array(maxDrops * 2)
+    for (let i = 0; i < maxDrops; i++) {
+        const x = random() * RAIN_BOX_WIDTH
+        const y = random() * RAIN_BOX_HEIGHT
+        const z = random() * RAIN_BOX_WIDTH
+        const dropRandom = random()
+        for (let end = 0; end < 2; end++) {
+            const vertex = i * 2 + end
+            positions.set([x, y, z], vertex * 3)
+            ends[vertex] = end
+            randoms[vertex] = dropRandom
+        }
+    }
 
-    for (let i = 0; i < sprigsPerPad; i++) {
-        const sprigClone = baseSprig.clone()
+    const geometry = new THREE.BufferGeometry()
+    geometry.setAttribute("position", new THREE.BufferAttribute(positions, 3))
+    geometry.setAttribute("aEnd", new THREE.BufferAttribute(ends, 1))
+    geometry.setAttribute("aRandom", new THREE.BufferAttribute(randoms, 1))
+
+    const material = new THREE.ShaderMaterial({
+        uniforms: {
+            uTime: { value: 0 },
+            uAmount: { value: 0 },
+            uCenter: { value: new THREE.Vector3() },
+            uSlant: { value: new THREE.Vector2() },
+            uColor: { value: new THREE.Color("#c8d2dc") },
+        },
+        vertexShader: `
+            uniform float uTime;
+            uniform float uAmount;
+            uniform vec3 uCenter;
+            uniform vec2 uSlant;
+            attribute float aEnd;
+            attribute float aRandom;
+            varying float vAlpha;
+
+            const float BOX_WIDTH = ${RAIN_BOX_WIDTH.toFixed(1)};
+            const float BOX_HEIGHT = ${RAIN_BOX_HEIGHT.toFixed(1)};
+
+            void main() {
+                // Drops beyond the current amount stay hidden, so a drizzle
+                // simply shows fewer of them
+                float visible = step(aRandom, uAmount);
+                float fall = uTime * 14.0 * (0.85 + 0.3 * fract(aRandom * 7.13));
+                float streak = mix(0.3, 0.9, uAmount);
+
+                vec3 world;
+                world.xz = uCenter.xz + mod(position.xz + uSlant * fall - uCenter.xz, BOX_WIDTH) - BOX_WIDTH * 0.5;
+                world.y = uCenter.y - BOX_HEIGHT * 0.5 + mod(position.y - fall, BOX_HEIGHT);
+                // The tail trails up and back along the way the drop came
+                world += vec3(-uSlant.x, 1.0, -uSlant.y) * streak * aEnd;
+
+                float cameraDistance = distance(world, uCenter);
+                vAlpha = visible * (1.0 - 0.7 * aEnd) * (1.0 - smoothstep(10.0, BOX_WIDTH * 0.5, cameraDistance));
+                gl_Position = projectionMatrix * viewMatrix * vec4(world, 1.0);
+            }
+        `,
+        fragmentShader: `
+            uniform vec3 uColor;
+            varying float vAlpha;
+            void main() {
+                if (vAlpha <= 0.0) discard;
+                gl_FragColor = vec4(uColor, vAlpha * 0.5);
+            }
+        `,
+        transparent: true,
+        depthWrite: false,
+    })
 
-        const phi = Math.acos(1 - 2 * Math.random()) // Distribute points on a sphere
-        const theta = Math.PI * 2 * Math.random()
+    const rain = new THREE.LineSegments(geometry, material)
+    rain.frustumCulled = false
+    rain.renderOrder = 2 // In front of the cloud layer
+    rain.visible = false
 
-        const x = Math.sin(phi) * Math.cos(theta) * padRadius
-        const y = Math.sin(phi) * Math.sin(theta) * padRadius * 0.7 // Flatten the sphere slightly
-        const z = Math.cos(phi) * padRadius
+    rain.userData.setAmount = (amount: number) => {
+        material.uniforms.uAmount.value = amount
+        rain.visible = amount > 0
+    }
+    rain.userData.setColor = (color: THREE.Color) =>
+        material.uniforms.uColor.value.copy(color)
+    rain.userData.update = (center: THREE.Vector3) => {
+        material.uniforms.uTime.value = performance.now() / 1000
+        material.uniforms.uCenter.value.copy(center)
+        material.uniforms.uSlant.value
+            .copy(wind.uniforms.uWindDirection.value)
+            .multiplyScalar(wind.uniforms.uWindStrength.value * 0.15)
+    }
 
-        const tempMesh = new THREE.Mesh(sprigClone)
-        tempMesh.position.set(x, y, z)
-        tempMesh.lookAt(0, 0, 0)
-        tempMesh.rotation.y += Math.PI / 2 // Orient needles outward
-        tempMesh.updateMatrix()
+    return rain
+}
 
-        sprigClone.applyMatrix4(tempMesh.matrix)
+// --- Falling Leaves and Snow ---
+// Like the rain, each flake or leaf falls on the GPU from its starting point
+// in a box that travels with the camera. The first share of them are leaves
+// and the rest snow, so either can fade in or out on its own.
+const FALL_BOX_WIDTH = 40
+const FALL_BOX_HEIGHT = 20
+
+function createFallingParticles(
+    maxParticles: number,
+    random: RandomFn,
+    wind: Wind
+) {
+    const positions = new Float32Array(maxParticles * 3)
+    const seeds = new Float32Array(maxParticles * 4)
+    for (let i = 0; i < maxParticles; i++) {
+        positions.set(
+            [
+                random() * FALL_BOX_WIDTH,
+                random() * FALL_BOX_HEIGHT,
+                random() * FALL_BOX_WIDTH,
+            ],
+            i * 3
+        )
+        seeds.set([random(), random(), random(), random()], i * 4)
+    }
 
-        // Add darker color to bottom half of the pad for self-shadowing illusion
-        const colors = sprigClone.attributes.color
-        const tempVec = new THREE.Vector3()
-        for (let j = 0; j < colors.count; j++) {
-            tempVec.fromBufferAttribute(sprigClone.attributes.position, j)
-            if (tempVec.y < 0) {
-                colors.setXYZ(
-                    j,
-                    FOLIAGE_SHADOW.r,
-                    FOLIAGE_SHADOW.g,
-                    FOLIAGE_SHADOW.b
-                )
+    const geometry = new THREE.BufferGeometry()
+    geometry.setAttribute("position", new THREE.BufferAttribute(positions, 3))
+    geometry.setAttribute("aSeed", new THREE.BufferAttribute(seeds, 4))
+
+    const material = new THREE.ShaderMaterial({
+        uniforms: {
+            uTime: { value: 0 },
+            uLeaves: { value: 0 },
+            uSnowfall: { value: 0 },
+            uCenter: { value: new THREE.Vector3() },
+            uDrift: { value: new THREE.Vector2() },
+            uLight: { value: new THREE.Color(1, 1, 1) },
+        },
+        vertexShader: `
+            uniform float uTime;
+            uniform float uLeaves;
+            uniform float uSnowfall;
+            uniform vec3 uCenter;
+            uniform vec2 uDrift;
+            attribute vec4 aSeed; // Which one, fall speed, phase, size
+            varying float vAlpha;
+            varying float vLeaf;
+            varying float vAngle;
+            varying vec3 vColor;
+
+            const float BOX_WIDTH = ${FALL_BOX_WIDTH.toFixed(1)};
+            const float BOX_HEIGHT = ${FALL_BOX_HEIGHT.toFixed(1)};
+
+            void main() {
+                float total = uLeaves + uSnowfall;
+                float visible = step(aSeed.x, min(total, 1.0));
+                vLeaf = step(aSeed.x, min(total, 1.0) * uLeaves / max(total, 1e-3));
+
+                // Leaves flutter down slowly and swing wider than the snow
+                float speed = mix(0.9 + 0.6 * aSeed.y, 0.7 + 0.9 * aSeed.y, vLeaf);
+                float fall = uTime * speed;
+                float swing = sin(uTime * (0.8 + aSeed.y) + aSeed.z * 6.2832) * mix(0.4, 1.2, vLeaf);
+
+                vec3 world;
+                world.xz = uCenter.xz + mod(position.xz + uDrift * fall + swing - uCenter.xz, BOX_WIDTH) - BOX_WIDTH * 0.5;
+                world.y = uCenter.y - BOX_HEIGHT * 0.5 + mod(position.y - fall, BOX_HEIGHT);
+
+                vec4 mvPosition = viewMatrix * vec4(world, 1.0);
+                gl_Position = projectionMatrix * mvPosition;
+                gl_PointSize = max(mix(0.08, 0.16, vLeaf) * (0.7 + 0.6 * aSeed.w) * 300.0 / -mvPosition.z, 1.0);
+
+                float cameraDistance = distance(world, uCenter);
+                vAlpha = visible * (1.0 - smoothstep(8.0, BOX_WIDTH * 0.5, cameraDistance));
+                vAngle = aSeed.z * 6.2832 + uTime * (1.0 + 2.0 * aSeed.w);
+                vec3 leafColor = mix(
+                    mix(vec3(0.85, 0.35, 0.1), vec3(0.95, 0.65, 0.15), fract(aSeed.w * 3.7)),
+                    vec3(0.5, 0.3, 0.15),
+                    step(0.7, fract(aSeed.y * 5.3))
+                );
+                vColor = mix(vec3(1.0), leafColor, vLeaf);
             }
-        }
-        colors.needsUpdate = true
+        `,
+        fragmentShader: `
+            uniform vec3 uLight;
+            varying float vAlpha;
+            varying float vLeaf;
+            varying float vAngle;
+            varying vec3 vColor;
+            void main() {
+                if (vAlpha <= 0.0) discard;
+                vec2 p = gl_PointCoord - 0.5;
+                float shape;
+                if (vLeaf > 0.5) {
+                    // A slim leaf, spinning and tumbling edge-on now and then
+                    float c = cos(vAngle);
+                    float s = sin(vAngle);
+                    p = mat2(c, -s, s, c) * p;
+                    p.x /= max(abs(cos(vAngle * 0.6)), 0.15);
+                    shape = 1.0 - smoothstep(0.4, 0.5, length(p * vec2(2.0, 1.0)));
+                } else {
+                    shape = 1.0 - smoothstep(0.1, 0.5, length(p));
+                }
+                if (shape <= 0.0) discard;
+                gl_FragColor = vec4(vColor * uLight, vAlpha * shape);
+            }
+        `,
+        transparent: true,
+        depthWrite: false,
+    })
 
-        padGeometries.push(sprigClone)
+    const particles = new THREE.Points(geometry, material)
+    particles.frustumCulled = false
+    particles.renderOrder = 2 // In front of the cloud layer
+    particles.visible = false
+
+    particles.userData.setAmounts = (leaves: number, snowfall: number) => {
+        material.uniforms.uLeaves.value = leaves
+        material.uniforms.uSnowfall.value = snowfall
+        particles.visible = leaves + snowfall > 0
+    }
+    particles.userData.setLight = (color: THREE.Color) =>
+        material.uniforms.uLight.value.copy(color)
+    particles.userData.update = (center: THREE.Vector3) => {
+        material.uniforms.uTime.value = performance.now() / 1000
+        material.uniforms.uCenter.value.copy(center)
+        material.uniforms.uDrift.value
+            .copy(wind.uniforms.uWindDirection.value)
+            .multiplyScalar(wind.uniforms.uWindStrength.value * 0.4)
     }
 
-    if (padGeometries.length === 0) return new THREE.BufferGeometry()
-    const padGeometry = mergeGeometries(padGeometries)
-    if (!padGeometry) return new THREE.BufferGeometry()
+    return particles
+}
 
-    // No need to de-index again as the base sprig is already non-indexed
-    return padGeometry
+// A grey dome between the sky and the clouds that closes over as the sky
+// clouds over, hiding the sun, moon and stars behind it
+function createOvercastSky() {
+    const material = new THREE.MeshBasicMaterial({
+        transparent: true,
+        opacity: 0,
+        side: THREE.BackSide,
+        depthWrite: false,
+        fog: false,
+    })
+    const overcastSky = new THREE.Mesh(
+        new THREE.SphereGeometry(400, 32, 16),
+        material
+    )
+    overcastSky.renderOrder = -1 // Under every other see-through sky layer
+    overcastSky.visible = false
+    return overcastSky
 }
 
-function createPineTreeGeometry(): THREE.BufferGeometry {
-    const geometries: THREE.BufferGeometry[] = []
+// --- Water Ripple Simulation ---
+// A height field over the square around the water, stepped on the GPU by
+// rendering between two targets that take turns as source and destination.
+// Each texel keeps its height now (r) and a step before (g), which is all
+// the wave equation needs to carry waves on.
+const RIPPLE_SIM_SIZE = 512
+const RIPPLE_STEP_SECONDS = 1 / 60
+const MAX_RIPPLE_STEPS = 4 // Per frame, so a slow frame doesn't get slower
+const MAX_RIPPLE_DROPS = 16 // Per step; any more wait for the next one
+const RIPPLE_WAVE_SPEED = 1.2 // Metres per second
+const RIPPLE_DAMPING = 0.985 // Motion kept each step
+const RAIN_DROPS_PER_SECOND = 150 // Landing on the water in the heaviest rain
+
+type RippleUniforms = {
+    uRippleHeight: { value: THREE.Texture }
+}
 
-    // --- Unified Trunk Skeleton ---
-    const trunkHeight = 7.5
-    const trunkRadius = 0.3
-    // Use a Cone for a continuous, pointy skeleton
-    let trunkGeometry: THREE.BufferGeometry = new THREE.ConeGeometry(
-        trunkRadius,
-        trunkHeight,
-        16,
-        5
-    )
-    trunkGeometry.translate(0, trunkHeight / 2, 0) // Base at y=0
+type Ripples = {
+    uniforms: RippleUniforms
+    // Pushes the water down around a world position, a disc of the given
+    // radius deepest in the middle
+    disturb: (x: number, z: number, radius: number, strength: number) => void
+    update: (iceLine: number) => void
+    dispose: () => void
+}
 
-    const trunkColors = []
-    const pos = trunkGeometry.attributes.position
-    for (let i = 0; i < pos.count; i++) {
-        const ratio = pos.getY(i) / trunkHeight
-        const color = new THREE.Color().lerpColors(
-            TRUNK_COLOR_DARK,
-            TRUNK_COLOR_LIGHT,
-            ratio + (Math.random() - 0.5) * 0.1
+function createRipples(renderer: THREE.WebGLRenderer, waters: Waters): Ripples {
+    const createTarget = () => {
+        const target = new THREE.WebGLRenderTarget(
+            RIPPLE_SIM_SIZE,
+            RIPPLE_SIM_SIZE,
+            {
+                type: THREE.HalfFloatType,
+                minFilter: THREE.LinearFilter,
+                magFilter: THREE.LinearFilter,
+                depthBuffer: false,
+            }
         )
-        trunkColors.push(color.r, color.g, color.b)
+        renderer.initRenderTarget(target) // Allocated as still water
+        return target
     }
-    trunkGeometry.setAttribute(
-        "color",
-        new THREE.Float32BufferAttribute(trunkColors, 3)
-    )
-    trunkGeometry = trunkGeometry.toNonIndexed()
-    geometries.push(trunkGeometry)
-
-    // --- Branches & Foliage (Unified Loop) ---
-    const baseSprig = createPineNeedleSprig()
-    const foliagePad = createFoliagePad(baseSprig)
-
-    const branchLevels = 10
-    const branchesPerLevel = 5
-
-    // Loop goes from bottom to near the top
-    for (let i = 0; i < branchLevels; i++) {
-        const levelRatio = i / (branchLevels - 1) // 0 for bottom, 1 for top
-        const levelY = trunkHeight * 0.1 + trunkHeight * 0.85 * levelRatio
-
-        // Branches are longest in the middle, shorter at ends
-        const branchLength = Math.sin(levelRatio * Math.PI) * 2.5 + 0.5
-        if (branchLength < 0.5) continue // Skip tiny branches at the very bottom/top
+    let source = createTarget()
+    let destination = createTarget()
+
+    const simUniforms = {
+        uState: { value: source.texture },
+        uTexel: { value: 1 / RIPPLE_SIM_SIZE },
+        uWaveSpeed: { value: 0 },
+        uDamping: { value: RIPPLE_DAMPING },
+        uIceLine: { value: 0 },
+        uDrops: {
+            value: Array.from(
+                { length: MAX_RIPPLE_DROPS },
+                () => new THREE.Vector4()
+            ),
+        },
+        uDropCount: { value: 0 },
+        ...waters.uniforms,
+    }
+    const material = new THREE.ShaderMaterial({
+        defines: { MAX_RIPPLE_DROPS },
+        uniforms: simUniforms,
+        vertexShader: `
+            varying vec2 vUv;
+
+            void main() {
+                vUv = uv;
+                gl_Position = vec4(position.xy, 0.0, 1.0);
+            }
+        `,
+        fragmentShader: `
+            uniform sampler2D uState;
+            uniform float uTexel;
+            uniform float uWaveSpeed;
+            uniform float uDamping;
+            uniform float uIceLine;
+            uniform vec4 uDrops[MAX_RIPPLE_DROPS];
+            uniform int uDropCount;
+            uniform sampler2D uWaterShape;
+            varying vec2 vUv;
+
+            void main() {
+                // The shore, and any ice grown out from it, holds the water
+                // still, so the waves that reach it bounce back
+                float fromShore = texture2D(uWaterShape, vUv).r;
+                if (fromShore <= max(uIceLine, 0.0)) {
+                    gl_FragColor = vec4(0.0);
+                    return;
+                }
 
-        for (let j = 0; j < branchesPerLevel; j++) {
-            // Add some spiral to the branch placement
-            const angle =
-                (j / branchesPerLevel) * Math.PI * 2 +
-                (Math.random() - 0.5) * 0.8 +
-                i * 0.3
+                vec2 state = texture2D(uState, vUv).rg;
+                float neighbours =
+                    texture2D(uState, vUv + vec2(uTexel, 0.0)).r +
+                    texture2D(uState, vUv - vec2(uTexel, 0.0)).r +
+                    texture2D(uState, vUv + vec2(0.0, uTexel)).r +
+                    texture2D(uState, vUv - vec2(0.0, uTexel)).r;
+                float velocity = (state.r - state.g) * uDamping;
+                float height = state.r + velocity + (neighbours - 4.0 * state.r) * uWaveSpeed;
+
+                for (int i = 0; i < MAX_RIPPLE_DROPS; i++) {
+                    if (i >= uDropCount) break;
+                    vec4 drop = uDrops[i];
+                    float d = distance(vUv, drop.xy) / drop.z;
+                    if (d < 1.0) height -= drop.w * (0.5 + 0.5 * cos(d * 3.14159265));
+                }
 
-            const branchMatrixContainer = new THREE.Object3D()
-            branchMatrixContainer.position.set(0, levelY, 0)
+                gl_FragColor = vec4(height, state.r, 0.0, 1.0);
+            }
+        `,
+        depthTest: false,
+        depthWrite: false,
+    })
+    const quad = new THREE.Mesh(new THREE.PlaneGeometry(2, 2), material)
+    quad.frustumCulled = false
+    const simScene = new THREE.Scene()
+    simScene.add(quad)
+    const simCamera = new THREE.Camera() // Unused, the quad fills the target
+
+    const uniforms: RippleUniforms = {
+        uRippleHeight: { value: source.texture },
+    }
 
-            // Lower branches droop, upper branches point up
-            const droopAngle = Math.PI / 2.5 - levelRatio * (Math.PI / 2.2)
-            branchMatrixContainer.rotation.set(0, angle, droopAngle)
-            branchMatrixContainer.updateMatrix()
+    // Drops are kept in world space until their step, as the water can be
+    // reshaped in between
+    const drops: THREE.Vector4[] = []
+    let pendingSeconds = 0
+    let lastUpdate = performance.now()
+
+    const disturb = (
+        x: number,
+        z: number,
+        radius: number,
+        strength: number
+    ) => {
+        if (drops.length >= MAX_RIPPLE_DROPS * MAX_RIPPLE_STEPS) return
+        drops.push(new THREE.Vector4(x, z, radius, strength))
+    }
 
-            // --- Organic Tapered Branch ---
-            const branchRadius = (1.0 - levelRatio) * 0.08 + 0.02 // Thicker at base
-            let branchGeom: THREE.BufferGeometry = new THREE.ConeGeometry(
-                branchRadius,
-                branchLength,
-                8,
-                1
+    const step = () => {
+        const stepDrops = drops.splice(0, MAX_RIPPLE_DROPS)
+        const center = waters.uniforms.uWaterCenter.value
+        const toUv = 1 / (waters.uniforms.uWaterExtent.value * 2)
+        stepDrops.forEach((drop, i) =>
+            simUniforms.uDrops.value[i].set(
+                (drop.x - center.x) * toUv + 0.5,
+                (drop.y - center.y) * toUv + 0.5,
+                drop.z * toUv,
+                drop.w
             )
-            branchGeom.translate(0, branchLength / 2, 0) // Position cone base at origin
+        )
+        simUniforms.uDropCount.value = stepDrops.length
+        simUniforms.uState.value = source.texture
+        renderer.setRenderTarget(destination)
+        renderer.render(simScene, simCamera)
+        ;[source, destination] = [destination, source]
+    }
 
-            const branchColors = []
-            for (let k = 0; k < branchGeom.attributes.position.count; k++) {
-                const color = TRUNK_COLOR_DARK
-                branchColors.push(color.r, color.g, color.b)
-            }
-            branchGeom.setAttribute(
-                "color",
-                new THREE.Float32BufferAttribute(branchColors, 3)
-            )
-            branchGeom = branchGeom.toNonIndexed()
-            branchGeom.applyMatrix4(branchMatrixContainer.matrix)
-            geometries.push(branchGeom)
-            // --- End of Branch ---
+    // Steps at a fixed rate whatever the frame rate, as the waves' speed
+    // depends on it
+    const update = (iceLine: number) => {
+        const now = performance.now()
+        pendingSeconds += Math.min((now - lastUpdate) / 1000, 0.25)
+        lastUpdate = now
+
+        const texelSize =
+            (waters.uniforms.uWaterExtent.value * 2) / RIPPLE_SIM_SIZE
+        simUniforms.uWaveSpeed.value = Math.min(
+            ((RIPPLE_WAVE_SPEED * RIPPLE_STEP_SECONDS) / texelSize) ** 2,
+            0.45 // Past 0.5 the simulation blows up
+        )
+        simUniforms.uIceLine.value = iceLine
 
-            // --- Foliage on the branch ---
-            const padsOnBranch = 5
-            for (let k = 1; k <= padsOnBranch; k++) {
-                const padPosRatio = k / padsOnBranch
-                // Don't place foliage inside trunk
-                if (padPosRatio * branchLength < trunkRadius * 1.5) continue
+        const steps = Math.min(
+            Math.floor(pendingSeconds / RIPPLE_STEP_SECONDS),
+            MAX_RIPPLE_STEPS
+        )
+        pendingSeconds = Math.min(
+            pendingSeconds - steps * RIPPLE_STEP_SECONDS,
+            RIPPLE_STEP_SECONDS
+        )
+        if (steps === 0) return
 
-                // Foliage pads get smaller towards the tip and top of tree
-                const foliageScale = (1.0 - levelRatio) * 0.6 + 0.2
+        const previousTarget = renderer.getRenderTarget()
+        for (let i = 0; i < steps; i++) step()
+        renderer.setRenderTarget(previousTarget)
+        uniforms.uRippleHeight.value = source.texture
+    }
 
-                const padClone = foliagePad.clone()
+    const dispose = () => {
+        source.dispose()
+        destination.dispose()
+        quad.geometry.dispose()
+        material.dispose()
+    }
 
-                const padMesh = new THREE.Object3D()
-                padMesh.scale.setScalar(
-                    foliageScale * (0.8 + Math.random() * 0.4)
-                )
+    return { uniforms, disturb, update, dispose }
+}
 
-                const positionOnBranch = new THREE.Vector3(
-                    0,
-                    padPosRatio * branchLength,
-                    0
+// --- FROM Water.tsx ---
+// Seconds for the water to freeze over or thaw completely
+const FREEZE_SECONDS = 40
+const THAW_SECONDS = 25
+// The ice line starts just beyond the shore and ends just past the centre,
+// so no ragged rim of ice is left at 0 nor hole in the middle at 1
+const ICE_MARGIN = 0.1
+// Baked depth and distance in from the shore reach this far, in metres.
+// The distance also keeps a metre of land so the fade ends at the edge.
+const WATER_DEPTH_RANGE = 2.5
+const SHORE_DISTANCE_RANGE = 4
+
+// One flat mesh for every body of water: ponds and lakes filled in, rivers as
+// ribbons along their splines. Built in the water's own plane, which is
+// turned to lie flat, so z on the ground is -y here.
+function createWaterGeometry(waters: Waters) {
+    const geometries = waters.bodies.map((body) => {
+        const { path, halfWidths } = sampleWaterBody(body)
+        if (!halfWidths) {
+            return new THREE.ShapeGeometry(
+                new THREE.Shape(
+                    path.map(
+                        (point: THREE.Vector2) =>
+                            new THREE.Vector2(point.x, -point.y)
+                    )
                 )
-
-                // Add some gravity sag
-                positionOnBranch.z -= padPosRatio * padPosRatio * 0.3
-
-                padMesh.position.copy(positionOnBranch)
-                padMesh.rotation.y = Math.random() * Math.PI
-                padMesh.updateMatrix()
-
-                // Apply the branch's transformation, then the pad's local transformation
-                const finalMatrix = branchMatrixContainer.matrix
-                    .clone()
-                    .multiply(padMesh.matrix)
-                padClone.applyMatrix4(finalMatrix)
-                geometries.push(padClone)
-            }
+            )
         }
-    }
 
-    // The separate Tree Top (Leader) section has been removed.
-
-    // --- Cleanup base geometries ---
-    baseSprig.dispose()
-    foliagePad.dispose()
-
-    const finalGeometry = mergeGeometries(geometries)
-
-    if (!finalGeometry) {
-        console.error("Failed to merge geometries for the pine tree.")
-        return new THREE.BoxGeometry(1, 5, 1)
-    }
-
-    // Dispose of all the cloned/intermediate geometries
-    geometries.forEach((g) => {
-        if (g) g.dispose()
+        const positions: number[] = []
+        const uvs: number[] = []
+        const indices: number[] = []
+        const direction = new THREE.Vector2()
+        path.forEach((point: THREE.Vector2, i: number) => {
+            direction
+                .subVectors(
+                    path[Math.min(i + 1, path.length - 1)],
+                    path[Math.max(i - 1, 0)]
+                )
+                .normalize()
+            const sideX = -direction.y * halfWidths[i]
+            const sideZ = direction.x * halfWidths[i]
+            positions.push(point.x + sideX, -(point.y + sideZ), 0)
+            positions.push(point.x - sideX, -(point.y - sideZ), 0)
+            uvs.push(0, i / (path.length - 1), 1, i / (path.length - 1))
+            if (i > 0) {
+                const left = (i - 1) * 2
+                indices.push(left, left + 2, left + 1)
+                indices.push(left + 1, left + 2, left + 3)
+            }
+        })
+        const ribbon = new THREE.BufferGeometry()
+        ribbon.setAttribute(
+            "position",
+            new THREE.Float32BufferAttribute(positions, 3)
+        )
+        ribbon.setAttribute(
+            "normal",
+            new THREE.Float32BufferAttribute(
+                positions.map((_, i) => (i % 3 === 2 ? 1 : 0)),
+                3
+            )
+        )
+        ribbon.setAttribute("uv", new THREE.Float32BufferAttribute(uvs, 2))
+        ribbon.setIndex(indices)
+        return ribbon
     })
-
-    return finalGeometry
+    if (geometries.length === 0) return new THREE.BufferGeometry()
+    const geometry = mergeGeometries(geometries)
+    geometries.forEach((part) => part.dispose())
+    return geometry ?? new THREE.BufferGeometry()
 }
 
-// --- FROM grass.tsx ---
-function createGrass(
-    pondPosition: THREE.Vector3,
-    pondRadius: number,
+// This function creates a stylized, textureless water effect.
+// Instead of using a normal map texture, it generates procedural ripples in the shader.
+// The color comes from reflections of the environment over a tint that deepens
+// with the water, read off the terrain below.
+function createWater(
+    waters: Waters,
+    terrain: Terrain,
+    sunDirection: THREE.Vector3,
     params: {
-        grassCount: number
-        grassBaseColor: string | number | THREE.Color
-        grassTipColor: string | number | THREE.Color
+        rippleScale: number
+        rippleSpeed: number
+        rippleIntensity: number
+        waterFlowSpeed: number
+        waterDistortion: number
+        waterShallowColor: string | number | THREE.Color
+        waterDeepColor: string | number | THREE.Color
+        shoreFoam: number
+        sunColor: string | number | THREE.Color
     },
-    maxGrassCount: number
+    wind: Wind,
+    cloudShadows: CloudShadows,
+    ripples: Ripples
 ) {
-    const grassBladeHeight = 1.0
-    const grassGeometry = new THREE.PlaneGeometry(0.1, grassBladeHeight, 1, 2)
-    grassGeometry.translate(0, grassBladeHeight / 2, 0)
-
-    const randoms = new Float32Array(maxGrassCount)
-    for (let i = 0; i < maxGrassCount; i++) {
-        randoms[i] = Math.random()
-    }
-    grassGeometry.setAttribute(
-        "aRandom",
-        new THREE.InstancedBufferAttribute(randoms, 1)
-    )
-
-    const positions = grassGeometry.attributes.position
-    positions.setX(0, 0)
-    positions.setX(1, 0)
-    positions.needsUpdate = true
-    grassGeometry.computeVertexNormals()
-
-    const grassMaterial = new THREE.MeshToonMaterial({
-        side: THREE.DoubleSide,
-        vertexColors: true,
-        color: params.grassBaseColor,
+    const water = new Water(createWaterGeometry(waters), {
+        textureWidth: 512,
+        textureHeight: 512,
+        waterNormals: new THREE.Texture(), // Pass an empty texture, we won't use it
+        sunDirection: sunDirection,
+        sunColor: params.sunColor,
+        waterColor: 0x001e0f, // This color is mostly overridden by fog and reflection
+        distortionScale: params.waterDistortion,
+        fog: true,
+        alpha: 0.95,
     })
 
-    grassMaterial.onBeforeCompile = (shader) => {
-        shader.uniforms.time = { value: 0 }
-        shader.uniforms.uMousePos = {
-            value: new THREE.Vector3(9999, 9999, 9999),
-        }
-        shader.uniforms.uGrassTipColor = {
-            value: new THREE.Color(params.grassTipColor),
+    water.rotation.x = -Math.PI / 2
+    water.position.y = waters.level
+
+    const waterMaterial = water.material as THREE.ShaderMaterial
+    waterMaterial.transparent = true // Fades out into the shallows
+
+    // Depth below the surface (r) and distance in from the shore (g), over
+    // the same square as the water's shape
+    const depthTexture = new THREE.DataTexture(
+        new Uint8Array(WATER_FIELD_SIZE * WATER_FIELD_SIZE * 4),
+        WATER_FIELD_SIZE,
+        WATER_FIELD_SIZE
+    )
+    depthTexture.minFilter = THREE.LinearFilter
+    depthTexture.magFilter = THREE.LinearFilter
+    const bakeDepth = () => {
+        const data = depthTexture.image.data as Uint8Array
+        const center = waters.uniforms.uWaterCenter.value
+        const extent = waters.uniforms.uWaterExtent.value
+        const cellSize = (extent * 2) / WATER_FIELD_SIZE
+        for (let j = 0; j < WATER_FIELD_SIZE; j++) {
+            for (let i = 0; i < WATER_FIELD_SIZE; i++) {
+                const x = center.x - extent + (i + 0.5) * cellSize
+                const z = center.y - extent + (j + 0.5) * cellSize
+                const inland = waters.getShoreDistance(x, z)
+                const depth =
+                    inland < 0 ? waters.level - terrain.getHeightAt(x, z) : 0
+                const index = (j * WATER_FIELD_SIZE + i) * 4
+                data[index] =
+                    THREE.MathUtils.clamp(depth / WATER_DEPTH_RANGE, 0, 1) * 255
+                data[index + 1] =
+                    THREE.MathUtils.clamp(
+                        (1 - inland) / (SHORE_DISTANCE_RANGE + 1),
+                        0,
+                        1
+                    ) * 255
+            }
         }
-        shader.uniforms.uSunDirection = { value: new THREE.Vector3(0, 1, 0) }
+        depthTexture.needsUpdate = true
+    }
+    bakeDepth()
 
-        shader.vertexShader =
-            `
-            uniform float time;
-            uniform vec3 uMousePos;
-            varying vec3 vWorldPosition;
-            varying float vRelativeHeight;
-            attribute float aRandom;
-            varying float vRandom;
-            varying vec3 vGrassNormal;
-        \n` + shader.vertexShader
+    // Add new uniforms for procedural ripples
+    waterMaterial.uniforms.rippleScale = { value: params.rippleScale }
+    waterMaterial.uniforms.rippleSpeed = { value: params.rippleSpeed }
+    waterMaterial.uniforms.rippleIntensity = { value: params.rippleIntensity }
+    waterMaterial.uniforms.uFrozen = { value: 0 } // How far the ice has grown
+    waterMaterial.uniforms.uFlowTime = { value: 0 }
+    waterMaterial.uniforms.uWaveOffset = { value: new THREE.Vector2() }
+    waterMaterial.uniforms.uWaterDepth = { value: depthTexture }
+    waterMaterial.uniforms.uShallowColor = {
+        value: new THREE.Color(params.waterShallowColor),
+    }
+    waterMaterial.uniforms.uDeepColor = {
+        value: new THREE.Color(params.waterDeepColor),
+    }
+    waterMaterial.uniforms.uShoreFoam = { value: params.shoreFoam }
+    Object.assign(
+        waterMaterial.uniforms,
+        waters.uniforms,
+        wind.uniforms,
+        cloudShadows.uniforms,
+        ripples.uniforms
+    )
 
+    // We will override the default shader to create our procedural effect
+    waterMaterial.onBeforeCompile = (shader) => {
+        // Add uniforms and noise function to the shader code
         shader.fragmentShader =
             `
-            uniform vec3 uGrassTipColor;
-            uniform vec3 uSunDirection;
-            varying float vRelativeHeight;
-            varying float vRandom;
-            varying vec3 vGrassNormal;
-            varying vec3 vWorldPosition;
+            uniform float rippleScale;
+            uniform float rippleSpeed;
+            uniform float rippleIntensity;
+
+            uniform sampler2D uRippleHeight;
+            uniform float uFrozen;
+            uniform float uFlowTime;
+            uniform vec2 uWaveOffset;
+            uniform sampler2D uWaterShape;
+            uniform vec2 uWaterCenter;
+            uniform float uWaterExtent;
+            uniform sampler2D uWaterDepth;
+            uniform vec3 uShallowColor;
+            uniform vec3 uDeepColor;
+            uniform float uShoreFoam;
+            ${WIND_GLSL}
+            ${CLOUD_SHADOW_GLSL}
+
+            // 2D Simplex Noise
+            vec2 hash( vec2 p ) {
+                p = vec2( dot(p,vec2(127.1,311.7)),
+                          dot(p,vec2(269.5,183.3)) );
+                return -1.0 + 2.0*fract(sin(p)*43758.5453123);
+            }
+
+            float noise( in vec2 p ) {
+                const float K1 = 0.366025404; // (sqrt(3)-1)/2;
+                const float K2 = 0.211324865; // (3-sqrt(3))/6;
+            
+                vec2 i = floor( p + (p.x+p.y)*K1 );
+                
+                vec2 a = p - i + (i.x+i.y)*K2;
+                vec2 o = (a.x>a.y) ? vec2(1.0,0.0) : vec2(0.0,1.0);
+                vec2 b = a - o + K2;
+                vec2 c = a - 1.0 + 2.0*K2;
+            
+                vec3 h = max( 0.5-vec3(dot(a,a), dot(b,b), dot(c,c) ), 0.0 );
+                vec3 n = h*h*h*h*vec3( dot(a,hash(i+0.0)), dot(b,hash(i+o)), dot(c,hash(i+1.0)));
+            
+                return dot( n, vec3(70.0) );
+            }
         \n` + shader.fragmentShader
 
-        shader.vertexShader = shader.vertexShader.replace(
-            "#include <begin_vertex>",
-            `
-                #include <begin_vertex>
-                vWorldPosition = (instanceMatrix * vec4(position, 1.0)).xyz;
-                vRelativeHeight = position.y / ${grassBladeHeight.toFixed(1)};
-                vRandom = aRandom;
-                vGrassNormal = normalize((instanceMatrix * vec4(normal, 0.0)).xyz);
+        const displacementFunctions = `
+            // Where a world position falls on the textures baked over the
+            // square around the water
+            vec2 getWaterUv(vec2 worldPos) {
+                return (worldPos - uWaterCenter) / (uWaterExtent * 2.0) + 0.5;
+            }
 
-                // Wind Effect
-                float windStrength = 0.15;
-                float windSpeed = 1.5;
-                float sway = pow(position.y, 2.0);
-                transformed.x += sin(time * windSpeed + vWorldPosition.z * 0.5) * windStrength * sway;
+            // Ice creeps in from the shore: at uFrozen 0 there is none, at
+            // 1 the water is covered, and in between a ragged band of it
+            // closes in on the open water in the middle
+            float getIceMask(vec2 worldPos) {
+                if (uFrozen <= 0.0) return 0.0;
+                float fromShore = texture2D(uWaterShape, getWaterUv(worldPos)).r;
+                float iceLine = uFrozen * ${(1 + 2 * ICE_MARGIN).toFixed(2)} - ${ICE_MARGIN.toFixed(2)};
+                return 1.0 - smoothstep(iceLine - 0.03, iceLine, fromShore + noise(worldPos * 0.4) * 0.05);
+            }
 
-                // Mouse Interactivity
-                float dist = distance(vWorldPosition.xz, uMousePos.xz);
-                float pushRadius = 2.5;
-                float pushStrength = 0.8;
+            // Cracks run along the edges of Voronoi cells, the distance to
+            // the nearest cell centre against the second nearest
+            float getIceCracks(vec2 p) {
+                vec2 cell = floor(p);
+                vec2 f = fract(p);
+                float nearest = 8.0;
+                float second = 8.0;
+                for (int y = -1; y <= 1; y++) {
+                    for (int x = -1; x <= 1; x++) {
+                        vec2 offset = vec2(float(x), float(y));
+                        vec2 r = offset + 0.5 + 0.45 * hash(cell + offset) - f;
+                        float d = dot(r, r);
+                        if (d < nearest) {
+                            second = nearest;
+                            nearest = d;
+                        } else if (d < second) {
+                            second = d;
+                        }
+                    }
+                }
+                return 1.0 - smoothstep(0.0, 0.05, sqrt(second) - sqrt(nearest));
+            }
 
-                if (dist < pushRadius) {
-                    float falloff = 1.0 - dist / pushRadius;
-                    falloff = pow(falloff, 3.0);
-                    
-                    vec3 pushDir = normalize(vWorldPosition.xyz - uMousePos);
-                    pushDir.y = 0.0;
-                    
-                    float pushSway = pow(position.y, 1.5);
-                    
-                    transformed.xyz += pushDir * falloff * pushStrength * pushSway;
+            // Light from the sky and ambient lights, which tints the water
+            // as the sun's glint alone can't
+            vec3 getSkyLight() {
+                vec3 irradiance = getAmbientLightIrradiance(ambientLightColor);
+                #if NUM_HEMI_LIGHTS > 0
+                    for (int i = 0; i < NUM_HEMI_LIGHTS; i++) {
+                        irradiance += getHemisphereLightIrradiance(hemisphereLights[i], vec3(0.0, 1.0, 0.0));
+                    }
+                #endif
+                return irradiance;
+            }
+
+            // Ambient waves, blown across the water by the wind and
+            // heightened where it gusts
+            float getAmbientWaves(vec2 worldPos) {
+                vec2 pos = worldPos * rippleScale * 0.05;
+                float n1 = noise(pos - uWaveOffset);
+                float n2 = noise(pos * 2.1 - uWaveOffset * 1.3);
+                return (n1 * 0.6 + n2 * 0.4) * (0.6 + 0.4 * getWind(worldPos));
+            }
+
+            // Function to get total displacement at a world position
+            float getDisplacement(vec2 worldPos) {
+                vec2 waterUv = getWaterUv(worldPos);
+                vec4 shape = texture2D(uWaterShape, waterUv);
+                float ambientDisplacement;
+                if (shape.a > 0.0) {
+                    // Rivers carry their waves downstream. Dragged along
+                    // for long they would smear, so two copies take turns,
+                    // each fading out before it jumps back to start again.
+                    vec2 current = (shape.gb * 2.0 - 1.0) * shape.a * ${RIVER_FLOW_SPEED.toFixed(1)};
+                    float phase = fract(uFlowTime * 0.25);
+                    float phaseB = fract(phase + 0.5);
+                    ambientDisplacement = mix(
+                        getAmbientWaves(worldPos - current * phase * 4.0),
+                        getAmbientWaves(worldPos - current * phaseB * 4.0 + 7.3),
+                        abs(0.5 - phase) * 2.0
+                    );
+                } else {
+                    ambientDisplacement = getAmbientWaves(worldPos);
                 }
-            `
-        )
 
-        shader.fragmentShader = shader.fragmentShader.replace(
-            "#include <color_fragment>",
-            `
-                #include <color_fragment>
-                
-                // 1. Color variation
-                float gradientNoise = (vRandom - 0.5) * 0.4;
-                float gradient = clamp(vRelativeHeight * (1.0 - gradientNoise) + gradientNoise, 0.0, 1.0);
-                vec3 mixedColor = mix(diffuseColor.rgb, uGrassTipColor, gradient);
+                // Wakes, splashes and raindrops from the ripple simulation
+                float rippleDisplacement = texture2D(uRippleHeight, waterUv).r;
 
-                // 2. Subsurface scattering
-                vec3 viewDir = normalize(cameraPosition - vWorldPosition);
-                vec3 lightDir = normalize(-uSunDirection);
+                return ambientDisplacement + rippleDisplacement;
+            }
+        `
 
-                // Translucency (light from behind passing through)
-                float translucency = max(0.0, dot(vGrassNormal, lightDir));
-                translucency = pow(translucency, 2.0) * 0.5;
+        const normalCalculation = `
+            // --- Start of Procedural Normals ---
 
-                // Scattering (light wrapping around edges)
-                float scatter = pow(max(0.0, dot(viewDir, -lightDir) + 0.1), 3.0) * 0.7;
+            // Calculate the normal from the gradient of the displacement field
+            vec2 delta = vec2(0.1, 0.0);
 
-                // Combine and add to color
-                vec3 sssColor = (uGrassTipColor + diffuseColor.rgb) * 0.4; // Average base and tip color for glow
-                vec3 finalSSS = sssColor * (translucency + scatter);
+            float displacement = getDisplacement(worldPosition.xz);
+            float displacement_dx = getDisplacement(worldPosition.xz + delta.xy);
+            float displacement_dz = getDisplacement(worldPosition.xz + delta.yx);
 
-                diffuseColor.rgb = mixedColor + finalSSS;
-            `
+            vec3 normal = normalize(vec3(
+                (displacement - displacement_dx) * rippleIntensity * 100.0,
+                1.0,
+                (displacement - displacement_dz) * rippleIntensity * 100.0
+            ));
+            // Ice stills the surface
+            float ice = getIceMask(worldPosition.xz);
+            normal = normalize(mix(normal, vec3(0.0, 1.0, 0.0), ice));
+            vec3 surfaceNormal = normal;
+            // --- End of Procedural Normals ---
+        `
+
+        // Replace the texture-based normal calculation with our procedural
+        // one. The displacement functions use the shader's own uniforms, so
+        // they go just above main() rather than before the declarations.
+        shader.fragmentShader = shader.fragmentShader.replace(
+            "void main() {",
+            displacementFunctions + "\nvoid main() {"
+        )
+        shader.fragmentShader = shader.fragmentShader.replace(
+            "vec3 surfaceNormal = normalize( noise.xzy * vec3( 1.5, 1.0, 1.5 ) );",
+            normalCalculation
+        )
+        // The texture noise fed only the normals, and its local would hide
+        // our noise() from the rest of main()
+        shader.fragmentShader = shader.fragmentShader.replace(
+            "vec4 noise = getNoise( worldPosition.xz * size );",
+            ""
         )
-        grassMaterial.userData.shader = shader
-    }
 
-    const grassMesh = new THREE.InstancedMesh(
-        grassGeometry,
-        grassMaterial,
-        maxGrassCount
-    )
-    grassMesh.count = params.grassCount
-    grassMesh.castShadow = true
+        // Shallows glow turquoise over the bed, darkening as the water
+        // deepens towards the middle
+        shader.fragmentShader = shader.fragmentShader.replace(
+            "vec3 scatter = max( 0.0, dot( surfaceNormal, eyeDirection ) ) * waterColor;",
+            `
+            vec2 depthSample = texture2D(uWaterDepth, getWaterUv(worldPosition.xz)).rg;
+            float waterDepth = depthSample.r * ${WATER_DEPTH_RANGE.toFixed(1)};
+            float shoreDistance = depthSample.g * ${(SHORE_DISTANCE_RANGE + 1).toFixed(1)} - 1.0;
+            vec3 waterLight = diffuseLight + getSkyLight();
+            vec3 depthColor = mix(uShallowColor, uDeepColor, smoothstep(0.25, 1.8, waterDepth)) * waterLight;
+            vec3 scatter = max( 0.0, dot( surfaceNormal, eyeDirection ) ) * depthColor;
+            `
+        )
 
-    const dummy = new THREE.Object3D()
-    const color = new THREE.Color()
-    const areaSize = 50
-    const pondCenter = new THREE.Vector2(pondPosition.x, pondPosition.z)
-    const pondRadiusSq = pondRadius * pondRadius
+        // Ice: frost-blurred reflections over pale blue ice, whitened by
+        // patches of frost and split by cracks at two scales
+        shader.fragmentShader = shader.fragmentShader.replace(
+            "gl_FragColor = vec4( outgoingLight, alpha );",
+            `
+            // Anime-style foam: a crisp line just off the shore and thinner
+            // bands rolling in to meet it, broken up by noise so they never
+            // look ruled. The water itself fades out at the very edge.
+            float foamDistance = shoreDistance + noise(worldPosition.xz * 0.7) * 0.2;
+            float foamLine = smoothstep(0.1, 0.15, foamDistance) * (1.0 - smoothstep(0.5, 0.55, foamDistance));
+            float foamBand = smoothstep(0.8, 0.83, fract(foamDistance * 0.7 + uFlowTime * 0.3))
+                * (1.0 - smoothstep(0.8, 2.8, foamDistance))
+                * smoothstep(-0.2, 0.2, noise(worldPosition.xz * 0.3));
+            float foam = max(foamLine, foamBand) * uShoreFoam * (1.0 - ice);
+            outgoingLight = mix(outgoingLight, vec3(0.95, 0.98, 1.0) * waterLight, foam);
+            float edgeAlpha = smoothstep(0.0, 0.4, shoreDistance);
+            // Looking down into it the water stays clear enough to show the
+            // fish, only closing up into a mirror as the view grazes it
+            float bodyAlpha = mix(0.35, 0.55, smoothstep(0.25, 1.8, waterDepth));
+            float waterAlpha = alpha * edgeAlpha * mix(bodyAlpha, 1.0, reflectance);
+            waterAlpha = max(waterAlpha, foam * edgeAlpha);
+
+            if (ice > 0.0) {
+                vec2 mirrorUv = mirrorCoord.xy / mirrorCoord.w;
+                vec3 frostedReflection = (
+                    texture2D(mirrorSampler, mirrorUv + vec2(0.012, 0.004)).rgb +
+                    texture2D(mirrorSampler, mirrorUv - vec2(0.012, 0.004)).rgb +
+                    texture2D(mirrorSampler, mirrorUv + vec2(-0.004, 0.012)).rgb +
+                    texture2D(mirrorSampler, mirrorUv - vec2(-0.004, 0.012)).rgb
+                ) * 0.25;
+                float frost = clamp(0.5 + 0.5 * noise(worldPosition.xz * 0.8) + 0.25 * noise(worldPosition.xz * 4.0), 0.0, 1.0);
+                vec3 iceLight = 0.35 + diffuseLight * 0.6;
+                vec3 iceColor = mix(vec3(0.5, 0.66, 0.76), vec3(0.86, 0.92, 0.96), frost) * iceLight;
+                iceColor = mix(iceColor, frostedReflection, 0.35 * (1.0 - frost)) + specularLight * 0.1;
+                float cracks = max(getIceCracks(worldPosition.xz * 0.35), getIceCracks(worldPosition.xz * 1.3) * 0.5);
+                iceColor = mix(iceColor, vec3(0.92, 0.96, 1.0) * iceLight, cracks * 0.6);
+                outgoingLight = mix(outgoingLight, iceColor, ice);
+            }
+            gl_FragColor = vec4( outgoingLight, mix(waterAlpha, edgeAlpha, ice) );
+            `
+        )
 
-    for (let i = 0; i < maxGrassCount; i++) {
-        let x, z
-        do {
-            x = (Math.random() - 0.5) * areaSize
-            z = (Math.random() - 0.5) * areaSize
-        } while (
-            new THREE.Vector2(x, z).distanceToSquared(pondCenter) < pondRadiusSq
+        // Cloud shade takes the sun's glint and glow off the surface
+        shader.fragmentShader = shader.fragmentShader.replace(
+            "float distance = length(worldToEye);",
+            `
+            float cloudShadow = getCloudShadow(worldPosition.xyz);
+            diffuseLight *= cloudShadow;
+            specularLight *= cloudShadow;
+            float distance = length(worldToEye);
+            `
         )
+    }
 
-        dummy.position.set(x, 0, z)
-        dummy.rotation.y = Math.random() * Math.PI
-        dummy.scale.setScalar(0.7 + Math.random() * 0.6)
-        dummy.updateMatrix()
-        grassMesh.setMatrixAt(i, dummy.matrix)
+    // The ice grows and melts towards its target over time rather than
+    // jumping, unless told to settle at once (as on load)
+    let iceTarget = 0
+    let lastIceUpdate = performance.now()
+    let rainAmount = 0
+    let pendingRainDrops = 0
+    const getIceLine = () =>
+        waterMaterial.uniforms.uFrozen.value * (1 + 2 * ICE_MARGIN) - ICE_MARGIN
+
+    water.userData.setIceTarget = (target: number, immediate = false) => {
+        iceTarget = target
+        if (immediate) waterMaterial.uniforms.uFrozen.value = target
+    }
+    water.userData.setRainAmount = (amount: number) => {
+        rainAmount = amount
+    }
+    // Rebuilds the mesh after the water bodies change
+    water.userData.reshape = () => {
+        water.geometry.dispose()
+        water.geometry = createWaterGeometry(waters)
+        water.position.y = waters.level
+        bakeDepth()
+    }
+    water.userData.update = () => {
+        const now = performance.now()
+        const delta = Math.min((now - lastIceUpdate) / 1000, 0.25)
+        lastIceUpdate = now
+        const uniforms = waterMaterial.uniforms
+        const ice = uniforms.uFrozen.value
+        uniforms.uFrozen.value =
+            ice < iceTarget
+                ? Math.min(ice + delta / FREEZE_SECONDS, iceTarget)
+                : Math.max(ice - delta / THAW_SECONDS, iceTarget)
+        uniforms.uFlowTime.value += delta
+
+        // The waves' drift is integrated here rather than in the shader, so
+        // a change of wind or speed never makes the pattern jump
+        uniforms.uWaveOffset.value.addScaledVector(
+            wind.uniforms.uWindDirection.value,
+            uniforms.rippleSpeed.value *
+                params.waterFlowSpeed *
+                (0.3 + wind.uniforms.uWindStrength.value) *
+                delta
+        )
 
-        color.set(params.grassBaseColor)
-        color.multiplyScalar(0.8 + Math.random() * 0.4)
-        grassMesh.setColorAt(i, color)
+        // Raindrops land anywhere on the water; those on the ice are lost.
+        // Drops that fall on land are tried again a few times.
+        const center = waters.uniforms.uWaterCenter.value
+        const extent = waters.uniforms.uWaterExtent.value
+        pendingRainDrops += rainAmount * RAIN_DROPS_PER_SECOND * delta
+        for (; pendingRainDrops >= 1; pendingRainDrops--) {
+            for (let attempt = 0; attempt < 8; attempt++) {
+                const x = center.x + (Math.random() * 2 - 1) * extent
+                const z = center.y + (Math.random() * 2 - 1) * extent
+                if (!waters.isInsideWater(x, z)) continue
+                ripples.disturb(x, z, 0.25, 0.03)
+                break
+            }
+        }
+        ripples.update(getIceLine())
     }
-    grassMesh.instanceMatrix.needsUpdate = true
-    if (grassMesh.instanceColor) {
-        grassMesh.instanceColor.needsUpdate = true
+    // 0-1 ice underfoot, matching the shader's mask without its ragged edge
+    water.userData.getIceAt = (x: number, z: number) => {
+        const ice = waterMaterial.uniforms.uFrozen.value
+        if (ice <= 0) return 0
+        const fromShore = waters.getFromShore(x, z)
+        if (fromShore < 0) return 0
+        const iceLine = getIceLine()
+        return (
+            1 - THREE.MathUtils.smoothstep(fromShore, iceLine - 0.03, iceLine)
+        )
     }
 
-    return grassMesh
+    return water
 }
 
-// --- FROM land.tsx ---
-function createGround(params: { groundColor: string | number | THREE.Color }) {
-    const geometry = new THREE.PlaneGeometry(100, 100)
-    const material = new THREE.MeshToonMaterial({ color: params.groundColor })
-    const ground = new THREE.Mesh(geometry, material)
-    ground.rotation.x = -Math.PI / 2
-    ground.receiveShadow = true
-    return ground
-}
+// --- FROM pinetree.tsx ---
+// --- Color Palette based on Reference ---
+const TRUNK_COLOR_DARK = new THREE.Color("#4a3b2a")
+const TRUNK_COLOR_LIGHT = new THREE.Color("#6b5a4a")
+const FOLIAGE_COLOR_DARK = new THREE.Color("#2a402a") // Less uniform dark
+const FOLIAGE_COLOR_LIGHT = new THREE.Color("#507858") // Lighter, yellower light
+const FOLIAGE_SHADOW = new THREE.Color("#1f3024") // More color in shadow
 
-function createMonolith(params: {
-    monolithColor: string | number | THREE.Color
-}) {
-    const geometry = new THREE.BoxGeometry(0.8, 2.5, 0.5)
-    const material = new THREE.MeshToonMaterial({ color: params.monolithColor })
-    const monolith = new THREE.Mesh(geometry, material)
-    monolith.position.set(0, 1.25, -15)
-    monolith.castShadow = true
-    monolith.receiveShadow = true
-    return monolith
-}
-
-// --- FROM Game.tsx ---
-const ORB_COUNT = 6 // 5 regular + 1 special
-const WIN_SCORE = 10
-const PLAYER_SIZE = 1.0
+// Helper to create a single sprig of pine needles
+// This is the base unit for all foliage
+function createPineNeedleSprig(random: RandomFn): THREE.BufferGeometry {
+    const needlesPerSprig = 8
+    const needleLength = 0.6
+    const needleWidth = 0.02
 
-class Game {
-    private scene: THREE.Scene
-    private camera: THREE.PerspectiveCamera
-    private monolith: THREE.Mesh
-    private pond: { position: THREE.Vector3; radius: number }
-    private renderer: THREE.WebGLRenderer
-    private composer: EffectComposer
-    private isMobile: boolean
+    const sprigGeometries: THREE.BufferGeometry[] = []
+    const needleGeom = new THREE.PlaneGeometry(needleWidth, needleLength)
 
-    public player: THREE.Mesh
-    private playerState = {
-        velocity: new THREE.Vector3(),
-        yVelocity: 0,
-        isJumping: false,
-    }
-    private keysPressed: { [key: string]: boolean } = {
-        w: false,
-        a: false,
-        s: false,
-        d: false,
-        arrowup: false,
-        arrowleft: false,
-        arrowdown: false,
-        arrowright: false,
-    }
-    private baseEmissiveIntensity: number
-    private targetEmissiveIntensity: number
-    private isActive = false
-    private isCelebratingWin = false
+    const colors = []
+    colors.push(
+        FOLIAGE_COLOR_DARK.r,
+        FOLIAGE_COLOR_DARK.g,
+        FOLIAGE_COLOR_DARK.b
+    )
+    colors.push(
+        FOLIAGE_COLOR_DARK.r,
+        FOLIAGE_COLOR_DARK.g,
+        FOLIAGE_COLOR_DARK.b
+    )
+    colors.push(
+        FOLIAGE_COLOR_LIGHT.r,
+        FOLIAGE_COLOR_LIGHT.g,
+        FOLIAGE_COLOR_LIGHT.b
+    )
+    colors.push(
+        FOLIAGE_COLOR_LIGHT.r,
+        FOLIAGE_COLOR_LIGHT.g,
+        FOLIAGE_COLOR_LIGHT.b
+    )
+    needleGeom.setAttribute(
+        "color",
+        new THREE.Float32BufferAttribute(colors, 3)
+    )
 
-    private orbs: THREE.Mesh[] = []
-    private specialOrb: THREE.Mesh | null = null
-    private orbGeometry: THREE.SphereGeometry
-    private orbMaterial: THREE.MeshStandardMaterial
-    private specialOrbMaterial: THREE.MeshStandardMaterial
-    private score = 0
+    needleGeom.translate(0, needleLength / 2, 0)
 
-    private scoreElement: HTMLElement | null
-    private winScreenElement: HTMLElement | null
-    private winMessageElement: HTMLElement | null
-    private confettiContainerElement: HTMLElement | null
+    for (let i = 0; i < needlesPerSprig; i++) {
+        const needleClone = needleGeom.clone()
 
-    // --- Particle System ---
-    private particlePool: THREE.Mesh[] = []
-    private activeParticles: {
-        mesh: THREE.Mesh
-        velocity: THREE.Vector3
-        lifetime: number
-        initialLifetime: number
-    }[] = []
-    private particleGeometry: THREE.BoxGeometry
-    private particleMaterial: THREE.MeshBasicMaterial
-    private readonly MAX_PARTICLES = 150 // Max concurrent particles
-    private readonly PARTICLES_PER_BURST = 15
+        const angleX = Math.PI * 0.2 + (random() - 0.5) * Math.PI * 0.2 // Angle outwards
+        const yRotation = (i / needlesPerSprig) * Math.PI * 2 + random() * 0.5 // Fan around
 
-    // --- Camera Control State ---
-    private cameraOffset = new THREE.Vector3(0, 2.5, 6.0) // height, distance
-    private cameraTargetOffset = new THREE.Vector3(0, 1.2, 0)
-    private cameraLookAt = new THREE.Vector3()
-    private cameraOrbit = new THREE.Quaternion()
-    private cameraEuler = new THREE.Euler(0, 0, 0, "YXZ")
-    private lastTouch = new THREE.Vector2()
+        const tempMesh = new THREE.Mesh(needleClone)
+        tempMesh.rotation.set(angleX, yRotation, 0)
+        tempMesh.updateMatrix()
 
-    private clock = new THREE.Clock()
-    private animationFrameId: number | null = null
+        needleClone.applyMatrix4(tempMesh.matrix)
+        sprigGeometries.push(needleClone)
+    }
 
-    // Mobile UI elements
-    private mobileControls: { [key: string]: HTMLElement | null } = {}
+    needleGeom.dispose()
+    if (sprigGeometries.length === 0) return new THREE.BufferGeometry()
 
-    constructor(
-        scene: THREE.Scene,
-        camera: THREE.PerspectiveCamera,
-        monolith: THREE.Mesh,
-        pond: { position: THREE.Vector3; radius: number },
-        renderer: THREE.WebGLRenderer,
-        composer: EffectComposer,
-        isMobile: boolean
-    ) {
-        this.scene = scene
-        this.camera = camera
-        this.monolith = monolith
-        this.pond = pond
-        this.renderer = renderer
-        this.composer = composer
-        this.isMobile = isMobile
+    const sprigGeometry = mergeGeometries(sprigGeometries)
+    if (!sprigGeometry) return new THREE.BufferGeometry()
 
-        this.scoreElement = document.getElementById("score")
-        this.winScreenElement = document.getElementById("win-screen")
-        this.winMessageElement = document.getElementById("win-message")
-        this.confettiContainerElement =
-            document.getElementById("confetti-container")
+    const nonIndexedSprig = sprigGeometry.toNonIndexed()
+    sprigGeometry.dispose()
 
-        this.orbGeometry = new THREE.SphereGeometry(0.3, 16, 16)
-        this.orbMaterial = new THREE.MeshStandardMaterial({
-            color: "#ffd700",
-            emissive: "#ffd700",
-            emissiveIntensity: 2,
-            toneMapped: false,
-        })
-        this.specialOrbMaterial = new THREE.MeshStandardMaterial({
-            color: "#9400d3",
-            emissive: "#da70d6",
-            emissiveIntensity: 3,
-            toneMapped: false,
-        })
+    return nonIndexedSprig
+}
 
-        // --- Initialize Particle System ---
-        this.particleGeometry = new THREE.BoxGeometry(0.05, 0.05, 0.05)
-        this.particleMaterial = new THREE.MeshBasicMaterial({
-            transparent: true,
-        })
-        for (let i = 0; i < this.MAX_PARTICLES; i++) {
-            const particle = new THREE.Mesh(
-                this.particleGeometry,
-                this.particleMaterial.clone()
-            )
-            particle.visible = false
-            this.scene.add(particle)
-            this.particlePool.push(particle)
-        }
+// Helper to create a larger "pad" of foliage by clustering sprigs
+function createFoliagePad(
+    baseSprig: THREE.BufferGeometry,
+    random: RandomFn
+): THREE.BufferGeometry {
+    const sprigsPerPad = 15
+    const padGeometries: THREE.BufferGeometry[] = []
+    const padRadius = 0.5
 
-        this.setupPlayer()
-        this.spawnOrbs()
-    }
+    for (let i = 0; i < sprigsPerPad; i++) {
+        const sprigClone = baseSprig.clone()
 
-    private setupPlayer() {
-        const playerGeometry = new THREE.BoxGeometry(
-            PLAYER_SIZE,
-            PLAYER_SIZE,
-            PLAYER_SIZE
-        )
-        const playerMaterial = new THREE.MeshStandardMaterial({
-            color: 0xadd8e6,
-            transparent: true,
-            opacity: 0.75,
-            metalness: 0.1,
-            roughness: 0.2,
-            emissive: 0x87ceeb,
-            emissiveIntensity: 0.4,
-            side: THREE.DoubleSide,
-        })
-        this.player = new THREE.Mesh(playerGeometry, playerMaterial)
-        // Start floating on the pond
-        this.player.position.set(
-            this.pond.position.x,
-            1.5,
-            this.pond.position.z
-        )
-        this.player.castShadow = true
-        this.baseEmissiveIntensity = playerMaterial.emissiveIntensity
-        this.targetEmissiveIntensity = this.baseEmissiveIntensity
-        this.scene.add(this.player)
-    }
+        const phi = Math.acos(1 - 2 * random()) // Distribute points on a sphere
+        const theta = Math.PI * 2 * random()
 
-    public setPlayerHover(isHovered: boolean) {
-        if (this.isActive) return
-        this.targetEmissiveIntensity = isHovered
-            ? this.baseEmissiveIntensity * 3.0
-            : this.baseEmissiveIntensity
-    }
+        const x = Math.sin(phi) * Math.cos(theta) * padRadius
+        const y = Math.sin(phi) * Math.sin(theta) * padRadius * 0.7 // Flatten the sphere slightly
+        const z = Math.cos(phi) * padRadius
 
-    public updateHover(delta: number) {
-        const material = this.player.material as THREE.MeshStandardMaterial
-        material.emissiveIntensity = THREE.MathUtils.lerp(
-            material.emissiveIntensity,
-            this.targetEmissiveIntensity,
-            delta * 10
-        )
-    }
+        const tempMesh = new THREE.Mesh(sprigClone)
+        tempMesh.position.set(x, y, z)
+        tempMesh.lookAt(0, 0, 0)
+        tempMesh.rotation.y += Math.PI / 2 // Orient needles outward
+        tempMesh.updateMatrix()
 
-    private animate = () => {
-        this.animationFrameId = requestAnimationFrame(this.animate)
-        const delta = this.clock.getDelta()
-        const elapsedTime = this.clock.getElapsedTime()
+        sprigClone.applyMatrix4(tempMesh.matrix)
 
-        this.update(delta, elapsedTime)
+        // Add darker color to bottom half of the pad for self-shadowing illusion
+        const colors = sprigClone.attributes.color
+        const tempVec = new THREE.Vector3()
+        for (let j = 0; j < colors.count; j++) {
+            tempVec.fromBufferAttribute(sprigClone.attributes.position, j)
+            if (tempVec.y < 0) {
+                colors.setXYZ(
+                    j,
+                    FOLIAGE_SHADOW.r,
+                    FOLIAGE_SHADOW.g,
+                    FOLIAGE_SHADOW.b
+                )
+            }
+        }
+        colors.needsUpdate = true
 
-        this.composer.render()
+        padGeometries.push(sprigClone)
     }
 
-    public startGame() {
-        this.isActive = true
+    if (padGeometries.length === 0) return new THREE.BufferGeometry()
+    const padGeometry = mergeGeometries(padGeometries)
+    if (!padGeometry) return new THREE.BufferGeometry()
 
-        const startOffset = new THREE.Vector3(0, 3, 7)
-        this.camera.position.copy(this.player.position).add(startOffset)
-        this.cameraLookAt
-            .copy(this.player.position)
-            .add(this.cameraTargetOffset)
-        this.camera.lookAt(this.cameraLookAt)
+    // No need to de-index again as the base sprig is already non-indexed
+    return padGeometry
+}
 
-        this.cameraEuler.setFromQuaternion(this.camera.quaternion, "YXZ")
-        this.cameraOrbit.copy(this.camera.quaternion)
+function createPineTreeGeometry(random: RandomFn): THREE.BufferGeometry {
+    const geometries: THREE.BufferGeometry[] = []
 
-        this.setupEventListeners()
-
-        this.clock.start()
-        this.animate()
-    }
+    // --- Unified Trunk Skeleton ---
+    const trunkHeight = 7.5
+    const trunkRadius = 0.3
+    // Use a Cone for a continuous, pointy skeleton
+    let trunkGeometry: THREE.BufferGeometry = new THREE.ConeGeometry(
+        trunkRadius,
+        trunkHeight,
+        16,
+        5
+    )
+    trunkGeometry.translate(0, trunkHeight / 2, 0) // Base at y=0
 
-    public stopGame() {
-        this.isActive = false
-        Object.keys(this.keysPressed).forEach(
-            (k) => (this.keysPressed[k] = false)
+    const trunkColors = []
+    const pos = trunkGeometry.attributes.position
+    for (let i = 0; i < pos.count; i++) {
+        const ratio = pos.getY(i) / trunkHeight
+        const color = new THREE.Color().lerpColors(
+            TRUNK_COLOR_DARK,
+            TRUNK_COLOR_LIGHT,
+            ratio + (random() - 0.5) * 0.1
         )
-        this.playerState.velocity.set(0, 0, 0)
-        this.disposeEventListeners()
-
-        if (this.animationFrameId) {
-            cancelAnimationFrame(this.animationFrameId)
-            this.animationFrameId = null
-        }
+        trunkColors.push(color.r, color.g, color.b)
     }
+    trunkGeometry.setAttribute(
+        "color",
+        new THREE.Float32BufferAttribute(trunkColors, 3)
+    )
+    trunkGeometry = trunkGeometry.toNonIndexed()
+    geometries.push(trunkGeometry)
 
-    private spawnOrbs = () => {
-        this.orbs.forEach((orb) => this.scene.remove(orb))
-        this.orbs.length = 0
-        if (this.specialOrb) this.scene.remove(this.specialOrb)
-        this.specialOrb = null
+    // --- Branches & Foliage (Unified Loop) ---
+    const baseSprig = createPineNeedleSprig(random)
+    const foliagePad = createFoliagePad(baseSprig, random)
 
-        const monolithBBox = new Box3().setFromObject(this.monolith)
-        const areaSize = 45
-        const pondCenter = new THREE.Vector2(
-            this.pond.position.x,
-            this.pond.position.z
-        )
-        const pondRadiusSq = (this.pond.radius + 1) * (this.pond.radius + 1)
+    const branchLevels = 10
+    const branchesPerLevel = 5
 
-        const placeOrb = (orb: THREE.Mesh) => {
-            let validPosition = false
-            while (!validPosition) {
-                const x = (Math.random() - 0.5) * areaSize
-                const z = (Math.random() - 0.5) * areaSize
-                const orbPos = new THREE.Vector3(x, 1.5, z)
-                const inPond =
-                    new THREE.Vector2(x, z).distanceToSquared(pondCenter) <
-                    pondRadiusSq
-                const inMonolith = monolithBBox.distanceToPoint(orbPos) < 2.0
-                if (!inPond && !inMonolith) {
-                    orb.position.copy(orbPos)
-                    orb.userData.basePosition = orb.position.clone()
-                    orb.userData.timeOffset = Math.random() * Math.PI * 2
-                    validPosition = true
-                }
-            }
-            this.scene.add(orb)
-        }
+    // Loop goes from bottom to near the top
+    for (let i = 0; i < branchLevels; i++) {
+        const levelRatio = i / (branchLevels - 1) // 0 for bottom, 1 for top
+        const levelY = trunkHeight * 0.1 + trunkHeight * 0.85 * levelRatio
 
-        this.specialOrb = new THREE.Mesh(
-            this.orbGeometry,
-            this.specialOrbMaterial
-        )
-        placeOrb(this.specialOrb)
+        // Branches are longest in the middle, shorter at ends
+        const branchLength = Math.sin(levelRatio * Math.PI) * 2.5 + 0.5
+        if (branchLength < 0.5) continue // Skip tiny branches at the very bottom/top
 
-        for (let i = 0; i < ORB_COUNT - 1; i++) {
-            const orb = new THREE.Mesh(this.orbGeometry, this.orbMaterial)
-            placeOrb(orb)
-            this.orbs.push(orb)
-        }
-        this.score = 0
-        if (this.scoreElement) this.scoreElement.innerText = `Score: 0`
-    }
+        for (let j = 0; j < branchesPerLevel; j++) {
+            // Add some spiral to the branch placement
+            const angle =
+                (j / branchesPerLevel) * Math.PI * 2 +
+                (random() - 0.5) * 0.8 +
+                i * 0.3
 
-    private triggerOrbBurst(position: THREE.Vector3, color: THREE.Color) {
-        for (let i = 0; i < this.PARTICLES_PER_BURST; i++) {
-            const particleMesh = this.particlePool.pop()
-            if (!particleMesh) continue
+            const branchMatrixContainer = new THREE.Object3D()
+            branchMatrixContainer.position.set(0, levelY, 0)
 
-            particleMesh.position.copy(position)
-            ;(particleMesh.material as THREE.MeshBasicMaterial).color.copy(
-                color
-            )
-            ;(particleMesh.material as THREE.MeshBasicMaterial).opacity = 1.0
-            particleMesh.visible = true
+            // Lower branches droop, upper branches point up
+            const droopAngle = Math.PI / 2.5 - levelRatio * (Math.PI / 2.2)
+            branchMatrixContainer.rotation.set(0, angle, droopAngle)
+            branchMatrixContainer.updateMatrix()
 
-            const velocity = new THREE.Vector3(
-                Math.random() - 0.5,
-                Math.random() - 0.5 + 0.5, // Bias upwards
-                Math.random() - 0.5
+            // --- Organic Tapered Branch ---
+            const branchRadius = (1.0 - levelRatio) * 0.08 + 0.02 // Thicker at base
+            let branchGeom: THREE.BufferGeometry = new THREE.ConeGeometry(
+                branchRadius,
+                branchLength,
+                8,
+                1
             )
-                .normalize()
-                .multiplyScalar(Math.random() * 2.5 + 1.5)
-
-            const lifetime = Math.random() * 0.6 + 0.4 // Lifetime between 0.4 and 1.0 seconds
+            branchGeom.translate(0, branchLength / 2, 0) // Position cone base at origin
 
-            this.activeParticles.push({
-                mesh: particleMesh,
-                velocity: velocity,
-                lifetime: lifetime,
-                initialLifetime: lifetime,
-            })
-        }
-    }
+            const branchColors = []
+            for (let k = 0; k < branchGeom.attributes.position.count; k++) {
+                const color = TRUNK_COLOR_DARK
+                branchColors.push(color.r, color.g, color.b)
+            }
+            branchGeom.setAttribute(
+                "color",
+                new THREE.Float32BufferAttribute(branchColors, 3)
+            )
+            branchGeom = branchGeom.toNonIndexed()
+            branchGeom.applyMatrix4(branchMatrixContainer.matrix)
+            geometries.push(branchGeom)
+            // --- End of Branch ---
 
-    private triggerConfetti() {
-        if (!this.confettiContainerElement) return
-        const colors = [
-            "#f44336",
-            "#e91e63",
-            "#9c27b0",
-            "#673ab7",
-            "#3f51b5",
-            "#2196f3",
-            "#03a9f4",
-            "#00bcd4",
-            "#009688",
-            "#4caf50",
-            "#8bc34a",
-            "#cddc39",
-            "#ffeb3b",
-            "#ffc107",
-            "#ff9800",
-        ]
-        for (let i = 0; i < 100; i++) {
-            const confetti = document.createElement("div")
-            confetti.classList.add("confetti")
-            confetti.style.left = `${Math.random() * 100}vw`
-            confetti.style.backgroundColor =
-                colors[Math.floor(Math.random() * colors.length)]
-            confetti.style.animationDelay = `${Math.random() * 2}s`
-            confetti.style.animationDuration = `${3 + Math.random() * 2}s`
-            this.confettiContainerElement.appendChild(confetti)
-            setTimeout(() => {
-                confetti.remove()
-            }, 5000)
-        }
-    }
+            // --- Foliage on the branch ---
+            const padsOnBranch = 5
+            for (let k = 1; k <= padsOnBranch; k++) {
+                const padPosRatio = k / padsOnBranch
+                // Don't place foliage inside trunk
+                if (padPosRatio * branchLength < trunkRadius * 1.5) continue
 
-    private handleWin() {
-        this.isCelebratingWin = true
-        if (this.winScreenElement && this.winMessageElement) {
-            this.winMessageElement.innerHTML =
-                "Focus on Career, not girls. Girls are temporary, But Success is parmanent 😁"
-            this.winScreenElement.style.display = "flex"
-            this.triggerConfetti()
-        }
-        setTimeout(() => {
-            if (this.winScreenElement)
-                this.winScreenElement.style.display = "none"
-            this.spawnOrbs()
-            this.isCelebratingWin = false
-        }, 5000)
-    }
+                // Foliage pads get smaller towards the tip and top of tree
+                const foliageScale = (1.0 - levelRatio) * 0.6 + 0.2
 
-    private updateParticles(delta: number) {
-        const gravity = 9.8
-        for (let i = this.activeParticles.length - 1; i >= 0; i--) {
-            const p = this.activeParticles[i]
+                const padClone = foliagePad.clone()
 
-            p.lifetime -= delta
+                const padMesh = new THREE.Object3D()
+                padMesh.scale.setScalar(foliageScale * (0.8 + random() * 0.4))
 
-            if (p.lifetime <= 0) {
-                p.mesh.visible = false
-                this.particlePool.push(p.mesh)
-                this.activeParticles.splice(i, 1)
-                continue
-            }
+                const positionOnBranch = new THREE.Vector3(
+                    0,
+                    padPosRatio * branchLength,
+                    0
+                )
 
-            // Apply gravity
-            p.velocity.y -= gravity * delta
-            p.mesh.position.add(p.velocity.clone().multiplyScalar(delta))
+                // Add some gravity sag
+                positionOnBranch.z -= padPosRatio * padPosRatio * 0.3
 
-            // Fade out
-            ;(p.mesh.material as THREE.MeshBasicMaterial).opacity =
-                p.lifetime / p.initialLifetime
-        }
-    }
+                padMesh.position.copy(positionOnBranch)
+                padMesh.rotation.y = random() * Math.PI
+                padMesh.updateMatrix()
 
-    private jump = () => {
-        if (!this.playerState.isJumping) {
-            this.playerState.isJumping = true
-            this.playerState.yVelocity = 7.0 // Jump strength
+                // Apply the branch's transformation, then the pad's local transformation
+                const finalMatrix = branchMatrixContainer.matrix
+                    .clone()
+                    .multiply(padMesh.matrix)
+                padClone.applyMatrix4(finalMatrix)
+                geometries.push(padClone)
+            }
         }
     }
 
-    private updatePlayer(delta: number) {
-        const moveSpeed = 5.0
-        const rotationSpeed = 10.0
-        const hoverHeight = 1.5
-        const gravity = 20.0
+    // The separate Tree Top (Leader) section has been removed.
 
-        if (this.playerState.isJumping) {
-            this.playerState.yVelocity -= gravity * delta
-            this.player.position.y += this.playerState.yVelocity * delta
+    // --- Cleanup base geometries ---
+    baseSprig.dispose()
+    foliagePad.dispose()
 
-            if (this.player.position.y <= hoverHeight) {
-                this.player.position.y = hoverHeight
-                this.playerState.isJumping = false
-                this.playerState.yVelocity = 0
-            }
-        }
+    const finalGeometry = mergeGeometries(geometries)
 
-        const forward = new THREE.Vector3(0, 0, -1).applyQuaternion(
-            this.cameraOrbit
-        )
-        forward.y = 0
-        forward.normalize()
-        const right = new THREE.Vector3()
-            .crossVectors(new THREE.Vector3(0, 1, 0), forward)
-            .normalize()
-
-        const moveDirection = new THREE.Vector3()
-        if (this.keysPressed.w || this.keysPressed.arrowup)
-            moveDirection.add(forward)
-        if (this.keysPressed.s || this.keysPressed.arrowdown)
-            moveDirection.sub(forward)
-        if (this.keysPressed.a || this.keysPressed.arrowleft)
-            moveDirection.add(right)
-        if (this.keysPressed.d || this.keysPressed.arrowright)
-            moveDirection.sub(right)
+    if (!finalGeometry) {
+        console.error("Failed to merge geometries for the pine tree.")
+        return new THREE.BoxGeometry(1, 5, 1)
+    }
 
-        const targetVelocity = new THREE.Vector3()
-        if (moveDirection.lengthSq() > 0) {
-            targetVelocity.copy(
-                moveDirection.normalize().multiplyScalar(moveSpeed)
-            )
-        }
+    // Dispose of all the cloned/intermediate geometries
+    geometries.forEach((g) => {
+        if (g) g.dispose()
+    })
 
-        const lerpFactor = 1.0 - Math.exp(-20 * delta)
-        this.playerState.velocity.lerp(targetVelocity, lerpFactor)
-        const moveStep = this.playerState.velocity.clone().multiplyScalar(delta)
+    return finalGeometry
+}
 
-        const monolithBBox = new Box3().setFromObject(this.monolith)
-        const playerBBox = new Box3().setFromObject(this.player)
-        playerBBox.translate(moveStep)
+// --- FROM grass.tsx ---
+// Grass is streamed as small square patches, each its own InstancedMesh so
+// three.js can frustum-cull it. Patches fall into distance LOD tiers: dense
+// near the viewer, sparse with wider blades further out. Each tier takes a
+// share of the fixed blade budget, spread over the patches in its ring.
+const GRASS_PATCH_SIZE = 10
+const GRASS_LOD_TIERS = [
+    { radius: 1, innerRadius: -1, budgetShare: 0.45, bladeWidth: 0.1 },
+    { radius: 3, innerRadius: 1, budgetShare: 0.4, bladeWidth: 0.18 },
+    { radius: 6, innerRadius: 3, budgetShare: 0.15, bladeWidth: 0.4 },
+]
+
+// --- Grass Paint Layer ---
+// Hand-painted edits layered on top of the procedural density map, stored as a
+// sparse grid of world-space cells. The scene document persists them.
+const GRASS_PAINT_CELL_SIZE = 1
+
+type GrassBrushMode = "add" | "remove" | "raise" | "lower" | "tint" | "erase"
+
+type GrassBrush = {
+    enabled: boolean
+    mode: GrassBrushMode
+    radius: number
+    strength: number // Change per second at the brush centre
+    color: string
+}
 
-        if (!playerBBox.intersectsBox(monolithBBox)) {
-            this.player.position.add(moveStep)
-        } else {
-            this.playerState.velocity.set(0, 0, 0)
-        }
+type GrassPaint = {
+    density: number // Added to the map density, -1..1
+    height: number // Added to the height multiplier, -0.9..2
+    tint: number // 0 = untouched, 1 = fully brush-coloured
+    color: THREE.Color
+}
 
-        if (this.playerState.velocity.lengthSq() > 0.01) {
-            const lookAtPosition = this.player.position
-                .clone()
-                .add(this.playerState.velocity)
-            const targetMatrix = new THREE.Matrix4().lookAt(
-                this.player.position,
-                lookAtPosition,
-                this.player.up
-            )
-            const targetQuaternion =
-                new THREE.Quaternion().setFromRotationMatrix(targetMatrix)
-            this.player.quaternion.slerp(
-                targetQuaternion,
-                delta * rotationSpeed
-            )
-        }
-    }
+// [ix, iz, density, height, tint, color]
+type SerializedGrassPaintCell = [number, number, number, number, number, string]
 
-    private updateCamera(delta: number) {
-        const desiredPosition = this.player.position.clone()
-        const offset = this.cameraOffset
-            .clone()
-            .applyQuaternion(this.cameraOrbit)
-        desiredPosition.add(offset)
+type SerializedGrassPaint = {
+    version: number
+    cellSize: number
+    cells: SerializedGrassPaintCell[]
+}
 
-        const lerpFactor = 1.0 - Math.exp(-15 * delta)
-        this.camera.position.lerp(desiredPosition, lerpFactor)
+type GrassPaintLayer = {
+    sample: (x: number, z: number, target: GrassPaint) => GrassPaint
+    paint: (x: number, z: number, brush: GrassBrush, delta: number) => void
+    clear: () => void
+    serialize: () => SerializedGrassPaint
+    deserialize: (data: SerializedGrassPaint) => void
+    getCellCount: () => number
+}
 
-        const desiredLookAt = this.player.position
-            .clone()
-            .add(this.cameraTargetOffset)
-        this.cameraLookAt.lerp(desiredLookAt, lerpFactor)
-        this.camera.lookAt(this.cameraLookAt)
+function createGrassPaintLayer(): GrassPaintLayer {
+    const size = GRASS_PAINT_CELL_SIZE
+    const cells = new Map<string, GrassPaint>()
+    const brushColor = new THREE.Color()
+    const tintSum = new THREE.Color()
+
+    const serialize = (): SerializedGrassPaint => {
+        const round = (v: number) => Math.round(v * 1000) / 1000
+        return {
+            version: 1,
+            cellSize: size,
+            cells: Array.from(cells, ([key, cell]) => {
+                const [ix, iz] = key.split(",").map(Number)
+                return [
+                    ix,
+                    iz,
+                    round(cell.density),
+                    round(cell.height),
+                    round(cell.tint),
+                    `#${cell.color.getHexString()}`,
+                ]
+            }),
+        }
     }
 
-    private updateOrbAnimation(
-        orb: THREE.Mesh,
-        delta: number,
-        elapsedTime: number
-    ) {
-        const basePos = orb.userData.basePosition as THREE.Vector3
-        const timeOffset = orb.userData.timeOffset as number
-        orb.position.y =
-            basePos.y + Math.sin(elapsedTime * 2 + timeOffset) * 0.2
-        const circularRadius = 0.2
-        const circularSpeed = 0.5
-        orb.position.x =
-            basePos.x +
-            Math.cos(elapsedTime * circularSpeed + timeOffset) * circularRadius
-        orb.position.z =
-            basePos.z +
-            Math.sin(elapsedTime * circularSpeed + timeOffset) * circularRadius
-        orb.rotation.y += delta
+    // Replaces every painted cell with the given data
+    const deserialize = (data: SerializedGrassPaint) => {
+        if (data.version !== 1 || data.cellSize !== size) {
+            throw new Error(
+                `Unsupported grass paint data (version ${data.version})`
+            )
+        }
+        cells.clear()
+        data.cells.forEach(([ix, iz, density, height, tint, color]) => {
+            cells.set(`${ix},${iz}`, {
+                density,
+                height,
+                tint,
+                color: new THREE.Color(color),
+            })
+        })
     }
 
-    private updateOrbs(delta: number, elapsedTime: number) {
-        if (this.isCelebratingWin) return
-        for (let i = this.orbs.length - 1; i >= 0; i--) {
-            const orb = this.orbs[i]
-            this.updateOrbAnimation(orb, delta, elapsedTime)
-            if (
-                this.player.position.distanceTo(orb.position) <
-                PLAYER_SIZE / 2 + 0.3
-            ) {
-                this.triggerOrbBurst(
-                    orb.position,
-                    (orb.material as THREE.MeshStandardMaterial).color
-                )
-                this.scene.remove(orb)
-                this.orbs.splice(i, 1)
-                this.score++
+    // Bilinear blend of the four nearest cell centres, so strokes stay soft
+    // even though the grid is much coarser than the blades
+    const sample = (x: number, z: number, target: GrassPaint) => {
+        target.density = 0
+        target.height = 0
+        target.tint = 0
+        if (cells.size === 0) return target
+
+        const u = x / size - 0.5
+        const v = z / size - 0.5
+        const ix = Math.floor(u)
+        const iz = Math.floor(v)
+        const fx = u - ix
+        const fz = v - iz
+        tintSum.setRGB(0, 0, 0)
+
+        for (let j = 0; j < 2; j++) {
+            for (let i = 0; i < 2; i++) {
+                const cell = cells.get(`${ix + i},${iz + j}`)
+                if (!cell) continue
+                const w = (i ? fx : 1 - fx) * (j ? fz : 1 - fz)
+                target.density += cell.density * w
+                target.height += cell.height * w
+                target.tint += cell.tint * w
+                tintSum.r += cell.color.r * cell.tint * w
+                tintSum.g += cell.color.g * cell.tint * w
+                tintSum.b += cell.color.b * cell.tint * w
             }
         }
-        if (this.specialOrb) {
-            this.updateOrbAnimation(this.specialOrb, delta, elapsedTime)
-            if (
-                this.player.position.distanceTo(this.specialOrb.position) <
-                PLAYER_SIZE / 2 + 0.3
-            ) {
-                this.triggerOrbBurst(
-                    this.specialOrb.position,
-                    (this.specialOrb.material as THREE.MeshStandardMaterial)
-                        .color
+        if (target.tint > 0) {
+            target.color.copy(tintSum).multiplyScalar(1 / target.tint)
+        }
+        return target
+    }
+
+    const towardZero = (value: number, amount: number) =>
+        Math.sign(value) * Math.max(0, Math.abs(value) - amount)
+
+    const paint = (x: number, z: number, brush: GrassBrush, delta: number) => {
+        brushColor.set(brush.color)
+        const minX = Math.floor((x - brush.radius) / size)
+        const maxX = Math.floor((x + brush.radius) / size)
+        const minZ = Math.floor((z - brush.radius) / size)
+        const maxZ = Math.floor((z + brush.radius) / size)
+
+        for (let iz = minZ; iz <= maxZ; iz++) {
+            for (let ix = minX; ix <= maxX; ix++) {
+                const dist = Math.hypot(
+                    (ix + 0.5) * size - x,
+                    (iz + 0.5) * size - z
                 )
-                this.scene.remove(this.specialOrb)
-                this.specialOrb = null
-                this.score += 5
+                if (dist > brush.radius) continue
+                const falloff =
+                    1 - THREE.MathUtils.smoothstep(dist, 0, brush.radius)
+                const amount = brush.strength * falloff * delta
+
+                const key = `${ix},${iz}`
+                let cell = cells.get(key)
+                if (!cell) {
+                    if (brush.mode === "erase") continue
+                    cell = {
+                        density: 0,
+                        height: 0,
+                        tint: 0,
+                        color: brushColor.clone(),
+                    }
+                    cells.set(key, cell)
+                }
+
+                switch (brush.mode) {
+                    case "add":
+                        cell.density = Math.min(1, cell.density + amount)
+                        break
+                    case "remove":
+                        cell.density = Math.max(-1, cell.density - amount)
+                        break
+                    case "raise":
+                        cell.height = Math.min(2, cell.height + amount)
+                        break
+                    case "lower":
+                        cell.height = Math.max(-0.9, cell.height - amount)
+                        break
+                    case "tint":
+                        // Blend towards the new colour at the rate it is laid on
+                        cell.color.lerp(
+                            brushColor,
+                            amount / Math.max(cell.tint + amount, 1e-6)
+                        )
+                        cell.tint = Math.min(1, cell.tint + amount)
+                        break
+                    case "erase":
+                        cell.density = towardZero(cell.density, amount)
+                        cell.height = towardZero(cell.height, amount)
+                        cell.tint = towardZero(cell.tint, amount)
+                        break
+                }
+
+                if (
+                    Math.abs(cell.density) < 1e-3 &&
+                    Math.abs(cell.height) < 1e-3 &&
+                    cell.tint < 1e-3
+                ) {
+                    cells.delete(key)
+                }
             }
         }
-        if (this.scoreElement)
-            this.scoreElement.innerText = `Score: ${this.score}`
-        if (this.score >= WIN_SCORE && !this.isCelebratingWin) this.handleWin()
     }
 
-    public update(delta: number, elapsedTime: number) {
-        if (!this.isActive) return
-        this.updatePlayer(delta)
-        this.updateCamera(delta)
-        this.updateOrbs(delta, elapsedTime)
-        this.updateParticles(delta)
+    return {
+        sample,
+        paint,
+        clear: () => cells.clear(),
+        serialize,
+        deserialize,
+        getCellCount: () => cells.size,
     }
+}
 
-    // --- Event Handlers ---
-    private handleKeyDown = (event: KeyboardEvent) => {
-        const key = event.key.toLowerCase()
-        if (key in this.keysPressed) {
-            event.preventDefault() // prevent page scroll
-            this.keysPressed[key] = true
-        }
-        if (event.code === "Space") this.jump()
-    }
-    private handleKeyUp = (event: KeyboardEvent) => {
-        const key = event.key.toLowerCase()
-        if (key in this.keysPressed) {
-            event.preventDefault()
-            this.keysPressed[key] = false
-        }
+// --- Grass Density Map ---
+// A procedural mask deciding how much grass grows where, how tall it gets and
+// how sun-dried it looks. Built-in masks: winding footpaths, a clearing around
+// the monolith, thinning along the shores and broad meadow patches.
+type GrassSample = {
+    density: number // 0 = bare, 1 = full
+    height: number // Multiplier on blade height
+    dryness: number // 0 = lush, 1 = sun-dried
+    tint: number // Painted colour weight
+    tintColor: THREE.Color
+}
+
+type GrassDensityMap = {
+    sample: (x: number, z: number, target: GrassSample) => GrassSample
+    reseed: (seed: number) => void
+}
+
+function createGrassDensityMap(
+    seed: number,
+    waters: Waters,
+    monolithPosition: THREE.Vector3,
+    paintLayer: GrassPaintLayer,
+    params: {
+        grassPaths: boolean
+        grassClearing: boolean
+        grassShoreThinning: boolean
+        grassPatchiness: number
     }
-    private handleDesktopMouseMove = (event: MouseEvent) => {
-        if (!this.isActive || !document.pointerLockElement) return
-        const movementX = event.movementX || 0
-        const movementY = event.movementY || 0
-        this.cameraEuler.y -= movementX * 0.002
-        this.cameraEuler.x -= movementY * 0.002
-        this.cameraEuler.x = Math.max(
-            (-Math.PI / 2) * 0.8,
-            Math.min((Math.PI / 2) * 0.8, this.cameraEuler.x)
-        )
-        this.cameraOrbit.setFromEuler(this.cameraEuler)
+): GrassDensityMap {
+    const pathScale = 0.012
+    const pathWidth = 0.035 // In noise units around the zero contour
+    const patchScale = 0.04
+    const clearingRadius = { inner: 3.5, outer: 8.0 }
+    const shoreWidth = 5.0
+
+    let pathNoise = createNoise2D(createRandom(seed, "grassPaths"))
+    let patchNoise = createNoise2D(createRandom(seed, "grassPatches"))
+    const paint: GrassPaint = {
+        density: 0,
+        height: 0,
+        tint: 0,
+        color: new THREE.Color(),
     }
-    private handleTouchStart = (event: TouchEvent) => {
-        if (event.touches.length > 0) {
-            this.lastTouch.set(
-                event.touches[0].clientX,
-                event.touches[0].clientY
+
+    const sample = (x: number, z: number, target: GrassSample) => {
+        let density = 1
+        let height = 1
+        let dryness = 0
+
+        // Footpaths follow the zero contours of a low-frequency noise field,
+        // giving an endless network of gently winding trails
+        if (params.grassPaths) {
+            const n = Math.abs(
+                fbm2D(pathNoise, x * pathScale, z * pathScale, 2)
             )
+            const worn = 1 - THREE.MathUtils.smoothstep(n, 0, pathWidth)
+            density *= 1 - worn * 0.95
+            height *= 1 - worn * 0.5
+            dryness = Math.max(dryness, worn * 0.6)
         }
-    }
-    private handleTouchMove = (event: TouchEvent) => {
-        if (!this.isActive || event.touches.length === 0) return
-        const touch = event.touches[0]
-        const movementX = touch.clientX - this.lastTouch.x
-        const movementY = touch.clientY - this.lastTouch.y
-        this.cameraEuler.y -= movementX * 0.004 // Increased sensitivity for touch
-        this.cameraEuler.x -= movementY * 0.004
-        this.cameraEuler.x = Math.max(
-            (-Math.PI / 2) * 0.8,
-            Math.min((Math.PI / 2) * 0.8, this.cameraEuler.x)
-        )
-        this.cameraOrbit.setFromEuler(this.cameraEuler)
-        this.lastTouch.set(touch.clientX, touch.clientY)
-    }
-    private mobileControlListener = (key: string, value: boolean) => () => {
-        this.keysPressed[key] = value
-    }
 
-    private setupEventListeners() {
-        if (this.isMobile) {
-            this.renderer.domElement.addEventListener(
-                "touchstart",
-                this.handleTouchStart
+        if (params.grassClearing) {
+            const dist = Math.hypot(
+                x - monolithPosition.x,
+                z - monolithPosition.z
             )
-            this.renderer.domElement.addEventListener(
-                "touchmove",
-                this.handleTouchMove
+            const open = THREE.MathUtils.smoothstep(
+                dist,
+                clearingRadius.inner,
+                clearingRadius.outer
             )
+            density *= open
+            height *= THREE.MathUtils.lerp(0.5, 1, open)
+        }
 
-            this.mobileControls.w = document.getElementById("joy-w")
-            this.mobileControls.a = document.getElementById("joy-a")
-            this.mobileControls.s = document.getElementById("joy-s")
-            this.mobileControls.d = document.getElementById("joy-d")
-            this.mobileControls.jump = document.getElementById("jump-btn")
+        if (params.grassShoreThinning) {
+            const shoreDist = waters.getShoreDistance(x, z)
+            const inland = THREE.MathUtils.smoothstep(shoreDist, 0, shoreWidth)
+            density *= THREE.MathUtils.lerp(0.25, 1, inland)
+        }
 
-            this.mobileControls.w?.addEventListener(
-                "touchstart",
-                this.mobileControlListener("w", true)
+        // Broad meadow patches: thinner, shorter and drier in the troughs
+        if (params.grassPatchiness > 0) {
+            const v =
+                fbm2D(patchNoise, x * patchScale, z * patchScale, 3) * 0.5 + 0.5
+            const strength = params.grassPatchiness
+            density *= THREE.MathUtils.lerp(1, 0.4 + 0.6 * v, strength)
+            height *= THREE.MathUtils.lerp(1, 0.75 + 0.5 * v, strength)
+            dryness = Math.max(
+                dryness,
+                strength * (1 - THREE.MathUtils.smoothstep(v, 0.2, 0.55))
             )
-            this.mobileControls.w?.addEventListener(
-                "touchend",
-                this.mobileControlListener("w", false)
-            )
-            this.mobileControls.a?.addEventListener(
-                "touchstart",
-                this.mobileControlListener("a", true)
-            )
-            this.mobileControls.a?.addEventListener(
-                "touchend",
-                this.mobileControlListener("a", false)
-            )
-            this.mobileControls.s?.addEventListener(
-                "touchstart",
-                this.mobileControlListener("s", true)
-            )
-            this.mobileControls.s?.addEventListener(
-                "touchend",
-                this.mobileControlListener("s", false)
-            )
-            this.mobileControls.d?.addEventListener(
-                "touchstart",
-                this.mobileControlListener("d", true)
-            )
-            this.mobileControls.d?.addEventListener(
-                "touchend",
-                this.mobileControlListener("d", false)
-            )
-            this.mobileControls.jump?.addEventListener("touchstart", this.jump)
-        } else {
-            window.addEventListener("keydown", this.handleKeyDown)
-            window.addEventListener("keyup", this.handleKeyUp)
+        }
+
+        // Painted edits apply last, so a brush can override any mask
+        paintLayer.sample(x, z, paint)
+        target.density = THREE.MathUtils.clamp(density + paint.density, 0, 1)
+        target.height = height * Math.max(0.1, 1 + paint.height)
+        target.dryness = dryness
+        target.tint = paint.tint
+        target.tintColor.copy(paint.color)
+        return target
+    }
+
+    const reseed = (newSeed: number) => {
+        pathNoise = createNoise2D(createRandom(newSeed, "grassPaths"))
+        patchNoise = createNoise2D(createRandom(newSeed, "grassPatches"))
+    }
+
+    return { sample, reseed }
+}
+
+function createGrassBladeGeometry(width: number, height: number) {
+    const geometry = new THREE.PlaneGeometry(width, height, 1, 2)
+    geometry.translate(0, height / 2, 0)
+
+    // Pinch the top vertices together into a tip
+    const positions = geometry.attributes.position
+    positions.setX(0, 0)
+    positions.setX(1, 0)
+    positions.needsUpdate = true
+    geometry.computeVertexNormals()
+    return geometry
+}
+
+// --- Wildflowers ---
+// A sprinkling of flowers through the near grass. Each one opens at its own
+// point as the season's bloom rises, so spring fills in gradually.
+const FLOWER_CHUNK_RADIUS = 2
+const FLOWERS_PER_PATCH = 60
+const FLOWER_COLORS = ["#ffffff", "#ffe066", "#ff9ec7", "#c7a3ff", "#86b8ff"]
+
+function createWildflowerGeometry() {
+    const stem = new THREE.PlaneGeometry(0.02, 1).translate(0, 0.5, 0)
+    const head = new THREE.CircleGeometry(0.07, 6)
+        .rotateX(-Math.PI / 2)
+        .translate(0, 1, 0)
+    // aHead marks the petals, which take the flower's colour
+    stem.setAttribute(
+        "aHead",
+        new THREE.Float32BufferAttribute(
+            new Array(stem.attributes.position.count).fill(0),
+            1
+        )
+    )
+    head.setAttribute(
+        "aHead",
+        new THREE.Float32BufferAttribute(
+            new Array(head.attributes.position.count).fill(1),
+            1
+        )
+    )
+    return mergeGeometries([stem, head])
+}
+
+function createWildflowers(
+    waters: Waters,
+    terrain: Terrain,
+    densityMap: GrassDensityMap,
+    wind: Wind,
+    season: Season,
+    cloudShadows: CloudShadows
+) {
+    // Shrink away before the edge of the streamed patches
+    const fadeEnd = FLOWER_CHUNK_RADIUS * GRASS_PATCH_SIZE
+    const fadeStart = fadeEnd * 0.7
+
+    const material = new THREE.MeshToonMaterial({ side: THREE.DoubleSide })
+    material.onBeforeCompile = (shader) => {
+        Object.assign(shader.uniforms, wind.uniforms, season.uniforms)
+        shader.vertexShader =
+            `
+            attribute float aHead;
+            attribute float aBloom;
+            varying float vHead;
+            ${WIND_GLSL}
+            ${SEASON_GLSL}
+        \n` + shader.vertexShader
+        shader.fragmentShader =
+            `
+            varying float vHead;
+        \n` + shader.fragmentShader
+
+        shader.vertexShader = shader.vertexShader.replace(
+            "#include <begin_vertex>",
+            `
+                #include <begin_vertex>
+                vHead = aHead;
+                vec3 flowerRoot = (instanceMatrix * vec4(0.0, 0.0, 0.0, 1.0)).xyz;
+                float flowerDistance = distance(flowerRoot.xz, cameraPosition.xz);
+                transformed *= clamp((uFlowers - aBloom) * 8.0, 0.0, 1.0)
+                    * (1.0 - smoothstep(${fadeStart.toFixed(1)}, ${fadeEnd.toFixed(1)}, flowerDistance));
+
+                // Nod downwind with the grass (see the grass shader)
+                mat3 flowerBasis = mat3(instanceMatrix);
+                vec3 flowerWindLocal = transpose(flowerBasis) * vec3(uWindDirection.x, 0.0, uWindDirection.y)
+                    / max(dot(flowerBasis[0], flowerBasis[0]), 1e-6);
+                transformed += flowerWindLocal * getWind(flowerRoot.xz) * 0.12 * position.y * position.y;
+            `
+        )
+        shader.fragmentShader = shader.fragmentShader.replace(
+            "#include <color_fragment>",
+            `
+                #include <color_fragment>
+                diffuseColor.rgb = mix(vec3(0.25, 0.42, 0.14), diffuseColor.rgb, vHead);
+            `
+        )
+        addCloudShadows(shader, cloudShadows)
+    }
+
+    const slotCount = getChunkSlotCount(FLOWER_CHUNK_RADIUS)
+    const geometry = createWildflowerGeometry()
+    geometry.setAttribute(
+        "aBloom",
+        new THREE.InstancedBufferAttribute(
+            new Float32Array(slotCount * FLOWERS_PER_PATCH),
+            1
+        )
+    )
+    const flowers = new THREE.InstancedMesh(
+        geometry,
+        material,
+        slotCount * FLOWERS_PER_PATCH
+    )
+
+    const colors = FLOWER_COLORS.map((color) => new THREE.Color(color))
+    const dummy = new THREE.Object3D()
+    const mapSample: GrassSample = {
+        density: 1,
+        height: 1,
+        dryness: 0,
+        tint: 0,
+        tintColor: new THREE.Color(),
+    }
+
+    const fillChunk = (slot: number, cx: number, cz: number, seed: number) => {
+        const random = createRandom(seed, `flowers:${cx},${cz}`)
+        const blooms = geometry.attributes.aBloom
+        for (let j = 0; j < FLOWERS_PER_PATCH; j++) {
+            const i = slot * FLOWERS_PER_PATCH + j
+            const x = (cx + random()) * GRASS_PATCH_SIZE
+            const z = (cz + random()) * GRASS_PATCH_SIZE
+            const scale = 0.9 + random() * 0.4
+            const rotation = random() * Math.PI * 2
+            const color = colors[Math.floor(random() * colors.length)]
+            blooms.setX(i, random())
+            const keep = random()
+
+            // Flowers keep to thick, lush grass
+            densityMap.sample(x, z, mapSample)
+            const isVisible =
+                !waters.isInsideWater(x, z) &&
+                keep < mapSample.density * (1 - mapSample.dryness)
+
+            dummy.position.set(x, terrain.getHeightAt(x, z), z)
+            dummy.rotation.y = rotation
+            if (isVisible) {
+                dummy.scale.set(scale, scale * mapSample.height, scale)
+            } else {
+                dummy.scale.setScalar(0)
+            }
+            dummy.updateMatrix()
+            flowers.setMatrixAt(i, dummy.matrix)
+            flowers.setColorAt(i, color)
+        }
+    }
+
+    const chunkLayer: ChunkLayer = {
+        radius: FLOWER_CHUNK_RADIUS,
+        cellSize: GRASS_PATCH_SIZE,
+        fillChunk,
+        onChunksChanged: () => {
+            flowers.instanceMatrix.needsUpdate = true
+            geometry.attributes.aBloom.needsUpdate = true
+            if (flowers.instanceColor) flowers.instanceColor.needsUpdate = true
+            flowers.computeBoundingSphere()
+        },
+    }
+    flowers.userData.chunkLayer = chunkLayer
+
+    return flowers
+}
+
+function createGrass(
+    waters: Waters,
+    params: {
+        grassCount: number
+        grassBaseColor: string | number | THREE.Color
+        grassTipColor: string | number | THREE.Color
+    },
+    maxGrassCount: number,
+    terrain: Terrain,
+    densityMap: GrassDensityMap,
+    wind: Wind,
+    cloudShadows: CloudShadows,
+    season: Season
+) {
+    const grassBladeHeight = 1.0
+
+    // Fade out just inside the farthest tier, or earlier if the fog is thick
+    // enough to hide the blades anyway
+    const maxGrassDistance =
+        GRASS_LOD_TIERS[GRASS_LOD_TIERS.length - 1].radius * GRASS_PATCH_SIZE
+    let fadeEnd = maxGrassDistance
+    let fadeStart = fadeEnd * 0.75
+    let wetness = 0
+    // Shared with the shore plants, so the cursor parts them all together
+    const pushUniforms: PushUniforms = {
+        uMousePos: { value: new THREE.Vector3(9999, 9999, 9999) },
+    }
+
+    const grassMaterial = new THREE.MeshToonMaterial({
+        side: THREE.DoubleSide,
+        vertexColors: true,
+        color: params.grassBaseColor,
+    })
+
+    grassMaterial.onBeforeCompile = (shader) => {
+        shader.uniforms.time = { value: 0 }
+        shader.uniforms.uGrassTipColor = {
+            value: new THREE.Color(params.grassTipColor),
+        }
+        shader.uniforms.uSunDirection = { value: new THREE.Vector3(0, 1, 0) }
+        shader.uniforms.uFadeStart = { value: fadeStart }
+        shader.uniforms.uFadeEnd = { value: fadeEnd }
+        shader.uniforms.uWetness = { value: wetness }
+        Object.assign(
+            shader.uniforms,
+            wind.uniforms,
+            season.uniforms,
+            pushUniforms
+        )
+
+        shader.vertexShader =
+            `
+            uniform float time;
+            uniform vec3 uMousePos;
+            uniform float uFadeStart;
+            uniform float uFadeEnd;
+            varying vec3 vWorldPosition;
+            varying float vRelativeHeight;
+            attribute float aRandom;
+            varying float vRandom;
+            varying vec3 vGrassNormal;
+            ${WIND_GLSL}
+            ${SEASON_GLSL}
+        \n` + shader.vertexShader
+
+        shader.fragmentShader =
+            `
+            uniform vec3 uGrassTipColor;
+            uniform vec3 uSunDirection;
+            uniform float uWetness;
+            varying float vRelativeHeight;
+            varying float vRandom;
+            varying vec3 vGrassNormal;
+            varying vec3 vWorldPosition;
+            ${SEASON_GLSL}
+        \n` + shader.fragmentShader
+
+        shader.vertexShader = shader.vertexShader.replace(
+            "#include <begin_vertex>",
+            `
+                #include <begin_vertex>
+                transformed.y *= 1.0 - 0.5 * uSnow; // Half buried in snow
+                vWorldPosition = (instanceMatrix * vec4(position, 1.0)).xyz;
+                vRelativeHeight = position.y / ${grassBladeHeight.toFixed(1)};
+
+                // Distance fade: blades shrink away before the fog limit
+                vec3 bladeRoot = (instanceMatrix * vec4(0.0, 0.0, 0.0, 1.0)).xyz;
+                float viewDist = distance(bladeRoot.xz, cameraPosition.xz);
+                transformed *= 1.0 - smoothstep(uFadeStart, uFadeEnd, viewDist);
+                vRandom = aRandom;
+                vGrassNormal = normalize((instanceMatrix * vec4(normal, 0.0)).xyz);
+
+                // Wind Effect: lean downwind and bob as waves run along it.
+                // Blades only turn about y and scale evenly across, so the
+                // transpose over the squared scale takes the world direction
+                // into the blade's space (an inverse would break on hidden,
+                // zero-scaled blades).
+                float sway = pow(position.y, 2.0);
+                mat3 bladeBasis = mat3(instanceMatrix);
+                vec3 windLocal = transpose(bladeBasis) * vec3(uWindDirection.x, 0.0, uWindDirection.y)
+                    / max(dot(bladeBasis[0], bladeBasis[0]), 1e-6);
+                float windWave = sin(uWindTime * 1.5 + dot(vWorldPosition.xz, uWindDirection) * 0.5);
+                transformed += windLocal * getWind(vWorldPosition.xz) * (0.4 + 0.6 * windWave) * 0.15 * sway;
+
+                // Mouse Interactivity
+                float dist = distance(vWorldPosition.xz, uMousePos.xz);
+                float pushRadius = 2.5;
+                float pushStrength = 0.8;
+
+                if (dist < pushRadius) {
+                    float falloff = 1.0 - dist / pushRadius;
+                    falloff = pow(falloff, 3.0);
+                    
+                    vec3 pushDir = normalize(vWorldPosition.xyz - uMousePos);
+                    pushDir.y = 0.0;
+                    
+                    float pushSway = pow(position.y, 1.5);
+                    
+                    transformed.xyz += pushDir * falloff * pushStrength * pushSway;
+                }
+            `
+        )
+
+        shader.fragmentShader = shader.fragmentShader.replace(
+            "#include <color_fragment>",
+            `
+                #include <color_fragment>
+                
+                // 1. Color variation
+                float gradientNoise = (vRandom - 0.5) * 0.4;
+                float gradient = clamp(vRelativeHeight * (1.0 - gradientNoise) + gradientNoise, 0.0, 1.0);
+                vec3 mixedColor = mix(diffuseColor.rgb, uGrassTipColor, gradient);
+
+                // Seasons turn the blades, some sooner than others, and frost them
+                float seasonAmount = clamp(uSeasonGrassAmount * (0.75 + 0.5 * vRandom), 0.0, 1.0);
+                vec3 seasonColor = uSeasonGrassColor * mix(0.7, 1.15, gradient);
+                mixedColor = mix(mixedColor, seasonColor, seasonAmount);
+                mixedColor = mix(mixedColor, SNOW_COLOR, 0.35 * uSnow);
+
+                // 2. Subsurface scattering
+                vec3 viewDir = normalize(cameraPosition - vWorldPosition);
+                vec3 lightDir = normalize(-uSunDirection);
+
+                // Translucency (light from behind passing through)
+                float translucency = max(0.0, dot(vGrassNormal, lightDir));
+                translucency = pow(translucency, 2.0) * 0.5;
+
+                // Scattering (light wrapping around edges)
+                float scatter = pow(max(0.0, dot(viewDir, -lightDir) + 0.1), 3.0) * 0.7;
+
+                // Combine and add to color
+                vec3 sssColor = (uGrassTipColor + diffuseColor.rgb) * 0.4; // Average base and tip color for glow
+                sssColor = mix(sssColor, seasonColor * 0.8, seasonAmount);
+                vec3 finalSSS = sssColor * (translucency + scatter) * vCloudShadow;
+
+                diffuseColor.rgb = mixedColor + finalSSS;
+
+                // 3. Rain-soaked blades turn darker and less translucent
+                diffuseColor.rgb *= 1.0 - 0.3 * uWetness;
+            `
+        )
+        addCloudShadows(shader, cloudShadows)
+        grassMaterial.userData.shader = shader
+    }
+
+    const grass = new THREE.Group()
+    const dummy = new THREE.Object3D()
+    const color = new THREE.Color()
+    const baseColor = new THREE.Color(params.grassBaseColor)
+    const dryColor = new THREE.Color()
+    const tintColor = new THREE.Color()
+    const mapSample: GrassSample = {
+        density: 1,
+        height: 1,
+        dryness: 0,
+        tint: 0,
+        tintColor: new THREE.Color(),
+    }
+    let densityRatio = params.grassCount / maxGrassCount
+
+    const updateDryColor = () => {
+        dryColor.copy(baseColor).offsetHSL(-0.05, -0.15, 0.1)
+    }
+    updateDryColor()
+
+    const shadeBlade = (patch: THREE.InstancedMesh, i: number) => {
+        const brightness = patch.userData.brightness as Float32Array
+        const dryness = patch.userData.dryness as Float32Array
+        const tint = patch.userData.tint as Float32Array
+        color.copy(baseColor).lerp(dryColor, dryness[i])
+        if (tint[i] > 0) {
+            tintColor.fromArray(patch.userData.tintColor, i * 3)
+            color.lerp(tintColor, tint[i])
+        }
+        color.multiplyScalar(brightness[i])
+        patch.setColorAt(i, color)
+    }
+
+    const patches: THREE.InstancedMesh[] = []
+    const chunkLayers = GRASS_LOD_TIERS.map((tier, tierIndex) => {
+        const patchCount = getChunkSlotCount(tier.radius, tier.innerRadius)
+        const bladesPerPatch = Math.floor(
+            (maxGrassCount * tier.budgetShare) / patchCount
+        )
+        const bladeGeometry = createGrassBladeGeometry(
+            tier.bladeWidth,
+            grassBladeHeight
+        )
+
+        const tierPatches: THREE.InstancedMesh[] = []
+        for (let i = 0; i < patchCount; i++) {
+            // Patches share the blade shape but need their own aRandom
+            const geometry = new THREE.BufferGeometry()
+            geometry.index = bladeGeometry.index
+            geometry.setAttribute("position", bladeGeometry.attributes.position)
+            geometry.setAttribute("normal", bladeGeometry.attributes.normal)
+            geometry.setAttribute("uv", bladeGeometry.attributes.uv)
+            geometry.setAttribute(
+                "aRandom",
+                new THREE.InstancedBufferAttribute(
+                    new Float32Array(bladesPerPatch),
+                    1
+                )
+            )
+
+            const patch = new THREE.InstancedMesh(
+                geometry,
+                grassMaterial,
+                bladesPerPatch
+            )
+            // The far tier is too sparse for its shadows to be worth drawing
+            patch.castShadow = tierIndex < GRASS_LOD_TIERS.length - 1
+            patch.visible = false
+            patch.userData.brightness = new Float32Array(bladesPerPatch) // Per-blade color variation
+            patch.userData.dryness = new Float32Array(bladesPerPatch) // From the density map
+            patch.userData.tint = new Float32Array(bladesPerPatch) // Painted colour
+            patch.userData.tintColor = new Float32Array(bladesPerPatch * 3)
+            tierPatches.push(patch)
+            patches.push(patch)
+            grass.add(patch)
+        }
+
+        const fillChunk = (
+            slot: number,
+            cx: number,
+            cz: number,
+            seed: number
+        ) => {
+            const patch = tierPatches[slot]
+            const randoms = patch.geometry.attributes.aRandom
+            const brightness = patch.userData.brightness as Float32Array
+            const dryness = patch.userData.dryness as Float32Array
+            const tint = patch.userData.tint as Float32Array
+            // Seeded by the patch alone, so streaming it out and back in lays
+            // the same blades down again
+            const random = createRandom(seed, `grass:${cx},${cz}`)
+            const activeBlades = Math.floor(bladesPerPatch * densityRatio)
+
+            for (let i = 0; i < bladesPerPatch; i++) {
+                // Always draw the same numbers per blade so density changes
+                // never reshuffle the blades that remain
+                const x = (cx + random()) * GRASS_PATCH_SIZE
+                const z = (cz + random()) * GRASS_PATCH_SIZE
+                const rotation = random() * Math.PI
+                const scale = 0.7 + random() * 0.6
+                randoms.setX(i, random())
+                brightness[i] = 0.8 + random() * 0.4
+                const keep = random() // Compared against the map density
+
+                densityMap.sample(x, z, mapSample)
+                dryness[i] = mapSample.dryness
+                tint[i] = mapSample.tint
+                mapSample.tintColor.toArray(patch.userData.tintColor, i * 3)
+                const isVisible =
+                    i < activeBlades &&
+                    !waters.isInsideWater(x, z) &&
+                    keep < mapSample.density
+
+                dummy.position.set(x, terrain.getHeightAt(x, z), z)
+                dummy.rotation.y = rotation
+                if (isVisible) {
+                    dummy.scale.set(scale, scale * mapSample.height, scale)
+                } else {
+                    dummy.scale.setScalar(0)
+                }
+                dummy.updateMatrix()
+                patch.setMatrixAt(i, dummy.matrix)
+                shadeBlade(patch, i)
+            }
+
+            // Skip the hidden tail of the buffer entirely when thinned out
+            patch.count = activeBlades
+            patch.visible = activeBlades > 0
+            patch.instanceMatrix.needsUpdate = true
+            randoms.needsUpdate = true
+            if (patch.instanceColor) patch.instanceColor.needsUpdate = true
+            patch.computeBoundingSphere() // Per-patch bounds drive frustum culling
+        }
+
+        const chunkLayer: ChunkLayer = {
+            radius: tier.radius,
+            innerRadius: tier.innerRadius,
+            cellSize: GRASS_PATCH_SIZE,
+            fillChunk,
+        }
+        return chunkLayer
+    })
+
+    // Flowers stream with the grass and follow the same density map
+    const wildflowers = createWildflowers(
+        waters,
+        terrain,
+        densityMap,
+        wind,
+        season,
+        cloudShadows
+    )
+    grass.add(wildflowers)
+    chunkLayers.push(wildflowers.userData.chunkLayer)
+
+    // --- User Data Functions for GUI control ---
+    grass.userData.material = grassMaterial
+    grass.userData.pushUniforms = pushUniforms
+    grass.userData.chunkLayers = chunkLayers
+    grass.userData.setGrassCount = (count: number) => {
+        densityRatio = count / maxGrassCount
+    }
+    grass.userData.setBaseColor = (value: string | number | THREE.Color) => {
+        baseColor.set(value)
+        updateDryColor()
+        grassMaterial.color.set(value)
+        patches.forEach((patch) => {
+            for (let i = 0; i < patch.count; i++) shadeBlade(patch, i)
+            if (patch.instanceColor) patch.instanceColor.needsUpdate = true
+        })
+    }
+    grass.userData.setFogDensity = (density: number) => {
+        // FogExp2 is ~98% opaque at a distance of 2 / density
+        fadeEnd =
+            density > 0
+                ? Math.min(maxGrassDistance, 2 / density)
+                : maxGrassDistance
+        fadeStart = fadeEnd * 0.75
+        const shader = grassMaterial.userData.shader
+        if (shader) {
+            shader.uniforms.uFadeStart.value = fadeStart
+            shader.uniforms.uFadeEnd.value = fadeEnd
+        }
+    }
+    grass.userData.setWetness = (value: number) => {
+        wetness = value
+        const shader = grassMaterial.userData.shader
+        if (shader) shader.uniforms.uWetness.value = wetness
+    }
+
+    return grass
+}
+
+// --- Shore Vegetation ---
+// Reeds stand in the shallows, lily pads float on the still water and the
+// grass grows tall along the banks. Unlike the grass they are placed once,
+// around the shores, and placed again when the seed or the water changes.
+const MAX_REED_CLUMPS = 400
+const MAX_LILY_PADS = 300
+const MAX_BANK_BLADES = 2000
+const BLADES_PER_BANK_TUFT = 7
+
+type PushUniforms = {
+    uMousePos: { value: THREE.Vector3 } // Far away when nothing is pushing
+}
+
+// The cursor's push on a plant rooted at a world position, as the grass has
+// it, and a world direction turned into an instance's own space. Instances
+// only turn about y and scale evenly (see the grass shader).
+const SHORE_PLANT_GLSL = `
+    uniform vec3 uMousePos;
+
+    vec3 getPush(vec3 worldPos) {
+        vec3 away = worldPos - uMousePos;
+        away.y = 0.0;
+        float dist = length(away);
+        if (dist >= 2.5 || dist < 1e-4) return vec3(0.0);
+        return away / dist * pow(1.0 - dist / 2.5, 3.0) * 0.8;
+    }
+    vec3 toInstanceSpace(vec3 direction) {
+        mat3 basis = mat3(instanceMatrix);
+        return transpose(basis) * direction / max(dot(basis[0], basis[0]), 1e-6);
+    }
+`
+
+function setVertexColor(geometry: THREE.BufferGeometry, color: string) {
+    const { r, g, b } = new THREE.Color(color)
+    const count = geometry.attributes.position.count
+    geometry.setAttribute(
+        "color",
+        new THREE.Float32BufferAttribute(
+            Array.from({ length: count }, () => [r, g, b]).flat(),
+            3
+        )
+    )
+    return geometry
+}
+
+// A fan of reed leaves round a cattail. The leaves and stem are greener
+// than red, so the shader can turn them with the season and leave the
+// brown head be.
+function createReedGeometry() {
+    const leaves = Array.from({ length: 5 }, (_, i) =>
+        setVertexColor(
+            createGrassBladeGeometry(0.06, 1.1 + (i % 3) * 0.2)
+                .rotateX(0.12 + (i % 2) * 0.1)
+                .rotateY((i / 5) * Math.PI * 2 + 0.3),
+            "#5d8a3a"
+        )
+    )
+    const stem = setVertexColor(
+        new THREE.CylinderGeometry(0.012, 0.016, 1.5, 4).translate(0, 0.75, 0),
+        "#6a8f3f"
+    )
+    const head = setVertexColor(
+        new THREE.CylinderGeometry(0.035, 0.035, 0.22, 6).translate(0, 1.35, 0),
+        "#5a3a22"
+    )
+    return mergeGeometries([...leaves, stem, head])
+}
+
+// A round pad with a notch cut into it, and the cup of a water lily that
+// only some of them grow. aFlower marks the petals.
+function createLilyPadGeometry() {
+    const pad = setVertexColor(
+        new THREE.CircleGeometry(0.3, 12, 0.3, Math.PI * 2 - 0.6).rotateX(
+            -Math.PI / 2
+        ),
+        "#3f7a34"
+    )
+    const flower = setVertexColor(
+        new THREE.ConeGeometry(0.07, 0.08, 6, 1, true)
+            .rotateX(Math.PI)
+            .translate(0.1, 0.04, 0.05),
+        "#f7d9e6"
+    )
+    pad.setAttribute(
+        "aFlower",
+        new THREE.Float32BufferAttribute(
+            new Array(pad.attributes.position.count).fill(0),
+            1
+        )
+    )
+    flower.setAttribute(
+        "aFlower",
+        new THREE.Float32BufferAttribute(
+            new Array(flower.attributes.position.count).fill(1),
+            1
+        )
+    )
+    return mergeGeometries([pad, flower])
+}
+
+function createShoreVegetation(
+    seed: number,
+    waters: Waters,
+    terrain: Terrain,
+    densityMap: GrassDensityMap,
+    grass: THREE.Group,
+    wind: Wind,
+    season: Season,
+    cloudShadows: CloudShadows,
+    ripples: Ripples
+) {
+    const pushUniforms = grass.userData.pushUniforms as PushUniforms
+
+    const reedMaterial = new THREE.MeshToonMaterial({
+        side: THREE.DoubleSide,
+        vertexColors: true,
+    })
+    reedMaterial.onBeforeCompile = (shader) => {
+        Object.assign(
+            shader.uniforms,
+            wind.uniforms,
+            season.uniforms,
+            pushUniforms
+        )
+        shader.vertexShader =
+            `
+            ${WIND_GLSL}
+            ${SEASON_GLSL}
+            ${SHORE_PLANT_GLSL}
+        \n` + shader.vertexShader
+        shader.fragmentShader =
+            `
+            ${SEASON_GLSL}
+        \n` + shader.fragmentShader
+
+        shader.vertexShader = shader.vertexShader.replace(
+            "#include <begin_vertex>",
+            `
+                #include <begin_vertex>
+                // Stiffer than the grass, so they lean less in the wind
+                vec3 reedRoot = (instanceMatrix * vec4(0.0, 0.0, 0.0, 1.0)).xyz;
+                float sway = position.y * position.y;
+                float windWave = sin(uWindTime * 1.2 + dot(reedRoot.xz, uWindDirection) * 0.5);
+                transformed += toInstanceSpace(vec3(uWindDirection.x, 0.0, uWindDirection.y))
+                    * getWind(reedRoot.xz) * (0.4 + 0.6 * windWave) * 0.08 * sway;
+                transformed += toInstanceSpace(getPush(reedRoot)) * 0.5 * sway;
+            `
+        )
+        shader.fragmentShader = shader.fragmentShader.replace(
+            "#include <color_fragment>",
+            `
+                #include <color_fragment>
+                float reedLeaf = step(vColor.r, vColor.g);
+                diffuseColor.rgb = mix(
+                    diffuseColor.rgb,
+                    uSeasonGrassColor * (0.6 + dot(vColor.rgb, vec3(0.33))),
+                    uSeasonGrassAmount * reedLeaf
+                );
+                diffuseColor.rgb = mix(diffuseColor.rgb, SNOW_COLOR, 0.35 * uSnow);
+            `
+        )
+        addCloudShadows(shader, cloudShadows)
+    }
+
+    const padMaterial = new THREE.MeshToonMaterial({
+        side: THREE.DoubleSide,
+        vertexColors: true,
+    })
+    padMaterial.onBeforeCompile = (shader) => {
+        Object.assign(
+            shader.uniforms,
+            wind.uniforms,
+            season.uniforms,
+            pushUniforms,
+            waters.uniforms,
+            ripples.uniforms
+        )
+        shader.vertexShader =
+            `
+            attribute float aFlower;
+            attribute float aBloom;
+            varying float vFlower;
+            uniform sampler2D uRippleHeight;
+            uniform vec2 uWaterCenter;
+            uniform float uWaterExtent;
+            ${WIND_GLSL}
+            ${SEASON_GLSL}
+            ${SHORE_PLANT_GLSL}
+        \n` + shader.vertexShader
+        shader.fragmentShader =
+            `
+            varying float vFlower;
+            ${SEASON_GLSL}
+        \n` + shader.fragmentShader
+
+        shader.vertexShader = shader.vertexShader.replace(
+            "#include <begin_vertex>",
+            `
+                #include <begin_vertex>
+                vFlower = aFlower;
+                vec3 padCenter = (instanceMatrix * vec4(0.0, 0.0, 0.0, 1.0)).xyz;
+
+                // Pads die back for the winter, and flowers open one by one
+                // as the bloom rises, though most pads never flower
+                transformed *= 1.0 - smoothstep(0.1, 0.5, uSnow);
+                transformed *= mix(1.0, clamp((uFlowers - aBloom) * 8.0, 0.0, 1.0), aFlower);
+
+                // Ride up and down on the ripples, tipping with their slope
+                vec2 padUv = (padCenter.xz - uWaterCenter) / (uWaterExtent * 2.0) + 0.5;
+                float padTexel = 4.0 / ${RIPPLE_SIM_SIZE.toFixed(1)};
+                float ripple = texture2D(uRippleHeight, padUv).r;
+                vec2 rippleSlope = vec2(
+                    texture2D(uRippleHeight, padUv + vec2(padTexel, 0.0)).r - ripple,
+                    texture2D(uRippleHeight, padUv + vec2(0.0, padTexel)).r - ripple
+                ) / (padTexel * uWaterExtent * 2.0);
+                rippleSlope = clamp(rippleSlope, -0.5, 0.5);
+                vec3 padOffset = mat3(instanceMatrix) * transformed;
+                float bob = clamp(ripple, -0.1, 0.1) + dot(padOffset.xz, rippleSlope)
+                    + sin(uWindTime * 1.3 + aBloom * 6.28) * 0.01 * getWind(padCenter.xz);
+                transformed += toInstanceSpace(vec3(0.0, bob, 0.0));
+
+                // Nudged aside by the cursor
+                transformed += toInstanceSpace(getPush(padCenter)) * 0.3;
+            `
+        )
+        shader.fragmentShader = shader.fragmentShader.replace(
+            "#include <color_fragment>",
+            `
+                #include <color_fragment>
+                diffuseColor.rgb = mix(
+                    diffuseColor.rgb,
+                    uSeasonGrassColor * 0.7,
+                    uSeasonGrassAmount * 0.6 * (1.0 - vFlower)
+                );
+            `
+        )
+        addCloudShadows(shader, cloudShadows)
+    }
+
+    const reeds = new THREE.InstancedMesh(
+        createReedGeometry(),
+        reedMaterial,
+        MAX_REED_CLUMPS
+    )
+    reeds.castShadow = true
+
+    const padGeometry = createLilyPadGeometry()
+    padGeometry.setAttribute(
+        "aBloom",
+        new THREE.InstancedBufferAttribute(new Float32Array(MAX_LILY_PADS), 1)
+    )
+    const lilyPads = new THREE.InstancedMesh(
+        padGeometry,
+        padMaterial,
+        MAX_LILY_PADS
+    )
+
+    // Bank tufts are grass blades, drawn with the grass material so they
+    // look and move just like it, only taller
+    const bladeGeometry = createGrassBladeGeometry(0.12, 1.0)
+    bladeGeometry.setAttribute(
+        "aRandom",
+        new THREE.InstancedBufferAttribute(new Float32Array(MAX_BANK_BLADES), 1)
+    )
+    const bankGrass = new THREE.InstancedMesh(
+        bladeGeometry,
+        grass.userData.material,
+        MAX_BANK_BLADES
+    )
+    bankGrass.castShadow = true
+    const bladeBrightness = new Float32Array(MAX_BANK_BLADES)
+    const baseColor = new THREE.Color().copy(grass.userData.material.color)
+
+    const vegetation = new THREE.Group()
+    vegetation.add(reeds, lilyPads, bankGrass)
+
+    const dummy = new THREE.Object3D()
+    const color = new THREE.Color()
+    const size = new THREE.Vector2()
+    const mapSample: GrassSample = {
+        density: 1,
+        height: 1,
+        dryness: 0,
+        tint: 0,
+        tintColor: new THREE.Color(),
+    }
+
+    const shadeBankGrass = () => {
+        for (let i = 0; i < bankGrass.count; i++) {
+            color.copy(baseColor).multiplyScalar(bladeBrightness[i])
+            bankGrass.setColorAt(i, color)
+        }
+        if (bankGrass.instanceColor) bankGrass.instanceColor.needsUpdate = true
+    }
+
+    const regenerate = (seed: number) => {
+        const random = createRandom(seed, "shore")
+        // Reeds and lilies grow in patches rather than all the way round
+        const patches = createNoise2D(createRandom(seed, "shorePatches"))
+        const blooms = padGeometry.attributes.aBloom
+        const aRandoms = bladeGeometry.attributes.aRandom
+        let reedCount = 0
+        let padCount = 0
+        let bladeCount = 0
+
+        waters.bodies.forEach((body) => {
+            const { path, halfWidths } = sampleWaterBody(body)
+
+            // Rivers are sampled down the middle, so try both banks
+            const tries = halfWidths ? 2 : 1
+            path.forEach((point: THREE.Vector2, k: number) => {
+                const reach = (halfWidths ? halfWidths[k] : 0) + 2.5
+                for (let t = 0; t < tries; t++) {
+                    const angle = random() * Math.PI * 2
+                    const radius = Math.sqrt(random()) * reach
+                    const x = point.x + Math.cos(angle) * radius
+                    const z = point.y + Math.sin(angle) * radius
+                    const rotation = random() * Math.PI * 2
+                    const scale = 0.8 + random() * 0.5
+                    const brightness = 0.85 + random() * 0.3
+                    const keep = random()
+                    const shoreDistance = waters.getShoreDistance(x, z)
+
+                    // Reeds root in the shallows, just out from the shore
+                    if (
+                        shoreDistance > -1.8 &&
+                        shoreDistance < -0.15 &&
+                        patches(x * 0.12, z * 0.12) > -0.2 &&
+                        reedCount < MAX_REED_CLUMPS
+                    ) {
+                        dummy.position.set(x, terrain.getHeightAt(x, z), z)
+                        dummy.rotation.set(0, rotation, 0)
+                        dummy.scale.setScalar(scale)
+                        dummy.updateMatrix()
+                        reeds.setMatrixAt(reedCount, dummy.matrix)
+                        reeds.setColorAt(reedCount, color.setScalar(brightness))
+                        reedCount++
+                    }
+
+                    // Tall tufts up the bank. The meadow thins its grass
+                    // towards the water, but these hold on where it's bare.
+                    densityMap.sample(x, z, mapSample)
+                    if (
+                        shoreDistance > 0.3 &&
+                        shoreDistance < 2.5 &&
+                        keep < Math.max(mapSample.density, 0.6)
+                    ) {
+                        for (let b = 0; b < BLADES_PER_BANK_TUFT; b++) {
+                            const bladeX = x + (random() - 0.5) * 0.5
+                            const bladeZ = z + (random() - 0.5) * 0.5
+                            const bladeRotation = random() * Math.PI
+                            const bladeHeight = 1.5 + random() * 0.7
+                            const bladeRandom = random()
+                            if (bladeCount >= MAX_BANK_BLADES) continue
+                            dummy.position.set(
+                                bladeX,
+                                terrain.getHeightAt(bladeX, bladeZ),
+                                bladeZ
+                            )
+                            dummy.rotation.set(0, bladeRotation, 0)
+                            dummy.scale.set(scale, bladeHeight, scale)
+                            dummy.updateMatrix()
+                            bankGrass.setMatrixAt(bladeCount, dummy.matrix)
+                            aRandoms.setX(bladeCount, bladeRandom)
+                            bladeBrightness[bladeCount] = brightness
+                            bladeCount++
+                        }
+                    }
+                }
+            })
+
+            // Lily pads keep to still water, clear of the shore but short
+            // of the deepest middle
+            if (halfWidths) return
+            const box = new THREE.Box2().setFromPoints(path)
+            box.getSize(size)
+            const padTries = Math.ceil((size.x * size.y) / 2)
+            for (let t = 0; t < padTries; t++) {
+                const x = box.min.x + random() * size.x
+                const z = box.min.y + random() * size.y
+                const rotation = random() * Math.PI * 2
+                const scale = 0.8 + random() * 0.6
+                const bloom = 0.3 + random() * 1.2 // Past 1 never flowers
+                if (
+                    waters.getShoreDistance(x, z) > -1.5 ||
+                    waters.getFromShore(x, z) > 0.75 ||
+                    patches(x * 0.2 + 50, z * 0.2) < 0.1 ||
+                    padCount >= MAX_LILY_PADS
+                )
+                    continue
+                dummy.position.set(x, waters.level + 0.02, z)
+                dummy.rotation.set(0, rotation, 0)
+                dummy.scale.setScalar(scale)
+                dummy.updateMatrix()
+                lilyPads.setMatrixAt(padCount, dummy.matrix)
+                blooms.setX(padCount, bloom)
+                padCount++
+            }
+        })
+
+        reeds.count = reedCount
+        lilyPads.count = padCount
+        bankGrass.count = bladeCount
+        shadeBankGrass()
+        ;[reeds, lilyPads, bankGrass].forEach((mesh) => {
+            mesh.instanceMatrix.needsUpdate = true
+            if (mesh.instanceColor) mesh.instanceColor.needsUpdate = true
+            mesh.computeBoundingSphere()
+        })
+        blooms.needsUpdate = true
+        aRandoms.needsUpdate = true
+    }
+    regenerate(seed)
+
+    vegetation.userData.regenerate = regenerate
+    vegetation.userData.setBaseColor = (
+        value: string | number | THREE.Color
+    ) => {
+        baseColor.set(value)
+        shadeBankGrass()
+    }
+
+    return vegetation
+}
+
+// --- Pond Fish ---
+// A small school steered as boids: each fish keeps clear of its neighbours,
+// swims the way they swim and drifts towards the middle of them. They keep
+// to water deep enough to hide in, bolt from the player and the cursor, and
+// now and then one leaps clear with a splash.
+const FISH_COUNT = 24
+const FISH_NEIGHBOUR_RADIUS = 1.5
+const FISH_SPEED = 0.8 // Metres per second, cruising
+const FISH_FLEE_SPEED = 3
+const FISH_SCARE_RADIUS = 4
+const FISH_SCARE_MILLISECONDS = 300 // A scare is forgotten once it stops
+const FISH_MIN_DEPTH = 0.5 // Water any shallower turns them back
+const FISH_JUMPS_PER_MINUTE = 4
+const FISH_JUMP_SECONDS = 0.7
+const FISH_JUMP_LENGTH = 1.2
+const MAX_SPLASH_DROPS = 120
+
+type SchoolFish = {
+    position: THREE.Vector3
+    velocity: THREE.Vector3 // Level, y is always 0
+    depth: number // How far under the surface it likes to swim
+    tailBeat: number // Phase of its tail, quicker the faster it swims
+    jumpTime: number // Seconds into a leap, or -1 while swimming
+    jumpFrom: THREE.Vector3
+    jumpTo: THREE.Vector3
+}
+
+// A fish facing +z: a slim body with a flat tail fin behind it
+function createFishGeometry() {
+    const body = setVertexColor(
+        new THREE.SphereGeometry(1, 8, 6).scale(0.045, 0.055, 0.16),
+        "#6f7f78"
+    )
+    const tail = setVertexColor(
+        new THREE.ConeGeometry(0.06, 0.1, 4)
+            .rotateX(Math.PI / 2)
+            .scale(0.15, 1, 1)
+            .translate(0, 0, -0.2),
+        "#56645e"
+    )
+    return mergeGeometries([body, tail])
+}
+
+function createFishSchool(
+    waters: Waters,
+    terrain: Terrain,
+    water: Water,
+    ripples: Ripples
+) {
+    const material = new THREE.MeshToonMaterial({ vertexColors: true })
+    material.onBeforeCompile = (shader) => {
+        shader.vertexShader =
+            `
+            attribute float aTailBeat;
+        \n` + shader.vertexShader
+        shader.vertexShader = shader.vertexShader.replace(
+            "#include <begin_vertex>",
+            `
+                #include <begin_vertex>
+                // The back half sweeps from side to side, the tail most
+                float tailSweep = 1.0 - smoothstep(-0.25, 0.05, position.z);
+                transformed.x += sin(aTailBeat - position.z * 8.0) * 0.05 * tailSweep * tailSweep;
+            `
+        )
+    }
+
+    const geometry = createFishGeometry()
+    const tailBeats = new THREE.InstancedBufferAttribute(
+        new Float32Array(FISH_COUNT),
+        1
+    )
+    geometry.setAttribute("aTailBeat", tailBeats)
+    const mesh = new THREE.InstancedMesh(geometry, material, FISH_COUNT)
+    mesh.frustumCulled = false // They swim far from where they started
+
+    // Droplets thrown up where a fish leaves and meets the water
+    const splashPositions = new Float32Array(MAX_SPLASH_DROPS * 3)
+    const splashGeometry = new THREE.BufferGeometry()
+    splashGeometry.setAttribute(
+        "position",
+        new THREE.BufferAttribute(splashPositions, 3)
+    )
+    splashGeometry.setDrawRange(0, 0)
+    const splash = new THREE.Points(
+        splashGeometry,
+        new THREE.PointsMaterial({
+            color: "#e6f2f5",
+            size: 0.06,
+            transparent: true,
+            opacity: 0.85,
+            depthWrite: false,
+        })
+    )
+    splash.frustumCulled = false
+    const drops: { position: THREE.Vector3; velocity: THREE.Vector3 }[] = []
+
+    const school = new THREE.Group()
+    school.add(mesh, splash)
+
+    const fish: SchoolFish[] = Array.from({ length: FISH_COUNT }, () => ({
+        position: new THREE.Vector3(),
+        velocity: new THREE.Vector3(),
+        depth: 0.25 + Math.random() * 0.3,
+        tailBeat: Math.random() * Math.PI * 2,
+        jumpTime: -1,
+        jumpFrom: new THREE.Vector3(),
+        jumpTo: new THREE.Vector3(),
+    }))
+    const threat = new THREE.Vector2()
+    let threatTime = -Infinity
+    let lastUpdate = performance.now()
+
+    const dummy = new THREE.Object3D()
+    const heading = new THREE.Vector3()
+    const steer = new THREE.Vector3()
+    const separation = new THREE.Vector3()
+    const alignment = new THREE.Vector3()
+    const cohesion = new THREE.Vector3()
+    const offset = new THREE.Vector3()
+
+    // Gathers the school in the middle of the first body of water, or
+    // hides it if that is too shallow to swim in
+    const reset = () => {
+        const center = waters.getCenter(new THREE.Vector3())
+        school.visible =
+            waters.getShoreDistance(center.x, center.z) < -1 &&
+            waters.level - terrain.getHeightAt(center.x, center.z) >
+                FISH_MIN_DEPTH
+        fish.forEach((one) => {
+            const angle = Math.random() * Math.PI * 2
+            const radius = Math.random() * 3
+            one.position.set(
+                center.x + Math.cos(angle) * radius,
+                waters.level - one.depth,
+                center.z + Math.sin(angle) * radius
+            )
+            if (!waters.isInsideWater(one.position.x, one.position.z, -1))
+                one.position.set(center.x, waters.level - one.depth, center.z)
+            one.velocity
+                .set(Math.cos(angle + 1.5), 0, Math.sin(angle + 1.5))
+                .multiplyScalar(FISH_SPEED)
+            one.jumpTime = -1
+        })
+        drops.length = 0
+    }
+    reset()
+
+    const splashAt = (x: number, z: number) => {
+        ripples.disturb(x, z, 0.35, 0.12)
+        for (let i = 0; i < 14 && drops.length < MAX_SPLASH_DROPS; i++) {
+            const angle = Math.random() * Math.PI * 2
+            const spread = 0.6 + Math.random() * 0.8
+            drops.push({
+                position: new THREE.Vector3(x, waters.level, z),
+                velocity: new THREE.Vector3(
+                    Math.cos(angle) * spread,
+                    1.5 + Math.random() * 1.5,
+                    Math.sin(angle) * spread
+                ),
+            })
+        }
+    }
+
+    // A fish heads off along its way in a leap, if it lands in open water
+    const startJump = (one: SchoolFish) => {
+        const { x, z } = one.position
+        if (one.jumpTime >= 0 || water.userData.getIceAt(x, z) > 0) return
+        heading.copy(one.velocity).normalize()
+        one.jumpTo.set(
+            x + heading.x * FISH_JUMP_LENGTH,
+            one.position.y,
+            z + heading.z * FISH_JUMP_LENGTH
+        )
+        if (!waters.isInsideWater(one.jumpTo.x, one.jumpTo.z, -0.5)) return
+        if (water.userData.getIceAt(one.jumpTo.x, one.jumpTo.z) > 0) return
+        one.jumpFrom.copy(one.position)
+        one.jumpTime = 0
+        splashAt(x, z)
+    }
+
+    const swim = (one: SchoolFish, index: number, delta: number) => {
+        const { x, z } = one.position
+        separation.set(0, 0, 0)
+        alignment.set(0, 0, 0)
+        cohesion.set(0, 0, 0)
+        let neighbours = 0
+        fish.forEach((other, otherIndex) => {
+            if (otherIndex === index || other.jumpTime >= 0) return
+            offset.subVectors(one.position, other.position).setY(0)
+            const distance = offset.length()
+            if (distance > FISH_NEIGHBOUR_RADIUS) return
+            neighbours++
+            alignment.add(other.velocity)
+            cohesion.add(other.position)
+            if (distance < 0.5)
+                separation.addScaledVector(
+                    offset,
+                    1 / Math.max(distance * distance, 0.01)
+                )
+        })
+
+        steer.set(0, 0, 0)
+        if (neighbours > 0) {
+            alignment.divideScalar(neighbours).sub(one.velocity)
+            cohesion.divideScalar(neighbours).sub(one.position).setY(0)
+            steer.addScaledVector(alignment, 0.8)
+            steer.addScaledVector(cohesion, 0.4)
+        }
+        steer.addScaledVector(separation, 0.6)
+        steer.x += (Math.random() - 0.5) * 1.5
+        steer.z += (Math.random() - 0.5) * 1.5
+
+        // Turn away from the shallows, down the slope of the shore distance
+        const bed = terrain.getHeightAt(x, z)
+        if (
+            waters.level - bed < FISH_MIN_DEPTH + 0.3 ||
+            waters.getShoreDistance(x, z) > -1
+        ) {
+            steer.x -=
+                (waters.getShoreDistance(x + 0.5, z) -
+                    waters.getShoreDistance(x - 0.5, z)) *
+                8
+            steer.z -=
+                (waters.getShoreDistance(x, z + 0.5) -
+                    waters.getShoreDistance(x, z - 0.5)) *
+                8
+        }
+
+        // Bolt straight away from anything close
+        let maxSpeed = FISH_SPEED
+        if (performance.now() - threatTime < FISH_SCARE_MILLISECONDS) {
+            offset.set(x - threat.x, 0, z - threat.y)
+            const distance = offset.length()
+            if (distance < FISH_SCARE_RADIUS && distance > 1e-3) {
+                steer.addScaledVector(
+                    offset.divideScalar(distance),
+                    12 * (1 - distance / FISH_SCARE_RADIUS)
+                )
+                maxSpeed = FISH_FLEE_SPEED
+            }
+        }
+
+        one.velocity.addScaledVector(steer, delta)
+        one.velocity.y = 0
+        // Slow back down to a cruise once clear of danger
+        const speed = one.velocity.length()
+        const limit = Math.max(maxSpeed, speed - 2 * delta)
+        one.velocity.setLength(
+            THREE.MathUtils.clamp(speed, FISH_SPEED * 0.3, limit)
+        )
+        one.position.addScaledVector(one.velocity, delta)
+
+        // Just under the surface, but clear of the bed in the shallows
+        const targetY = Math.min(
+            Math.max(waters.level - one.depth, bed + 0.15),
+            waters.level - 0.1
+        )
+        one.position.y += (targetY - one.position.y) * Math.min(delta * 2, 1)
+        one.tailBeat += delta * (6 + one.velocity.length() * 10)
+        heading.copy(one.velocity)
+    }
+
+    const leap = (one: SchoolFish, delta: number) => {
+        one.jumpTime += delta
+        const t = Math.min(one.jumpTime / FISH_JUMP_SECONDS, 1)
+        // Out of the water to half a metre above it and back in
+        const height = waters.level - one.jumpFrom.y + 0.5
+        one.position.lerpVectors(one.jumpFrom, one.jumpTo, t)
+        one.position.y += 4 * height * t * (1 - t)
+        heading
+            .subVectors(one.jumpTo, one.jumpFrom)
+            .setY(4 * height * (1 - 2 * t))
+        one.tailBeat += delta * 20
+        if (t >= 1) {
+            one.jumpTime = -1
+            splashAt(one.position.x, one.position.z)
+        }
+    }
+
+    const update = () => {
+        const now = performance.now()
+        const delta = Math.min((now - lastUpdate) / 1000, 0.25)
+        lastUpdate = now
+        if (!school.visible) return
+
+        if (Math.random() < (FISH_JUMPS_PER_MINUTE / 60) * delta)
+            startJump(fish[Math.floor(Math.random() * FISH_COUNT)])
+
+        fish.forEach((one, index) => {
+            if (one.jumpTime >= 0) leap(one, delta)
+            else swim(one, index, delta)
+            dummy.position.copy(one.position)
+            dummy.lookAt(heading.add(one.position))
+            dummy.updateMatrix()
+            mesh.setMatrixAt(index, dummy.matrix)
+            tailBeats.setX(index, one.tailBeat)
+        })
+        mesh.instanceMatrix.needsUpdate = true
+        tailBeats.needsUpdate = true
+
+        // Droplets fall back and vanish into the water
+        let count = 0
+        for (let i = drops.length - 1; i >= 0; i--) {
+            const drop = drops[i]
+            drop.velocity.y -= 9.8 * delta
+            drop.position.addScaledVector(drop.velocity, delta)
+            if (drop.position.y < waters.level) {
+                drops.splice(i, 1)
+                continue
+            }
+            drop.position.toArray(splashPositions, count * 3)
+            count++
+        }
+        splashGeometry.setDrawRange(0, count)
+        splashGeometry.attributes.position.needsUpdate = true
+    }
+
+    school.userData.update = update
+    school.userData.reset = reset
+    // Fish within reach of this point take flight for as long as it's kept up
+    school.userData.scare = (x: number, z: number) => {
+        threat.set(x, z)
+        threatTime = performance.now()
+    }
+    // The fish are a mesh and go with the scene; the splash points don't
+    school.userData.dispose = () => {
+        splashGeometry.dispose()
+        ;(splash.material as THREE.Material).dispose()
+    }
+
+    return school
+}
+
+// --- Water Bodies ---
+// Ponds and lakes are closed splines through their control points, rivers
+// open ones with a width that flow from their first point to their last. The
+// shapes are baked into a grid of distances to the nearest shore, which
+// answers streaming's many "is this in the water?" questions cheaply and
+// doubles as a texture for the water and ripple shaders.
+const WATER_FIELD_SIZE = 256
+const WATER_FIELD_MARGIN = 10 // Metres baked beyond the shores for the blends
+const RIVER_SPRING_LENGTH = 0.15 // Of a river, widening out from nothing
+const RIVER_FLOW_SPEED = 1.5 // Metres per second
+
+type WaterBody = {
+    points: THREE.Vector2[] // Control points on the ground, as x and z
+    closed: boolean // A pond or lake; open splines are rivers
+    width: number // Rivers only
+}
+
+type SerializedWaterBody = {
+    points: [number, number][]
+    closed: boolean
+    width: number
+}
+
+type WaterUniforms = {
+    // r: 0 at the shore to 1 in the deepest water, gb: river flow direction,
+    // a: how strongly it flows
+    uWaterShape: { value: THREE.DataTexture }
+    uWaterCenter: { value: THREE.Vector2 }
+    uWaterExtent: { value: number } // Half the width of the square baked
+}
+
+// Shared by reference, so reshaping the water is seen everywhere
+type Waters = {
+    level: number
+    bodies: WaterBody[]
+    uniforms: WaterUniforms
+    // Distance to the nearest shore, negative out on the water. Beyond the
+    // baked square it is an estimate, which the blends using it never notice.
+    getShoreDistance: (x: number, z: number) => number
+    isInsideWater: (x: number, z: number, margin?: number) => boolean
+    // 0 at the shore to 1 where the water is deepest, negative on land
+    getFromShore: (x: number, z: number) => number
+    // Middle of the first body, where the player starts out
+    getCenter: (target: THREE.Vector3) => THREE.Vector3
+    setBodies: (bodies: WaterBody[]) => void
+}
+
+// A round pond as a closed spline
+function createPondBody(x: number, z: number, radius: number): WaterBody {
+    const points = Array.from({ length: 12 }, (_, i) => {
+        const angle = (i / 12) * Math.PI * 2
+        return new THREE.Vector2(
+            x + Math.cos(angle) * radius,
+            z + Math.sin(angle) * radius
+        )
+    })
+    return { points, closed: true, width: 0 }
+}
+
+// The meadow's own water: a round pond fed by a stream from the north-east
+function createDefaultWaterBodies(): WaterBody[] {
+    const stream: WaterBody = {
+        points: [
+            new THREE.Vector2(62, -44),
+            new THREE.Vector2(50, -30),
+            new THREE.Vector2(38, -24),
+            new THREE.Vector2(28, -14),
+            new THREE.Vector2(18, -4),
+        ],
+        closed: false,
+        width: 5,
+    }
+    return [createPondBody(10, 5, 15), stream]
+}
+
+function serializeWaterBody(body: WaterBody): SerializedWaterBody {
+    return {
+        points: body.points.map((point) => [point.x, point.y]),
+        closed: body.closed,
+        width: body.width,
+    }
+}
+
+function deserializeWaterBody(data: SerializedWaterBody): WaterBody {
+    return {
+        points: data.points.map(([x, z]) => new THREE.Vector2(x, z)),
+        closed: data.closed,
+        width: data.width,
+    }
+}
+
+// The spline as a path of points about half a metre apart, with the half
+// width of a river at each (zero at its spring) and the distance from shore
+// to the deepest water
+function sampleWaterBody(body: WaterBody) {
+    const curve = new THREE.CatmullRomCurve3(
+        body.points.map((point) => new THREE.Vector3(point.x, 0, point.y)),
+        body.closed,
+        "centripetal"
+    )
+    const segments = Math.max(16, Math.ceil(curve.getLength() / 0.5))
+    const path = curve
+        .getSpacedPoints(segments)
+        .map((point: THREE.Vector3) => new THREE.Vector2(point.x, point.z))
+    if (body.closed) path.pop() // The last point repeats the first
+
+    if (!body.closed) {
+        const halfWidths = path.map(
+            (_: THREE.Vector2, i: number) =>
+                (body.width / 2) *
+                THREE.MathUtils.smoothstep(i / segments, 0, RIVER_SPRING_LENGTH)
+        )
+        return { path, halfWidths, reach: body.width / 2 }
+    }
+
+    // A lake as deep as a round pond of the same area
+    let area = 0
+    path.forEach((point: THREE.Vector2, i: number) => {
+        const next = path[(i + 1) % path.length]
+        area += point.x * next.y - next.x * point.y
+    })
+    return {
+        path,
+        halfWidths: null,
+        reach: Math.sqrt(Math.abs(area) / 2 / Math.PI),
+    }
+}
+
+function createWaters(bodies: WaterBody[], level: number): Waters {
+    const size = WATER_FIELD_SIZE
+    const shoreDistances = new Float32Array(size * size)
+    const fromShores = new Float32Array(size * size)
+    const shapeTexture = new THREE.DataTexture(
+        new Uint8Array(size * size * 4),
+        size,
+        size
+    )
+    shapeTexture.minFilter = THREE.LinearFilter
+    shapeTexture.magFilter = THREE.LinearFilter
+    const uniforms: WaterUniforms = {
+        uWaterShape: { value: shapeTexture },
+        uWaterCenter: { value: new THREE.Vector2() },
+        uWaterExtent: { value: 1 },
+    }
+    const origin = new THREE.Vector2() // Corner of the baked square
+    let cellSize = 1
+    const center = new THREE.Vector3()
+
+    const segmentPoint = new THREE.Vector2()
+    const segmentDirection = new THREE.Vector2()
+    const bake = () => {
+        const sampled = waters.bodies.map(sampleWaterBody)
+        // Each body's own bounds let cells skip the bodies too far to matter
+        const boxes = sampled.map(({ path }, i) =>
+            new THREE.Box2()
+                .setFromPoints(path)
+                .expandByScalar(waters.bodies[i].width / 2)
+        )
+
+        const bounds = new THREE.Box2()
+        boxes.forEach((box) => bounds.union(box))
+        if (bounds.isEmpty())
+            bounds.setFromCenterAndSize(
+                new THREE.Vector2(),
+                new THREE.Vector2(1, 1)
+            )
+        bounds.expandByScalar(WATER_FIELD_MARGIN)
+        const extent =
+            Math.max(bounds.max.x - bounds.min.x, bounds.max.y - bounds.min.y) /
+            2
+        bounds.getCenter(uniforms.uWaterCenter.value)
+        uniforms.uWaterExtent.value = extent
+        origin.copy(uniforms.uWaterCenter.value).subScalar(extent)
+        cellSize = (extent * 2) / size
+
+        const first = sampled[0]
+        center.set(0, waters.level, 0)
+        if (first) {
+            if (first.halfWidths) {
+                const middle = first.path[Math.floor(first.path.length / 2)]
+                center.set(middle.x, waters.level, middle.y)
+            } else {
+                first.path.forEach((point: THREE.Vector2) => {
+                    center.x += point.x / first.path.length
+                    center.z += point.y / first.path.length
+                })
+            }
+        }
+
+        const data = shapeTexture.image.data as Uint8Array
+        const point = new THREE.Vector2()
+        for (let j = 0; j < size; j++) {
+            for (let i = 0; i < size; i++) {
+                point.set(
+                    origin.x + (i + 0.5) * cellSize,
+                    origin.y + (j + 0.5) * cellSize
+                )
+                let nearest = Infinity
+                let fromShore = -1
+                let nearestRiver = Infinity
+                let flowX = 0
+                let flowZ = 0
+
+                sampled.forEach(({ path, halfWidths, reach }, bodyIndex) => {
+                    // A river still matters a little way past the nearest
+                    // shore, where its current fades
+                    const boxDistance = boxes[bodyIndex].distanceToPoint(point)
+                    if (
+                        boxDistance > 0 &&
+                        boxDistance >= Math.max(nearest, 0) + 4
+                    )
+                        return
+                    let distance = Infinity
+                    let inside = false
+                    const count = halfWidths ? path.length - 1 : path.length
+                    for (let k = 0; k < count; k++) {
+                        const a = path[k]
+                        const b = path[(k + 1) % path.length]
+                        segmentDirection.subVectors(b, a)
+                        const lengthSq = Math.max(
+                            segmentDirection.lengthSq(),
+                            1e-8
+                        )
+                        const t = THREE.MathUtils.clamp(
+                            segmentPoint
+                                .subVectors(point, a)
+                                .dot(segmentDirection) / lengthSq,
+                            0,
+                            1
+                        )
+                        segmentPoint
+                            .copy(a)
+                            .addScaledVector(segmentDirection, t)
+                        let d = segmentPoint.distanceTo(point)
+                        if (halfWidths) {
+                            // Rivers: out from the bank rather than the middle
+                            d -= THREE.MathUtils.lerp(
+                                halfWidths[k],
+                                halfWidths[k + 1],
+                                t
+                            )
+                            if (d < distance) {
+                                distance = d
+                                if (d < nearestRiver) {
+                                    nearestRiver = d
+                                    segmentDirection.normalize()
+                                    flowX = segmentDirection.x
+                                    flowZ = segmentDirection.y
+                                }
+                            }
+                        } else {
+                            distance = Math.min(distance, d)
+                            // Count the edges a ray along +x crosses
+                            if (
+                                a.y > point.y !== b.y > point.y &&
+                                point.x <
+                                    a.x +
+                                        ((point.y - a.y) / (b.y - a.y)) *
+                                            (b.x - a.x)
+                            )
+                                inside = !inside
+                        }
+                    }
+                    if (inside) distance = -distance
+                    if (distance < nearest) {
+                        nearest = distance
+                        fromShore = -distance / Math.max(reach, 0.01)
+                    }
+                })
+
+                const index = j * size + i
+                shoreDistances[index] = nearest
+                fromShores[index] = fromShore
+                // The current fades out where a river opens into still water
+                const flow = THREE.MathUtils.clamp(
+                    1 - (nearestRiver - nearest) / 4,
+                    0,
+                    1
+                )
+                data[index * 4] = THREE.MathUtils.clamp(fromShore, 0, 1) * 255
+                data[index * 4 + 1] = (flowX * 0.5 + 0.5) * 255
+                data[index * 4 + 2] = (flowZ * 0.5 + 0.5) * 255
+                data[index * 4 + 3] = flow * 255
+            }
+        }
+        shapeTexture.needsUpdate = true
+    }
+
+    // Bilinear like the texture, with texel centres on the cells' middles.
+    // Outside the square the nearest edge value is used and the distance
+    // beyond it handed back.
+    const sampleField = (field: Float32Array, x: number, z: number) => {
+        const gx = (x - origin.x) / cellSize - 0.5
+        const gz = (z - origin.y) / cellSize - 0.5
+        const cx = THREE.MathUtils.clamp(gx, 0, size - 1)
+        const cz = THREE.MathUtils.clamp(gz, 0, size - 1)
+        const i = Math.min(Math.floor(cx), size - 2)
+        const j = Math.min(Math.floor(cz), size - 2)
+        const fx = cx - i
+        const fz = cz - j
+        const row = j * size + i
+        const value = THREE.MathUtils.lerp(
+            THREE.MathUtils.lerp(field[row], field[row + 1], fx),
+            THREE.MathUtils.lerp(field[row + size], field[row + size + 1], fx),
+            fz
+        )
+        return { value, outside: Math.hypot(gx - cx, gz - cz) * cellSize }
+    }
+
+    const getShoreDistance = (x: number, z: number) => {
+        const { value, outside } = sampleField(shoreDistances, x, z)
+        return value + outside
+    }
+
+    const waters: Waters = {
+        level,
+        bodies,
+        uniforms,
+        getShoreDistance,
+        isInsideWater: (x, z, margin = 0) => getShoreDistance(x, z) < margin,
+        getFromShore: (x, z) => sampleField(fromShores, x, z).value,
+        getCenter: (target) => target.copy(center),
+        setBodies: (newBodies) => {
+            waters.bodies = newBodies
+            bake()
+        },
+    }
+    bake()
+    return waters
+}
+
+// --- FROM land.tsx ---
+// --- Heightfield Terrain ---
+// Noise-driven rolling hills with basins carved out where the water lies.
+// Everything that needs to stand on the ground samples it through this API.
+
+type Terrain = {
+    getHeightAt: (x: number, z: number) => number
+    getNormalAt: (x: number, z: number, target?: THREE.Vector3) => THREE.Vector3
+    reseed: (seed: number) => void
+}
+
+function createTerrain(seed: number, waters: Waters): Terrain {
+    const hillHeight = 3.0
+    const hillScale = 0.035 // Lower = broader hills
+    const basinDepth = 1.6
+    const shoreWidth = 8.0 // Distance over which the basin blends into the hills
+
+    let noise = createNoise2D(createRandom(seed, "terrain"))
+
+    const getHeightAt = (x: number, z: number) => {
+        const hills = fbm2D(noise, x * hillScale, z * hillScale, 4) * hillHeight
+
+        // Carve the basins: deepest out in the water, just under the
+        // waterline at the rim, blending back into the hills along the shore
+        const shoreDistance = waters.getShoreDistance(x, z)
+        if (shoreDistance >= shoreWidth) return hills
+        const basin =
+            waters.level -
+            0.25 -
+            basinDepth *
+                THREE.MathUtils.smoothstep(waters.getFromShore(x, z), 0, 1)
+        const shoreBlend = THREE.MathUtils.smoothstep(
+            shoreDistance,
+            0,
+            shoreWidth
+        )
+        return THREE.MathUtils.lerp(basin, hills, shoreBlend)
+    }
+
+    const getNormalAt = (
+        x: number,
+        z: number,
+        target = new THREE.Vector3()
+    ) => {
+        // Central differences over the height field
+        const e = 0.25
+        const hL = getHeightAt(x - e, z)
+        const hR = getHeightAt(x + e, z)
+        const hD = getHeightAt(x, z - e)
+        const hU = getHeightAt(x, z + e)
+        return target.set(hL - hR, 2 * e, hD - hU).normalize()
+    }
+
+    const reseed = (newSeed: number) => {
+        noise = createNoise2D(createRandom(newSeed, "terrain"))
+    }
+
+    return { getHeightAt, getNormalAt, reseed }
+}
+
+function createGround(
+    params: { groundColor: string | number | THREE.Color },
+    terrain: Terrain,
+    cloudShadows: CloudShadows,
+    season: Season
+) {
+    const segments = 16
+    const material = new THREE.MeshToonMaterial({ color: params.groundColor })
+    const ground = new THREE.Group()
+
+    // Wet soil darkens and cools a little; the season tints it and winter
+    // lays snow over it
+    const wetnessUniform = { value: 0 }
+    material.onBeforeCompile = (shader) => {
+        shader.uniforms.uWetness = wetnessUniform
+        Object.assign(shader.uniforms, season.uniforms)
+        shader.vertexShader =
+            `
+            varying float vSnowCover;
+            ${SEASON_GLSL}
+        \n` + shader.vertexShader
+        shader.fragmentShader =
+            `
+            uniform float uWetness;
+            varying float vSnowCover;
+            ${SEASON_GLSL}
+        \n` + shader.fragmentShader
+        shader.vertexShader = shader.vertexShader.replace(
+            "#include <begin_vertex>",
+            `
+                #include <begin_vertex>
+                vSnowCover = getSnowCover((modelMatrix * vec4(transformed, 1.0)).xyz, normal.y);
+            `
+        )
+        shader.fragmentShader = shader.fragmentShader.replace(
+            "#include <color_fragment>",
+            `
+                #include <color_fragment>
+                diffuseColor.rgb = mix(diffuseColor.rgb, uSeasonGroundColor, uSeasonGroundAmount);
+                diffuseColor.rgb *= mix(vec3(1.0), vec3(0.6, 0.64, 0.7), uWetness);
+                diffuseColor.rgb = mix(diffuseColor.rgb, SNOW_COLOR, vSnowCover);
+            `
+        )
+        addCloudShadows(shader, cloudShadows)
+    }
+
+    // One pooled tile per ground chunk slot, re-displaced when recycled
+    const tiles: THREE.Mesh[] = []
+    for (let i = 0; i < getChunkSlotCount(GROUND_CHUNK_RADIUS); i++) {
+        const geometry = new THREE.PlaneGeometry(
+            CHUNK_SIZE,
+            CHUNK_SIZE,
+            segments,
+            segments
+        )
+        geometry.rotateX(-Math.PI / 2) // Bake the rotation so vertices are in XZ
+        const tile = new THREE.Mesh(geometry, material)
+        tile.receiveShadow = true
+        tile.visible = false
+        tiles.push(tile)
+        ground.add(tile)
+    }
+
+    const normal = new THREE.Vector3()
+    const fillChunk = (slot: number, cx: number, cz: number) => {
+        const tile = tiles[slot]
+        tile.position.set((cx + 0.5) * CHUNK_SIZE, 0, (cz + 0.5) * CHUNK_SIZE)
+        tile.visible = true
+
+        // Displace the tile to follow the terrain height field. Normals come
+        // from the terrain itself so neighbouring tiles shade seamlessly.
+        const positions = tile.geometry.attributes.position
+        const normals = tile.geometry.attributes.normal
+        for (let i = 0; i < positions.count; i++) {
+            const x = tile.position.x + positions.getX(i)
+            const z = tile.position.z + positions.getZ(i)
+            positions.setY(i, terrain.getHeightAt(x, z))
+            terrain.getNormalAt(x, z, normal)
+            normals.setXYZ(i, normal.x, normal.y, normal.z)
+        }
+        positions.needsUpdate = true
+        normals.needsUpdate = true
+        tile.geometry.computeBoundingBox()
+        tile.geometry.computeBoundingSphere()
+    }
+
+    const chunkLayer: ChunkLayer = {
+        radius: GROUND_CHUNK_RADIUS,
+        fillChunk,
+    }
+
+    // --- User Data Functions for GUI control ---
+    ground.userData.chunkLayer = chunkLayer
+    ground.userData.setGroundColor = (value: string | number | THREE.Color) =>
+        material.color.set(value)
+    ground.userData.setWetness = (wetness: number) => {
+        wetnessUniform.value = wetness
+    }
+
+    return ground
+}
+
+function createMonolith(
+    params: {
+        monolithColor: string | number | THREE.Color
+    },
+    terrain: Terrain,
+    season: Season
+) {
+    const height = 2.5
+    const geometry = new THREE.BoxGeometry(0.8, height, 0.5)
+    const material = new THREE.MeshToonMaterial({ color: params.monolithColor })
+
+    // Winter snow caps the top
+    material.onBeforeCompile = (shader) => {
+        Object.assign(shader.uniforms, season.uniforms)
+        shader.vertexShader =
+            `
+            varying float vSnowCover;
+            ${SEASON_GLSL}
+        \n` + shader.vertexShader
+        shader.fragmentShader =
+            `
+            varying float vSnowCover;
+            ${SEASON_GLSL}
+        \n` + shader.fragmentShader
+        shader.vertexShader = shader.vertexShader.replace(
+            "#include <begin_vertex>",
+            `
+                #include <begin_vertex>
+                vSnowCover = getSnowCover(
+                    (modelMatrix * vec4(transformed, 1.0)).xyz,
+                    normalize(mat3(modelMatrix) * normal).y
+                );
+            `
+        )
+        shader.fragmentShader = shader.fragmentShader.replace(
+            "#include <color_fragment>",
+            `
+                #include <color_fragment>
+                diffuseColor.rgb = mix(diffuseColor.rgb, SNOW_COLOR, vSnowCover);
+            `
+        )
+    }
+    const monolith = new THREE.Mesh(geometry, material)
+    monolith.castShadow = true
+    monolith.receiveShadow = true
+
+    // Sink the base slightly so it never floats on a slope
+    monolith.position.set(0, 0, -15)
+    const snapToGround = () => {
+        monolith.position.y =
+            terrain.getHeightAt(monolith.position.x, monolith.position.z) +
+            height / 2 -
+            0.15
+    }
+
+    snapToGround()
+    monolith.userData.snapToGround = snapToGround
+
+    return monolith
+}
+
+// --- FROM Game.tsx ---
+const ORB_COUNT = 6 // 5 regular + 1 special
+const WIN_SCORE = 10
+const PLAYER_SIZE = 1.0
+
+class Game {
+    private scene: THREE.Scene
+    private camera: THREE.PerspectiveCamera
+    private monolith: THREE.Mesh
+    private waters: Waters
+    private renderer: THREE.WebGLRenderer
+    private composer: EffectComposer
+    private isMobile: boolean
+    private random: RandomFn
+    private terrain: Terrain
+
+    public player: THREE.Mesh
+    private playerState = {
+        velocity: new THREE.Vector3(),
+        yVelocity: 0,
+        isJumping: false,
+    }
+    private keysPressed: { [key: string]: boolean } = {
+        w: false,
+        a: false,
+        s: false,
+        d: false,
+        arrowup: false,
+        arrowleft: false,
+        arrowdown: false,
+        arrowright: false,
+    }
+    private baseEmissiveIntensity: number
+    private targetEmissiveIntensity: number
+    private isActive = false
+    private isCelebratingWin = false
+
+    private orbs: THREE.Mesh[] = []
+    private specialOrb: THREE.Mesh | null = null
+    private orbGeometry: THREE.SphereGeometry
+    private orbMaterial: THREE.MeshStandardMaterial
+    private specialOrbMaterial: THREE.MeshStandardMaterial
+    private score = 0
+
+    private scoreElement: HTMLElement | null
+    private winScreenElement: HTMLElement | null
+    private winMessageElement: HTMLElement | null
+    private confettiContainerElement: HTMLElement | null
+
+    // --- Particle System ---
+    private particlePool: THREE.Mesh[] = []
+    private activeParticles: {
+        mesh: THREE.Mesh
+        velocity: THREE.Vector3
+        lifetime: number
+        initialLifetime: number
+    }[] = []
+    private particleGeometry: THREE.BoxGeometry
+    private particleMaterial: THREE.MeshBasicMaterial
+    private readonly MAX_PARTICLES = 150 // Max concurrent particles
+    private readonly PARTICLES_PER_BURST = 15
+
+    // --- Camera Control State ---
+    private cameraOffset = new THREE.Vector3(0, 2.5, 6.0) // height, distance
+    private cameraTargetOffset = new THREE.Vector3(0, 1.2, 0)
+    private cameraLookAt = new THREE.Vector3()
+    private cameraOrbit = new THREE.Quaternion()
+    private cameraEuler = new THREE.Euler(0, 0, 0, "YXZ")
+    private lastTouch = new THREE.Vector2()
+
+    private clock = new THREE.Clock()
+    private animationFrameId: number | null = null
+
+    // Per-frame hook for world systems that must keep running while playing
+    public onUpdate: ((delta: number, elapsedTime: number) => void) | null =
+        null
+
+    // How icy the ground is at a point, 0-1, for the player's grip
+    public getIceAt: (x: number, z: number) => number = () => 0
+
+    // Mobile UI elements
+    private mobileControls: { [key: string]: HTMLElement | null } = {}
+
+    constructor(
+        scene: THREE.Scene,
+        camera: THREE.PerspectiveCamera,
+        monolith: THREE.Mesh,
+        waters: Waters,
+        renderer: THREE.WebGLRenderer,
+        composer: EffectComposer,
+        isMobile: boolean,
+        seed: number,
+        terrain: Terrain
+    ) {
+        this.scene = scene
+        this.camera = camera
+        this.monolith = monolith
+        this.waters = waters
+        this.renderer = renderer
+        this.composer = composer
+        this.isMobile = isMobile
+        this.random = createRandom(seed, "orbs")
+        this.terrain = terrain
+
+        this.scoreElement = document.getElementById("score")
+        this.winScreenElement = document.getElementById("win-screen")
+        this.winMessageElement = document.getElementById("win-message")
+        this.confettiContainerElement =
+            document.getElementById("confetti-container")
+
+        this.orbGeometry = new THREE.SphereGeometry(0.3, 16, 16)
+        this.orbMaterial = new THREE.MeshStandardMaterial({
+            color: "#ffd700",
+            emissive: "#ffd700",
+            emissiveIntensity: 2,
+            toneMapped: false,
+        })
+        this.specialOrbMaterial = new THREE.MeshStandardMaterial({
+            color: "#9400d3",
+            emissive: "#da70d6",
+            emissiveIntensity: 3,
+            toneMapped: false,
+        })
+
+        // --- Initialize Particle System ---
+        this.particleGeometry = new THREE.BoxGeometry(0.05, 0.05, 0.05)
+        this.particleMaterial = new THREE.MeshBasicMaterial({
+            transparent: true,
+        })
+        for (let i = 0; i < this.MAX_PARTICLES; i++) {
+            const particle = new THREE.Mesh(
+                this.particleGeometry,
+                this.particleMaterial.clone()
+            )
+            particle.visible = false
+            this.scene.add(particle)
+            this.particlePool.push(particle)
+        }
+
+        this.setupPlayer()
+        this.spawnOrbs()
+    }
+
+    private setupPlayer() {
+        const playerGeometry = new THREE.BoxGeometry(
+            PLAYER_SIZE,
+            PLAYER_SIZE,
+            PLAYER_SIZE
+        )
+        const playerMaterial = new THREE.MeshStandardMaterial({
+            color: 0xadd8e6,
+            transparent: true,
+            opacity: 0.75,
+            metalness: 0.1,
+            roughness: 0.2,
+            emissive: 0x87ceeb,
+            emissiveIntensity: 0.4,
+            side: THREE.DoubleSide,
+        })
+        this.player = new THREE.Mesh(playerGeometry, playerMaterial)
+        // Start floating on the water
+        this.waters.getCenter(this.player.position)
+        this.player.position.y =
+            this.getSurfaceHeight(
+                this.player.position.x,
+                this.player.position.z
+            ) + 1.5
+        this.player.castShadow = true
+        this.baseEmissiveIntensity = playerMaterial.emissiveIntensity
+        this.targetEmissiveIntensity = this.baseEmissiveIntensity
+        this.scene.add(this.player)
+    }
+
+    // Height of whatever the player hovers over: the terrain, or the water's
+    // surface where a basin dips below the waterline
+    private getSurfaceHeight(x: number, z: number) {
+        return Math.max(this.terrain.getHeightAt(x, z), this.waters.level)
+    }
+
+    public setPlayerHover(isHovered: boolean) {
+        if (this.isActive) return
+        this.targetEmissiveIntensity = isHovered
+            ? this.baseEmissiveIntensity * 3.0
+            : this.baseEmissiveIntensity
+    }
+
+    public updateHover(delta: number) {
+        const material = this.player.material as THREE.MeshStandardMaterial
+        material.emissiveIntensity = THREE.MathUtils.lerp(
+            material.emissiveIntensity,
+            this.targetEmissiveIntensity,
+            delta * 10
+        )
+    }
+
+    private animate = () => {
+        this.animationFrameId = requestAnimationFrame(this.animate)
+        const delta = this.clock.getDelta()
+        const elapsedTime = this.clock.getElapsedTime()
+
+        this.update(delta, elapsedTime)
+        this.onUpdate?.(delta, elapsedTime)
+
+        this.composer.render()
+    }
+
+    public startGame() {
+        this.isActive = true
+
+        const startOffset = new THREE.Vector3(0, 3, 7)
+        this.camera.position.copy(this.player.position).add(startOffset)
+        this.cameraLookAt
+            .copy(this.player.position)
+            .add(this.cameraTargetOffset)
+        this.camera.lookAt(this.cameraLookAt)
+
+        this.cameraEuler.setFromQuaternion(this.camera.quaternion, "YXZ")
+        this.cameraOrbit.copy(this.camera.quaternion)
+
+        this.setupEventListeners()
+
+        this.clock.start()
+        this.animate()
+    }
+
+    public stopGame() {
+        this.isActive = false
+        Object.keys(this.keysPressed).forEach(
+            (k) => (this.keysPressed[k] = false)
+        )
+        this.playerState.velocity.set(0, 0, 0)
+        this.disposeEventListeners()
+
+        if (this.animationFrameId) {
+            cancelAnimationFrame(this.animationFrameId)
+            this.animationFrameId = null
+        }
+    }
+
+    private spawnOrbs = () => {
+        this.orbs.forEach((orb) => this.scene.remove(orb))
+        this.orbs.length = 0
+        if (this.specialOrb) this.scene.remove(this.specialOrb)
+        this.specialOrb = null
+
+        const monolithBBox = new Box3().setFromObject(this.monolith)
+        const areaSize = 45
+
+        const placeOrb = (orb: THREE.Mesh) => {
+            let validPosition = false
+            while (!validPosition) {
+                const x = (this.random() - 0.5) * areaSize
+                const z = (this.random() - 0.5) * areaSize
+                const orbPos = new THREE.Vector3(
+                    x,
+                    this.terrain.getHeightAt(x, z) + 1.5,
+                    z
+                )
+                const inWater = this.waters.isInsideWater(x, z, 1)
+                const inMonolith = monolithBBox.distanceToPoint(orbPos) < 2.0
+                if (!inWater && !inMonolith) {
+                    orb.position.copy(orbPos)
+                    orb.userData.basePosition = orb.position.clone()
+                    orb.userData.timeOffset = this.random() * Math.PI * 2
+                    validPosition = true
+                }
+            }
+            this.scene.add(orb)
+        }
+
+        this.specialOrb = new THREE.Mesh(
+            this.orbGeometry,
+            this.specialOrbMaterial
+        )
+        placeOrb(this.specialOrb)
+
+        for (let i = 0; i < ORB_COUNT - 1; i++) {
+            const orb = new THREE.Mesh(this.orbGeometry, this.orbMaterial)
+            placeOrb(orb)
+            this.orbs.push(orb)
+        }
+        this.score = 0
+        if (this.scoreElement) this.scoreElement.innerText = `Score: 0`
+    }
+
+    // Restarts the orb sequence from a new world seed
+    public reseed(seed: number) {
+        this.random = createRandom(seed, "orbs")
+        this.spawnOrbs()
+    }
+
+    private triggerOrbBurst(position: THREE.Vector3, color: THREE.Color) {
+        for (let i = 0; i < this.PARTICLES_PER_BURST; i++) {
+            const particleMesh = this.particlePool.pop()
+            if (!particleMesh) continue
+
+            particleMesh.position.copy(position)
+            ;(particleMesh.material as THREE.MeshBasicMaterial).color.copy(
+                color
+            )
+            ;(particleMesh.material as THREE.MeshBasicMaterial).opacity = 1.0
+            particleMesh.visible = true
+
+            const velocity = new THREE.Vector3(
+                Math.random() - 0.5,
+                Math.random() - 0.5 + 0.5, // Bias upwards
+                Math.random() - 0.5
+            )
+                .normalize()
+                .multiplyScalar(Math.random() * 2.5 + 1.5)
+
+            const lifetime = Math.random() * 0.6 + 0.4 // Lifetime between 0.4 and 1.0 seconds
+
+            this.activeParticles.push({
+                mesh: particleMesh,
+                velocity: velocity,
+                lifetime: lifetime,
+                initialLifetime: lifetime,
+            })
+        }
+    }
+
+    private triggerConfetti() {
+        if (!this.confettiContainerElement) return
+        const colors = [
+            "#f44336",
+            "#e91e63",
+            "#9c27b0",
+            "#673ab7",
+            "#3f51b5",
+            "#2196f3",
+            "#03a9f4",
+            "#00bcd4",
+            "#009688",
+            "#4caf50",
+            "#8bc34a",
+            "#cddc39",
+            "#ffeb3b",
+            "#ffc107",
+            "#ff9800",
+        ]
+        for (let i = 0; i < 100; i++) {
+            const confetti = document.createElement("div")
+            confetti.classList.add("confetti")
+            confetti.style.left = `${Math.random() * 100}vw`
+            confetti.style.backgroundColor =
+                colors[Math.floor(Math.random() * colors.length)]
+            confetti.style.animationDelay = `${Math.random() * 2}s`
+            confetti.style.animationDuration = `${3 + Math.random() * 2}s`
+            this.confettiContainerElement.appendChild(confetti)
+            setTimeout(() => {
+                confetti.remove()
+            }, 5000)
+        }
+    }
+
+    private handleWin() {
+        this.isCelebratingWin = true
+        if (this.winScreenElement && this.winMessageElement) {
+            this.winMessageElement.innerHTML =
+                "Focus on Career, not girls. Girls are temporary, But Success is parmanent 😁"
+            this.winScreenElement.style.display = "flex"
+            this.triggerConfetti()
+        }
+        setTimeout(() => {
+            if (this.winScreenElement)
+                this.winScreenElement.style.display = "none"
+            this.spawnOrbs()
+            this.isCelebratingWin = false
+        }, 5000)
+    }
+
+    private updateParticles(delta: number) {
+        const gravity = 9.8
+        for (let i = this.activeParticles.length - 1; i >= 0; i--) {
+            const p = this.activeParticles[i]
+
+            p.lifetime -= delta
+
+            if (p.lifetime <= 0) {
+                p.mesh.visible = false
+                this.particlePool.push(p.mesh)
+                this.activeParticles.splice(i, 1)
+                continue
+            }
+
+            // Apply gravity
+            p.velocity.y -= gravity * delta
+            p.mesh.position.add(p.velocity.clone().multiplyScalar(delta))
+
+            // Fade out
+            ;(p.mesh.material as THREE.MeshBasicMaterial).opacity =
+                p.lifetime / p.initialLifetime
+        }
+    }
+
+    private jump = () => {
+        if (!this.playerState.isJumping) {
+            this.playerState.isJumping = true
+            this.playerState.yVelocity = 7.0 // Jump strength
+        }
+    }
+
+    private updatePlayer(delta: number) {
+        const moveSpeed = 5.0
+        const rotationSpeed = 10.0
+        const hoverHeight = 1.5
+        const gravity = 20.0
+
+        const groundHeight =
+            this.getSurfaceHeight(
+                this.player.position.x,
+                this.player.position.z
+            ) + hoverHeight
+
+        if (this.playerState.isJumping) {
+            this.playerState.yVelocity -= gravity * delta
+            this.player.position.y += this.playerState.yVelocity * delta
+
+            if (this.player.position.y <= groundHeight) {
+                this.player.position.y = groundHeight
+                this.playerState.isJumping = false
+                this.playerState.yVelocity = 0
+            }
+        } else {
+            // Glide over the slopes instead of snapping to every bump
+            const followFactor = 1.0 - Math.exp(-15 * delta)
+            this.player.position.y = THREE.MathUtils.lerp(
+                this.player.position.y,
+                groundHeight,
+                followFactor
+            )
+        }
+
+        const forward = new THREE.Vector3(0, 0, -1).applyQuaternion(
+            this.cameraOrbit
+        )
+        forward.y = 0
+        forward.normalize()
+        const right = new THREE.Vector3()
+            .crossVectors(new THREE.Vector3(0, 1, 0), forward)
+            .normalize()
+
+        const moveDirection = new THREE.Vector3()
+        if (this.keysPressed.w || this.keysPressed.arrowup)
+            moveDirection.add(forward)
+        if (this.keysPressed.s || this.keysPressed.arrowdown)
+            moveDirection.sub(forward)
+        if (this.keysPressed.a || this.keysPressed.arrowleft)
+            moveDirection.add(right)
+        if (this.keysPressed.d || this.keysPressed.arrowright)
+            moveDirection.sub(right)
+
+        const targetVelocity = new THREE.Vector3()
+        if (moveDirection.lengthSq() > 0) {
+            targetVelocity.copy(
+                moveDirection.normalize().multiplyScalar(moveSpeed)
+            )
+        }
+
+        // Ice barely grips, so the player slides on, slow to turn or stop
+        const ice = this.getIceAt(
+            this.player.position.x,
+            this.player.position.z
+        )
+        const grip = THREE.MathUtils.lerp(20, 1.2, ice)
+        const lerpFactor = 1.0 - Math.exp(-grip * delta)
+        this.playerState.velocity.lerp(targetVelocity, lerpFactor)
+        const moveStep = this.playerState.velocity.clone().multiplyScalar(delta)
+
+        const monolithBBox = new Box3().setFromObject(this.monolith)
+        const playerBBox = new Box3().setFromObject(this.player)
+        playerBBox.translate(moveStep)
+
+        if (!playerBBox.intersectsBox(monolithBBox)) {
+            this.player.position.add(moveStep)
+        } else {
+            this.playerState.velocity.set(0, 0, 0)
+        }
+
+        if (this.playerState.velocity.lengthSq() > 0.01) {
+            const lookAtPosition = this.player.position
+                .clone()
+                .add(this.playerState.velocity)
+            const targetMatrix = new THREE.Matrix4().lookAt(
+                this.player.position,
+                lookAtPosition,
+                this.player.up
+            )
+            const targetQuaternion =
+                new THREE.Quaternion().setFromRotationMatrix(targetMatrix)
+            this.player.quaternion.slerp(
+                targetQuaternion,
+                delta * rotationSpeed
+            )
+        }
+    }
+
+    private updateCamera(delta: number) {
+        const desiredPosition = this.player.position.clone()
+        const offset = this.cameraOffset
+            .clone()
+            .applyQuaternion(this.cameraOrbit)
+        desiredPosition.add(offset)
+
+        const lerpFactor = 1.0 - Math.exp(-15 * delta)
+        this.camera.position.lerp(desiredPosition, lerpFactor)
+
+        const desiredLookAt = this.player.position
+            .clone()
+            .add(this.cameraTargetOffset)
+        this.cameraLookAt.lerp(desiredLookAt, lerpFactor)
+        this.camera.lookAt(this.cameraLookAt)
+    }
+
+    private updateOrbAnimation(
+        orb: THREE.Mesh,
+        delta: number,
+        elapsedTime: number
+    ) {
+        const basePos = orb.userData.basePosition as THREE.Vector3
+        const timeOffset = orb.userData.timeOffset as number
+        orb.position.y =
+            basePos.y + Math.sin(elapsedTime * 2 + timeOffset) * 0.2
+        const circularRadius = 0.2
+        const circularSpeed = 0.5
+        orb.position.x =
+            basePos.x +
+            Math.cos(elapsedTime * circularSpeed + timeOffset) * circularRadius
+        orb.position.z =
+            basePos.z +
+            Math.sin(elapsedTime * circularSpeed + timeOffset) * circularRadius
+        orb.rotation.y += delta
+    }
+
+    private updateOrbs(delta: number, elapsedTime: number) {
+        if (this.isCelebratingWin) return
+        for (let i = this.orbs.length - 1; i >= 0; i--) {
+            const orb = this.orbs[i]
+            this.updateOrbAnimation(orb, delta, elapsedTime)
+            if (
+                this.player.position.distanceTo(orb.position) <
+                PLAYER_SIZE / 2 + 0.3
+            ) {
+                this.triggerOrbBurst(
+                    orb.position,
+                    (orb.material as THREE.MeshStandardMaterial).color
+                )
+                this.scene.remove(orb)
+                this.orbs.splice(i, 1)
+                this.score++
+            }
+        }
+        if (this.specialOrb) {
+            this.updateOrbAnimation(this.specialOrb, delta, elapsedTime)
+            if (
+                this.player.position.distanceTo(this.specialOrb.position) <
+                PLAYER_SIZE / 2 + 0.3
+            ) {
+                this.triggerOrbBurst(
+                    this.specialOrb.position,
+                    (this.specialOrb.material as THREE.MeshStandardMaterial)
+                        .color
+                )
+                this.scene.remove(this.specialOrb)
+                this.specialOrb = null
+                this.score += 5
+            }
+        }
+        if (this.scoreElement)
+            this.scoreElement.innerText = `Score: ${this.score}`
+        if (this.score >= WIN_SCORE && !this.isCelebratingWin) this.handleWin()
+    }
+
+    public update(delta: number, elapsedTime: number) {
+        if (!this.isActive) return
+        this.updatePlayer(delta)
+        this.updateCamera(delta)
+        this.updateOrbs(delta, elapsedTime)
+        this.updateParticles(delta)
+    }
+
+    // --- Event Handlers ---
+    private handleKeyDown = (event: KeyboardEvent) => {
+        const key = event.key.toLowerCase()
+        if (key in this.keysPressed) {
+            event.preventDefault() // prevent page scroll
+            this.keysPressed[key] = true
+        }
+        if (event.code === "Space") this.jump()
+    }
+    private handleKeyUp = (event: KeyboardEvent) => {
+        const key = event.key.toLowerCase()
+        if (key in this.keysPressed) {
+            event.preventDefault()
+            this.keysPressed[key] = false
+        }
+    }
+    private handleDesktopMouseMove = (event: MouseEvent) => {
+        if (!this.isActive || !document.pointerLockElement) return
+        const movementX = event.movementX || 0
+        const movementY = event.movementY || 0
+        this.cameraEuler.y -= movementX * 0.002
+        this.cameraEuler.x -= movementY * 0.002
+        this.cameraEuler.x = Math.max(
+            (-Math.PI / 2) * 0.8,
+            Math.min((Math.PI / 2) * 0.8, this.cameraEuler.x)
+        )
+        this.cameraOrbit.setFromEuler(this.cameraEuler)
+    }
+    private handleTouchStart = (event: TouchEvent) => {
+        if (event.touches.length > 0) {
+            this.lastTouch.set(
+                event.touches[0].clientX,
+                event.touches[0].clientY
+            )
+        }
+    }
+    private handleTouchMove = (event: TouchEvent) => {
+        if (!this.isActive || event.touches.length === 0) return
+        const touch = event.touches[0]
+        const movementX = touch.clientX - this.lastTouch.x
+        const movementY = touch.clientY - this.lastTouch.y
+        this.cameraEuler.y -= movementX * 0.004 // Increased sensitivity for touch
+        this.cameraEuler.x -= movementY * 0.004
+        this.cameraEuler.x = Math.max(
+            (-Math.PI / 2) * 0.8,
+            Math.min((Math.PI / 2) * 0.8, this.cameraEuler.x)
+        )
+        this.cameraOrbit.setFromEuler(this.cameraEuler)
+        this.lastTouch.set(touch.clientX, touch.clientY)
+    }
+    private mobileControlListener = (key: string, value: boolean) => () => {
+        this.keysPressed[key] = value
+    }
+
+    private setupEventListeners() {
+        if (this.isMobile) {
+            this.renderer.domElement.addEventListener(
+                "touchstart",
+                this.handleTouchStart
+            )
+            this.renderer.domElement.addEventListener(
+                "touchmove",
+                this.handleTouchMove
+            )
+
+            this.mobileControls.w = document.getElementById("joy-w")
+            this.mobileControls.a = document.getElementById("joy-a")
+            this.mobileControls.s = document.getElementById("joy-s")
+            this.mobileControls.d = document.getElementById("joy-d")
+            this.mobileControls.jump = document.getElementById("jump-btn")
+
+            this.mobileControls.w?.addEventListener(
+                "touchstart",
+                this.mobileControlListener("w", true)
+            )
+            this.mobileControls.w?.addEventListener(
+                "touchend",
+                this.mobileControlListener("w", false)
+            )
+            this.mobileControls.a?.addEventListener(
+                "touchstart",
+                this.mobileControlListener("a", true)
+            )
+            this.mobileControls.a?.addEventListener(
+                "touchend",
+                this.mobileControlListener("a", false)
+            )
+            this.mobileControls.s?.addEventListener(
+                "touchstart",
+                this.mobileControlListener("s", true)
+            )
+            this.mobileControls.s?.addEventListener(
+                "touchend",
+                this.mobileControlListener("s", false)
+            )
+            this.mobileControls.d?.addEventListener(
+                "touchstart",
+                this.mobileControlListener("d", true)
+            )
+            this.mobileControls.d?.addEventListener(
+                "touchend",
+                this.mobileControlListener("d", false)
+            )
+            this.mobileControls.jump?.addEventListener("touchstart", this.jump)
+        } else {
+            window.addEventListener("keydown", this.handleKeyDown)
+            window.addEventListener("keyup", this.handleKeyUp)
             document.addEventListener("mousemove", this.handleDesktopMouseMove)
         }
     }
 
-    private disposeEventListeners() {
-        if (this.isMobile) {
-            this.renderer.domElement.removeEventListener(
-                "touchstart",
-                this.handleTouchStart
-            )
-            this.renderer.domElement.removeEventListener(
-                "touchmove",
-                this.handleTouchMove
-            )
-            this.mobileControls.w?.removeEventListener(
-                "touchstart",
-                this.mobileControlListener("w", true)
-            )
-            this.mobileControls.w?.removeEventListener(
-                "touchend",
-                this.mobileControlListener("w", false)
-            )
-            this.mobileControls.a?.removeEventListener(
-                "touchstart",
-                this.mobileControlListener("a", true)
-            )
-            this.mobileControls.a?.removeEventListener(
-                "touchend",
-                this.mobileControlListener("a", false)
-            )
-            this.mobileControls.s?.removeEventListener(
-                "touchstart",
-                this.mobileControlListener("s", true)
-            )
-            this.mobileControls.s?.removeEventListener(
-                "touchend",
-                this.mobileControlListener("s", false)
-            )
-            this.mobileControls.d?.removeEventListener(
-                "touchstart",
-                this.mobileControlListener("d", true)
-            )
-            this.mobileControls.d?.removeEventListener(
-                "touchend",
-                this.mobileControlListener("d", false)
-            )
-            this.mobileControls.jump?.removeEventListener(
-                "touchstart",
-                this.jump
-            )
-        } else {
-            window.removeEventListener("keydown", this.handleKeyDown)
-            window.removeEventListener("keyup", this.handleKeyUp)
-            document.removeEventListener(
-                "mousemove",
-                this.handleDesktopMouseMove
+    private disposeEventListeners() {
+        if (this.isMobile) {
+            this.renderer.domElement.removeEventListener(
+                "touchstart",
+                this.handleTouchStart
+            )
+            this.renderer.domElement.removeEventListener(
+                "touchmove",
+                this.handleTouchMove
+            )
+            this.mobileControls.w?.removeEventListener(
+                "touchstart",
+                this.mobileControlListener("w", true)
+            )
+            this.mobileControls.w?.removeEventListener(
+                "touchend",
+                this.mobileControlListener("w", false)
+            )
+            this.mobileControls.a?.removeEventListener(
+                "touchstart",
+                this.mobileControlListener("a", true)
+            )
+            this.mobileControls.a?.removeEventListener(
+                "touchend",
+                this.mobileControlListener("a", false)
+            )
+            this.mobileControls.s?.removeEventListener(
+                "touchstart",
+                this.mobileControlListener("s", true)
+            )
+            this.mobileControls.s?.removeEventListener(
+                "touchend",
+                this.mobileControlListener("s", false)
+            )
+            this.mobileControls.d?.removeEventListener(
+                "touchstart",
+                this.mobileControlListener("d", true)
+            )
+            this.mobileControls.d?.removeEventListener(
+                "touchend",
+                this.mobileControlListener("d", false)
+            )
+            this.mobileControls.jump?.removeEventListener(
+                "touchstart",
+                this.jump
+            )
+        } else {
+            window.removeEventListener("keydown", this.handleKeyDown)
+            window.removeEventListener("keyup", this.handleKeyUp)
+            document.removeEventListener(
+                "mousemove",
+                this.handleDesktopMouseMove
+            )
+        }
+    }
+
+    public dispose() {
+        this.disposeEventListeners()
+        this.orbs.forEach((orb) => this.scene.remove(orb))
+        if (this.specialOrb)
+            this.scene.remove(this.specialOrb)
+
+            // Particle cleanup
+        ;[
+            ...this.activeParticles.map((p) => p.mesh),
+            ...this.particlePool,
+        ].forEach((mesh) => {
+            this.scene.remove(mesh)
+            ;(mesh.material as THREE.Material).dispose()
+        })
+        this.activeParticles = []
+        this.particlePool = []
+        this.particleGeometry.dispose()
+        this.particleMaterial.dispose()
+
+        this.scene.remove(this.player)
+        this.player.geometry.dispose()
+        ;(this.player.material as THREE.Material).dispose()
+        this.orbGeometry.dispose()
+        this.orbMaterial.dispose()
+        this.specialOrbMaterial.dispose()
+    }
+}
+
+// --- FROM App.tsx (Main Component) ---
+// --- Configuration ---
+const initialParams = {
+    // World
+    timeOfDay: 10.0, // 0-24 hours, 10 AM
+    seed: 1337, // Drives every procedural generator; overridable via ?seed=
+    clockMode: "manual", // "manual", "cycle" or "wallClock"
+    clockPaused: false,
+    dayLengthSeconds: 600, // Real seconds per game day at 1x speed
+    timeScale: 1.0,
+    astronomyMode: false, // Real sun and moon positions for the place below
+    latitude: 48.86,
+    longitude: 2.35,
+    astronomyDate: "", // YYYY-MM-DD; blank means today
+    moonPhase: 0.5, // 0 = new, 0.5 = full, 1 = new again; real mode overrides
+
+    // Weather
+    weather: "clear", // See WEATHER_STATES
+    weatherAuto: false,
+    weatherChangeMinutes: 4, // Average time between auto-weather changes
+    weatherTransitionSeconds: 20,
+    thunderVolume: 0.7,
+
+    // Wind
+    windDirection: 270, // Compass bearing it blows from; 270 is a westerly
+    windStrength: 1.0,
+    windGustiness: 0.5,
+
+    // Seasons
+    season: 0.25, // 0 spring, 0.25 summer, 0.5 autumn, 0.75 winter
+    seasonFromDate: false, // Follow the astronomy date and latitude
+
+    // Default Preset Values (see VISUAL_PRESETS for the others)
+    groundColor: "#2fa753",
+    monolithColor: "#586F7C",
+    grassBaseColor: "#a7c957",
+    grassTipColor: "#55aa6f",
+
+    // Lighting
+    lightIntensity: 1.5,
+    sunColor: "#ffcb8e",
+    hemisphereSkyColor: "#bde0fe",
+    hemisphereGroundColor: "#6a994e",
+    hemisphereIntensity: 0.6,
+
+    // Shadows
+    shadowBias: -0.0005,
+    shadowRadius: 8.2,
+
+    // Sky & Sun
+    turbidity: 10.3,
+    rayleigh: 0.582,
+    mieCoefficient: 0.015,
+    mieDirectionalG: 0.361,
+    elevation: 21.1,
+    azimuth: 180,
+
+    // Flora
+    grassCount: 50000,
+    treeCount: 5,
+    grassPaths: true,
+    grassClearing: true,
+    grassShoreThinning: true,
+    grassPatchiness: 0.6,
+
+    // Post-processing
+    bloomStrength: 0.4,
+    bloomThreshold: 1,
+    bloomRadius: 0.2,
+
+    // Water Ripples
+    waterFlowSpeed: 0.5,
+    rippleIntensity: 0.1,
+    rippleScale: 2.0,
+    rippleSpeed: 0.03,
+    interactiveRippleRadius: 0.8,
+    interactiveRippleStrength: 0.15,
+    waterDistortion: 0.0,
+    waterShallowColor: "#3fb8a6",
+    waterDeepColor: "#0d3b4a",
+    shoreFoam: 0.8,
+
+    // Clouds
+    cloudColor: "#ffffff",
+    cloudCount: 10,
+    cloudRenderer: "puffs", // Or "raymarched" for the volumetric layer
+    cloudQuality: "medium", // See CLOUD_QUALITY_DEFINES
+    cloudShadowStrength: 0.5,
+
+    // Fog
+    fogColor: "#c5d1d9",
+    fogDensity: 0.015,
+
+    // Stars
+    starCount: 5000,
+    starBaseSize: 1.5,
+    starColor: "#ffffff",
+    showConstellations: false,
+    shootingStarRate: 3, // Per minute; 0 turns them off
+    milkyWayIntensity: 1.0,
+}
+
+const maxGrassCount = 50000
+const maxCloudCount = 50
+const maxTreeCount = 5
+const maxStarCount = 20000
+const maxRainDropCount = 8000
+const maxFallingParticleCount = 3000
+
+// Sets one param (or any object's property) without losing its type
+function setParam<P, K extends keyof P>(target: P, key: K, value: P[K]) {
+    target[key] = value
+}
+
+// --- Scene Element Creators ---
+function createMoon() {
+    const moonSize = 48
+    const discRadius = 0.125 // Of the plane; the rest is room for the halo
+
+    const material = new THREE.MeshBasicMaterial({
+        transparent: true,
+        opacity: 0,
+        blending: THREE.AdditiveBlending,
+        depthWrite: false,
+        fog: false, // At sky distance the fog would swallow it whole
+    })
+
+    // The disc is shaded as a sphere: the phase sets how far the light swings
+    // round behind it, and the sun's direction sets which limb it falls on.
+    // Maria and craters are procedural, and the halo spreads in thicker fog.
+    const moonUniforms = {
+        uPhase: { value: 0.5 },
+        uIllumination: { value: 1.0 },
+        uSunDirection: { value: new THREE.Vector3(0, 1, 0) },
+        uHaloSize: { value: 0.3 },
+    }
+    material.onBeforeCompile = (shader) => {
+        Object.assign(shader.uniforms, moonUniforms)
+        shader.vertexShader =
+            `
+            uniform vec3 uSunDirection;
+            varying vec2 vMoonUv;
+            varying vec3 vMoonSun;
+        \n` + shader.vertexShader
+        shader.vertexShader = shader.vertexShader.replace(
+            "#include <uv_vertex>",
+            `
+                #include <uv_vertex>
+                vMoonUv = uv;
+                // Into the plane's own frame, where +z faces the camera
+                vMoonSun = normalize(uSunDirection * mat3(modelMatrix));
+            `
+        )
+        shader.fragmentShader =
+            `
+            uniform float uPhase;
+            uniform float uIllumination;
+            uniform float uHaloSize;
+            varying vec2 vMoonUv;
+            varying vec3 vMoonSun;
+
+            float moonHash(vec2 p) {
+                return fract(sin(dot(p, vec2(127.1, 311.7))) * 43758.5453);
+            }
+            float moonNoise(vec2 p) {
+                vec2 i = floor(p);
+                vec2 f = fract(p);
+                vec2 u = f * f * (3.0 - 2.0 * f);
+                return mix(
+                    mix(moonHash(i), moonHash(i + vec2(1.0, 0.0)), u.x),
+                    mix(moonHash(i + vec2(0.0, 1.0)), moonHash(i + vec2(1.0, 1.0)), u.x),
+                    u.y
+                );
+            }
+            // Bowl-shaped craters: a darker floor, a bright rim and a rim
+            // that catches the light on the side facing it
+            float moonCraters(vec2 p, vec2 light) {
+                vec2 cell = floor(p);
+                float shade = 1.0;
+                for (int y = -1; y <= 1; y++) {
+                    for (int x = -1; x <= 1; x++) {
+                        vec2 c = cell + vec2(float(x), float(y));
+                        if (moonHash(c + 7.3) < 0.45) continue;
+                        vec2 offset = p - (c + vec2(moonHash(c), moonHash(c + 3.1)));
+                        float radius = 0.2 + 0.3 * moonHash(c + 5.7);
+                        float d = length(offset) / radius;
+                        if (d > 1.2) continue;
+                        float facing = dot(offset / max(length(offset), 1e-4), light);
+                        shade *= d < 0.85
+                            ? 0.82 - 0.08 * facing
+                            : 1.0 + 0.25 * (1.0 - abs(d - 1.0) / 0.2) * (0.6 + 0.4 * facing);
+                    }
+                }
+                return shade;
+            }
+        \n` + shader.fragmentShader
+        shader.fragmentShader = shader.fragmentShader.replace(
+            "#include <map_fragment>",
+            `
+                #include <map_fragment>
+                vec2 disc = (vMoonUv - 0.5) / ${discRadius.toFixed(3)};
+                float r = length(disc);
+                vec3 moonNormal = vec3(disc, sqrt(max(0.0, 1.0 - r * r)));
+
+                // With the sun (nearly) straight behind the viewer there is no
+                // limb to pick, so waxing moons are lit from the right
+                vec2 toward = length(vMoonSun.xy) > 0.1
+                    ? normalize(vMoonSun.xy)
+                    : vec2(uPhase < 0.5 ? 1.0 : -1.0, 0.0);
+                float swing = abs(1.0 - 2.0 * uPhase) * 3.14159265;
+                vec3 light = vec3(toward * sin(swing), cos(swing));
+                float lambert = dot(moonNormal, light);
+                float lit = smoothstep(-0.03, 0.08, lambert) * (0.75 + 0.25 * max(lambert, 0.0));
+
+                float maria = smoothstep(0.45, 0.75, moonNoise(moonNormal.xy * 2.5 + 4.0) * 0.7 + moonNoise(moonNormal.xy * 6.0) * 0.3);
+                float albedo = (1.0 - 0.35 * maria)
+                    * moonCraters(disc * 4.0, toward)
+                    * moonCraters(disc * 9.0 + 17.0, toward);
+                float surface = albedo * max(lit, 0.03); // Faint earthshine
+
+                float inside = 1.0 - smoothstep(0.96, 1.0, r);
+                float halo = exp(-max(r - 1.0, 0.0) / uHaloSize) * 0.35 * uIllumination
+                    * (1.0 - smoothstep(0.35, 0.5, length(vMoonUv - 0.5)));
+                diffuseColor.rgb *= vec3(1.0, 0.97, 0.9) * (surface * inside + halo * (1.0 - inside));
+            `
+        )
+    }
+
+    const geometry = new THREE.PlaneGeometry(moonSize, moonSize)
+    const moon = new THREE.Mesh(geometry, material)
+    moon.userData.setPhase = (
+        phase: number,
+        illumination: number,
+        sunDirection: THREE.Vector3
+    ) => {
+        moonUniforms.uPhase.value = phase
+        moonUniforms.uIllumination.value = illumination
+        moonUniforms.uSunDirection.value.copy(sunDirection)
+    }
+    moon.userData.setFogDensity = (density: number) => {
+        moonUniforms.uHaloSize.value = THREE.MathUtils.mapLinear(
+            Math.min(density, 0.06),
+            0,
+            0.06,
+            0.15,
+            1.2
+        )
+    }
+    return moon
+}
+
+function createStarTexture(): THREE.CanvasTexture {
+    const size = 64
+    const canvas = document.createElement("canvas")
+    canvas.width = size
+    canvas.height = size
+    const context = canvas.getContext("2d")
+    if (!context) {
+        throw new Error("Could not get 2D context")
+    }
+
+    const centerX = size / 2
+    const centerY = size / 2
+    const radius = size / 2
+
+    const gradient = context.createRadialGradient(
+        centerX,
+        centerY,
+        0,
+        centerX,
+        centerY,
+        radius
+    )
+    gradient.addColorStop(0, "rgba(255, 255, 255, 1.0)")
+    gradient.addColorStop(0.2, "rgba(255, 255, 255, 0.8)")
+    gradient.addColorStop(1, "rgba(255, 255, 255, 0)")
+
+    context.fillStyle = gradient
+    context.fillRect(0, 0, size, size)
+
+    return new THREE.CanvasTexture(canvas)
+}
+
+function updateStarGeometry(
+    geometry: THREE.BufferGeometry,
+    params: {
+        count: number
+        baseSize: number
+        color: string | number | THREE.Color
+    },
+    random: RandomFn
+) {
+    const vertices = []
+    const colors = []
+    const sizes = []
+
+    const radius = 300
+    const baseColor = new THREE.Color(params.color)
+
+    for (let i = 0; i < params.count; i++) {
+        const x = (random() - 0.5) * 2 * radius
+        const y = random() * radius * 0.8 + 50
+        const z = (random() - 0.5) * 2 * radius
+        const magSq = x * x + y * y + z * z
+        if (magSq > radius * radius || magSq < radius * 0.8 * (radius * 0.8)) {
+            i--
+            continue
+        }
+        vertices.push(x, y, z)
+
+        const brightness = 0.5 + random() * 0.5
+        colors.push(
+            baseColor.r * brightness,
+            baseColor.g * brightness,
+            baseColor.b * brightness
+        )
+
+        sizes.push(params.baseSize + random() * 1.5)
+    }
+
+    geometry.setAttribute(
+        "position",
+        new THREE.Float32BufferAttribute(vertices, 3)
+    )
+    geometry.setAttribute("color", new THREE.Float32BufferAttribute(colors, 3))
+    geometry.setAttribute(
+        "particleSize",
+        new THREE.Float32BufferAttribute(sizes, 1)
+    )
+    geometry.attributes.position.needsUpdate = true
+    geometry.attributes.color.needsUpdate = true
+    geometry.attributes.particleSize.needsUpdate = true
+}
+
+function createStars(
+    params: {
+        count: number
+        baseSize: number
+        color: string | number | THREE.Color
+    },
+    random: RandomFn
+) {
+    const starGeometry = new THREE.BufferGeometry()
+    updateStarGeometry(starGeometry, params, random)
+
+    const starTexture = createStarTexture()
+
+    const starMaterial = new THREE.PointsMaterial({
+        map: starTexture,
+        vertexColors: true,
+        transparent: true,
+        opacity: 0,
+        blending: THREE.AdditiveBlending,
+        depthWrite: false,
+        sizeAttenuation: false,
+        fog: false,
+    })
+
+    starMaterial.onBeforeCompile = (shader) => {
+        shader.uniforms.time = { value: 0 }
+        shader.vertexShader =
+            `
+            attribute float particleSize;
+            varying float vRand;
+        \n` +
+            shader.vertexShader.replace(
+                "#include <project_vertex>",
+                `
+            vRand = (position.x + position.z) * 10.0;
+            #include <project_vertex>
+            gl_PointSize = particleSize * ( 200.0 / -mvPosition.z );
+            `
+            )
+        shader.fragmentShader =
+            `
+            uniform float time;
+            varying float vRand;
+        \n` +
+            shader.fragmentShader.replace(
+                "vec4 diffuseColor = vec4( diffuse, opacity );",
+                `
+            float twinkleFactor = 0.5 * (1.0 + sin(time * 2.0 + vRand));
+            twinkleFactor = pow(twinkleFactor, 2.0);
+            vec4 diffuseColor = vec4( diffuse, opacity * (0.5 + 0.5 * twinkleFactor) );
+            `
+            )
+        starMaterial.userData.shader = shader
+    }
+
+    const stars = new THREE.Points(starGeometry, starMaterial)
+    stars.userData.update = (
+        newParams: {
+            count: number
+            baseSize: number
+            color: string | number | THREE.Color
+        },
+        newRandom: RandomFn
+    ) => {
+        updateStarGeometry(starGeometry, newParams, newRandom)
+    }
+
+    return stars
+}
+
+function createSky() {
+    const sky = new Sky()
+    sky.scale.setScalar(450000)
+    return sky
+}
+
+// Unit vector towards a point in the sky; azimuth is a compass bearing with
+// north along -z and east along +x, so facing north east is on the right
+function getSkyDirection(
+    elevation: number,
+    azimuth: number,
+    target = new THREE.Vector3()
+) {
+    const phi = THREE.MathUtils.degToRad(90 - elevation)
+    const theta = THREE.MathUtils.degToRad(180 - azimuth)
+    return target.setFromSphericalCoords(1, phi, theta)
+}
+
+function updateSunPosition(
+    sky: Sky,
+    directionalLight: THREE.DirectionalLight,
+    elevation: number,
+    azimuth: number
+) {
+    const sun = getSkyDirection(elevation, azimuth)
+    sky.material.uniforms["sunPosition"].value.copy(sun)
+    directionalLight.position.copy(sun).multiplyScalar(50)
+}
+
+// --- Lighting Timeline ---
+// The look of the day as a list of time stops. Every value is blended between
+// stops with a smooth spline that wraps around midnight, so any number of
+// stops (golden hour, blue hour...) can be added without special cases.
+type LightingKeyframe = {
+    time: number // 0-24 hours
+    sunElevation: number // Degrees above the horizon
+    sunAzimuth: number // Degrees; 180 faces the default sun path heading
+    sunColor: string
+    sunIntensity: number
+    hemisphereSky: string
+    hemisphereGround: string
+    hemisphereIntensity: number
+    fogColor: string
+    cloudColor: string
+    turbidity: number
+    rayleigh: number
+    starOpacity: number
+}
+
+type LightingSample = {
+    sunElevation: number
+    sunAzimuth: number
+    sunColor: THREE.Color
+    sunIntensity: number
+    hemisphereSky: THREE.Color
+    hemisphereGround: THREE.Color
+    hemisphereIntensity: number
+    fogColor: THREE.Color
+    cloudColor: THREE.Color
+    turbidity: number
+    rayleigh: number
+    starOpacity: number
+}
+
+const LIGHTING_NUMBER_KEYS = [
+    "sunElevation",
+    "sunAzimuth",
+    "sunIntensity",
+    "hemisphereIntensity",
+    "turbidity",
+    "rayleigh",
+    "starOpacity",
+] as const
+
+const LIGHTING_COLOR_KEYS = [
+    "sunColor",
+    "hemisphereSky",
+    "hemisphereGround",
+    "fogColor",
+    "cloudColor",
+] as const
+
+const DEFAULT_LIGHTING_KEYFRAMES: LightingKeyframe[] = [
+    {
+        time: 0, // Midnight
+        sunElevation: -40,
+        sunAzimuth: 0,
+        sunColor: "#aaccff", // Moonlight
+        sunIntensity: 0.25,
+        hemisphereSky: "#0a2a4f",
+        hemisphereGround: "#102820",
+        hemisphereIntensity: 0.4,
+        fogColor: "#08141e",
+        cloudColor: "#2c3e50",
+        turbidity: 15,
+        rayleigh: 0.1,
+        starOpacity: 1,
+    },
+    {
+        time: 5, // Blue hour before dawn
+        sunElevation: -8,
+        sunAzimuth: 75,
+        sunColor: "#8fa8d8",
+        sunIntensity: 0.25,
+        hemisphereSky: "#34507e",
+        hemisphereGround: "#1d3028",
+        hemisphereIntensity: 0.4,
+        fogColor: "#3e4e68",
+        cloudColor: "#66748c",
+        turbidity: 15,
+        rayleigh: 0.1,
+        starOpacity: 0.7,
+    },
+    {
+        time: 6, // Sunrise
+        sunElevation: 0,
+        sunAzimuth: 90,
+        sunColor: "#ff6b00",
+        sunIntensity: 0.6,
+        hemisphereSky: "#ff8c69",
+        hemisphereGround: "#5e4534",
+        hemisphereIntensity: 0.45,
+        fogColor: "#f2b279",
+        cloudColor: "#ffdab9",
+        turbidity: 15,
+        rayleigh: 0.3,
+        starOpacity: 0.2,
+    },
+    {
+        time: 7.5, // Morning golden hour
+        sunElevation: 12,
+        sunAzimuth: 105,
+        sunColor: "#ffb56b",
+        sunIntensity: 1.2,
+        hemisphereSky: "#e2d6d0",
+        hemisphereGround: "#647a45",
+        hemisphereIntensity: 0.55,
+        fogColor: "#e3c6a8",
+        cloudColor: "#fff0e0",
+        turbidity: 11,
+        rayleigh: 0.582,
+        starOpacity: 0,
+    },
+    {
+        time: 12, // Noon
+        sunElevation: 55,
+        sunAzimuth: 180,
+        sunColor: "#ffcb8e",
+        sunIntensity: 1.5,
+        hemisphereSky: "#bde0fe",
+        hemisphereGround: "#6a994e",
+        hemisphereIntensity: 0.6,
+        fogColor: "#c5d1d9",
+        cloudColor: "#ffffff",
+        turbidity: 10,
+        rayleigh: 0.582,
+        starOpacity: 0,
+    },
+    {
+        time: 17, // Afternoon golden hour
+        sunElevation: 15,
+        sunAzimuth: 255,
+        sunColor: "#ffb56b",
+        sunIntensity: 1.3,
+        hemisphereSky: "#f6d7b0",
+        hemisphereGround: "#6a7a45",
+        hemisphereIntensity: 0.55,
+        fogColor: "#e6cfae",
+        cloudColor: "#ffe9cf",
+        turbidity: 10,
+        rayleigh: 0.582,
+        starOpacity: 0,
+    },
+    {
+        time: 18.5, // Sunset
+        sunElevation: 0,
+        sunAzimuth: 270,
+        sunColor: "#ff6b00",
+        sunIntensity: 0.6,
+        hemisphereSky: "#ff8c69",
+        hemisphereGround: "#5e4534",
+        hemisphereIntensity: 0.45,
+        fogColor: "#f2b279",
+        cloudColor: "#ffdab9",
+        turbidity: 15,
+        rayleigh: 0.3,
+        starOpacity: 0.2,
+    },
+    {
+        time: 19.5, // Blue hour after dusk
+        sunElevation: -8,
+        sunAzimuth: 285,
+        sunColor: "#8fa8d8",
+        sunIntensity: 0.25,
+        hemisphereSky: "#2c4470",
+        hemisphereGround: "#1a2b25",
+        hemisphereIntensity: 0.4,
+        fogColor: "#2e3d55",
+        cloudColor: "#4a5870",
+        turbidity: 15,
+        rayleigh: 0.1,
+        starOpacity: 0.8,
+    },
+]
+
+function cloneLightingKeyframes(keyframes: LightingKeyframe[]) {
+    return keyframes.map((keyframe) => ({ ...keyframe }))
+}
+
+function createLightingSample(): LightingSample {
+    return {
+        sunElevation: 0,
+        sunAzimuth: 0,
+        sunColor: new THREE.Color(),
+        sunIntensity: 0,
+        hemisphereSky: new THREE.Color(),
+        hemisphereGround: new THREE.Color(),
+        hemisphereIntensity: 0,
+        fogColor: new THREE.Color(),
+        cloudColor: new THREE.Color(),
+        turbidity: 0,
+        rayleigh: 0,
+        starOpacity: 0,
+    }
+}
+
+// Cubic Hermite segment between p1 and p2. Tangents are Catmull-Rom slopes
+// over the uneven stop spacing, flattened at peaks and limited so the curve
+// never overshoots between stops (Fritsch-Carlson).
+function splineValue(
+    p0: number,
+    p1: number,
+    p2: number,
+    p3: number,
+    t0: number,
+    t1: number,
+    t2: number,
+    t3: number,
+    t: number
+) {
+    const slope = (a: number, b: number, dt: number) =>
+        dt > 0 ? (b - a) / dt : 0
+    const h = t2 - t1
+    const d0 = slope(p0, p1, t1 - t0)
+    const d1 = slope(p1, p2, h)
+    const d2 = slope(p2, p3, t3 - t2)
+    let m1 = d0 * d1 <= 0 ? 0 : slope(p0, p2, t2 - t0)
+    let m2 = d1 * d2 <= 0 ? 0 : slope(p1, p3, t3 - t1)
+    if (d1 !== 0) {
+        const r = (m1 / d1) ** 2 + (m2 / d1) ** 2
+        if (r > 9) {
+            m1 *= 3 / Math.sqrt(r)
+            m2 *= 3 / Math.sqrt(r)
+        }
+    }
+
+    const s2 = t * t
+    const s3 = s2 * t
+    return (
+        (2 * s3 - 3 * s2 + 1) * p1 +
+        (s3 - 2 * s2 + t) * m1 * h +
+        (-2 * s3 + 3 * s2) * p2 +
+        (s3 - s2) * m2 * h
+    )
+}
+
+// Shifts an angle by whole turns so it lies within 180 degrees of `reference`
+function unwrapAngle(angle: number, reference: number) {
+    return angle - 360 * Math.round((angle - reference) / 360)
+}
+
+const lightingColorA = new THREE.Color()
+const lightingColorB = new THREE.Color()
+const lightingColorC = new THREE.Color()
+const lightingColorD = new THREE.Color()
+
+function sampleLightingTimeline(
+    keyframes: LightingKeyframe[],
+    time: number,
+    target: LightingSample
+) {
+    const stops = [...keyframes].sort((a, b) => a.time - b.time)
+    const count = stops.length
+    if (count === 0) return target
+
+    // Find the segment holding `time`, wrapping past the last stop to the first
+    time = ((time % 24) + 24) % 24
+    let i1 = count - 1
+    for (let i = 0; i < count; i++) {
+        if (stops[i].time <= time) i1 = i
+    }
+    const stop = (offset: number) => {
+        const index = i1 + offset
+        const wraps = Math.floor(index / count)
+        const keyframe = stops[index - wraps * count]
+        return { keyframe, time: keyframe.time + wraps * 24 }
+    }
+    const k0 = stop(-1)
+    const k1 = stop(0)
+    const k2 = stop(1)
+    const k3 = stop(2)
+    if (time < k1.time) time += 24 // Between the last stop and midnight
+    const span = k2.time - k1.time
+    const t = count > 1 && span > 0 ? (time - k1.time) / span : 0
+    const spline = (p0: number, p1: number, p2: number, p3: number) =>
+        count > 1
+            ? splineValue(p0, p1, p2, p3, k0.time, k1.time, k2.time, k3.time, t)
+            : p1
+
+    LIGHTING_NUMBER_KEYS.forEach((key) => {
+        let p0 = k0.keyframe[key]
+        let p1 = k1.keyframe[key]
+        let p2 = k2.keyframe[key]
+        let p3 = k3.keyframe[key]
+        if (key === "sunAzimuth") {
+            p0 = unwrapAngle(p0, p1)
+            p2 = unwrapAngle(p2, p1)
+            p3 = unwrapAngle(p3, p2)
+        }
+        target[key] = spline(p0, p1, p2, p3)
+    })
+    // Guard against hand-edited stops with out-of-range values
+    target.sunIntensity = Math.max(0, target.sunIntensity)
+    target.hemisphereIntensity = Math.max(0, target.hemisphereIntensity)
+    target.turbidity = Math.max(0, target.turbidity)
+    target.rayleigh = Math.max(0, target.rayleigh)
+    target.starOpacity = THREE.MathUtils.clamp(target.starOpacity, 0, 1)
+
+    LIGHTING_COLOR_KEYS.forEach((key) => {
+        lightingColorA.set(k0.keyframe[key])
+        lightingColorB.set(k1.keyframe[key])
+        lightingColorC.set(k2.keyframe[key])
+        lightingColorD.set(k3.keyframe[key])
+        target[key].setRGB(
+            spline(
+                lightingColorA.r,
+                lightingColorB.r,
+                lightingColorC.r,
+                lightingColorD.r
+            ),
+            spline(
+                lightingColorA.g,
+                lightingColorB.g,
+                lightingColorC.g,
+                lightingColorD.g
+            ),
+            spline(
+                lightingColorA.b,
+                lightingColorB.b,
+                lightingColorC.b,
+                lightingColorD.b
+            )
+        )
+        target[key].r = THREE.MathUtils.clamp(target[key].r, 0, 1)
+        target[key].g = THREE.MathUtils.clamp(target[key].g, 0, 1)
+        target[key].b = THREE.MathUtils.clamp(target[key].b, 0, 1)
+    })
+    return target
+}
+
+const timelineSearchSample = createLightingSample()
+
+// Finds the time at which the timeline's sun stands at `elevation`, on the
+// morning side of its day when `rising`, otherwise on the evening side
+function findTimelineTimeForElevation(
+    keyframes: LightingKeyframe[],
+    elevation: number,
+    rising: boolean
+) {
+    if (keyframes.length === 0) return 0
+    const highest = keyframes.reduce((a, b) =>
+        b.sunElevation > a.sunElevation ? b : a
+    )
+    const lowest = keyframes.reduce((a, b) =>
+        b.sunElevation < a.sunElevation ? b : a
+    )
+    let start = rising ? lowest.time : highest.time
+    let end = rising ? highest.time : lowest.time
+    if (end <= start) end += 24
+
+    // Bisect, assuming the sun climbs (or sinks) steadily along this half
+    for (let i = 0; i < 20; i++) {
+        const mid = (start + end) / 2
+        sampleLightingTimeline(keyframes, mid, timelineSearchSample)
+        if (timelineSearchSample.sunElevation > elevation === rising) {
+            end = mid
+        } else {
+            start = mid
+        }
+    }
+    return ((start + end) / 2) % 24
+}
+
+// --- Astronomy ---
+// Low-precision solar and lunar positions (good to a fraction of a degree),
+// after the formulas popularised by SunCalc and Astronomical Algorithms.
+type CelestialPosition = {
+    elevation: number // Degrees above the horizon
+    azimuth: number // Compass bearing in degrees
+    hourAngle: number // Radians, negative while rising
+}
+
+type AstronomyState = {
+    sun: CelestialPosition
+    moon: CelestialPosition
+    moonPhase: number // 0 = new, 0.5 = full, 1 = new again
+    moonIllumination: number // Lit fraction of the disc, 0-1
+}
+
+const ASTRONOMY_OBLIQUITY = THREE.MathUtils.degToRad(23.4397)
+
+// Days since the J2000 epoch
+function toJulianDays(date: Date) {
+    return date.getTime() / 86400000 - 0.5 + 2440588 - 2451545
+}
+
+function getSunCoordinates(days: number) {
+    const rad = THREE.MathUtils.DEG2RAD
+    const m = rad * (357.5291 + 0.98560028 * days)
+    const center =
+        rad *
+        (1.9148 * Math.sin(m) +
+            0.02 * Math.sin(2 * m) +
+            0.0003 * Math.sin(3 * m))
+    const longitude = m + center + rad * 102.9372 + Math.PI
+    return {
+        rightAscension: Math.atan2(
+            Math.sin(longitude) * Math.cos(ASTRONOMY_OBLIQUITY),
+            Math.cos(longitude)
+        ),
+        declination: Math.asin(
+            Math.sin(ASTRONOMY_OBLIQUITY) * Math.sin(longitude)
+        ),
+        distance: 149598000, // km; the sun's distance barely matters here
+    }
+}
+
+function getMoonCoordinates(days: number) {
+    const rad = THREE.MathUtils.DEG2RAD
+    const meanLongitude = rad * (218.316 + 13.176396 * days)
+    const meanAnomaly = rad * (134.963 + 13.064993 * days)
+    const argumentOfLatitude = rad * (93.272 + 13.22935 * days)
+    const longitude = meanLongitude + rad * 6.289 * Math.sin(meanAnomaly)
+    const latitude = rad * 5.128 * Math.sin(argumentOfLatitude)
+    const e = ASTRONOMY_OBLIQUITY
+    return {
+        rightAscension: Math.atan2(
+            Math.sin(longitude) * Math.cos(e) -
+                Math.tan(latitude) * Math.sin(e),
+            Math.cos(longitude)
+        ),
+        declination: Math.asin(
+            Math.sin(latitude) * Math.cos(e) +
+                Math.cos(latitude) * Math.sin(e) * Math.sin(longitude)
+        ),
+        distance: 385001 - 20905 * Math.cos(meanAnomaly),
+    }
+}
+
+// Local sidereal time in radians
+function getSiderealTime(days: number, longitude: number) {
+    return THREE.MathUtils.degToRad(280.16 + 360.9856235 * days + longitude)
+}
+
+function getHorizontalPosition(
+    rightAscension: number,
+    declination: number,
+    siderealTime: number,
+    latitude: number
+): CelestialPosition {
+    const hourAngle = siderealTime - rightAscension
+    // Measured from south, positive towards the west
+    const azimuthFromSouth = Math.atan2(
+        Math.sin(hourAngle),
+        Math.cos(hourAngle) * Math.sin(latitude) -
+            Math.tan(declination) * Math.cos(latitude)
+    )
+    const altitude = Math.asin(
+        Math.sin(latitude) * Math.sin(declination) +
+            Math.cos(latitude) * Math.cos(declination) * Math.cos(hourAngle)
+    )
+    return {
+        elevation: THREE.MathUtils.radToDeg(altitude),
+        azimuth: (THREE.MathUtils.radToDeg(azimuthFromSouth) + 540) % 360,
+        hourAngle: Math.atan2(Math.sin(hourAngle), Math.cos(hourAngle)),
+    }
+}
+
+function computeAstronomy(
+    date: Date,
+    latitude: number,
+    longitude: number
+): AstronomyState {
+    const days = toJulianDays(date)
+    const phi = THREE.MathUtils.degToRad(latitude)
+    const siderealTime = getSiderealTime(days, longitude)
+    const sun = getSunCoordinates(days)
+    const moon = getMoonCoordinates(days)
+
+    // Phase from the sun-moon elongation as seen from Earth
+    const elongation = Math.acos(
+        Math.sin(sun.declination) * Math.sin(moon.declination) +
+            Math.cos(sun.declination) *
+                Math.cos(moon.declination) *
+                Math.cos(sun.rightAscension - moon.rightAscension)
+    )
+    const incidence = Math.atan2(
+        sun.distance * Math.sin(elongation),
+        moon.distance - sun.distance * Math.cos(elongation)
+    )
+    const waxing = Math.atan2(
+        Math.cos(sun.declination) *
+            Math.sin(sun.rightAscension - moon.rightAscension),
+        Math.sin(sun.declination) * Math.cos(moon.declination) -
+            Math.cos(sun.declination) *
+                Math.sin(moon.declination) *
+                Math.cos(sun.rightAscension - moon.rightAscension)
+    )
+
+    return {
+        sun: getHorizontalPosition(
+            sun.rightAscension,
+            sun.declination,
+            siderealTime,
+            phi
+        ),
+        moon: getHorizontalPosition(
+            moon.rightAscension,
+            moon.declination,
+            siderealTime,
+            phi
+        ),
+        moonPhase: 0.5 + (0.5 * incidence * (waxing < 0 ? -1 : 1)) / Math.PI,
+        moonIllumination: (1 + Math.cos(incidence)) / 2,
+    }
+}
+
+// The moment shown in astronomy mode: `timeOfDay` hours into the given date
+// (YYYY-MM-DD, or today when blank), in the viewer's own time zone
+function getAstronomyDate(dateString: string, timeOfDay: number) {
+    const match = /^(\d{4})-(\d{1,2})-(\d{1,2})$/.exec(dateString.trim())
+    const date = new Date()
+    if (match) {
+        date.setFullYear(
+            Number(match[1]),
+            Number(match[2]) - 1,
+            Number(match[3])
+        )
+    }
+    date.setHours(0, 0, 0, 0)
+    return new Date(date.getTime() + timeOfDay * 3600000)
+}
+
+// --- Night Sky ---
+// The brighter stars of the real sky, placed on a celestial sphere that turns
+// with sidereal time, so the constellations rise and set where they should.
+// Right ascension (hours), declination (degrees), magnitude, B-V colour index
+type CatalogueStar = [number, number, number, number]
+
+const STAR_CATALOGUE: Record<string, CatalogueStar> = {
+    // Ursa Major and Ursa Minor
+    dubhe: [11.062, 61.75, 1.79, 1.07],
+    merak: [11.031, 56.38, 2.37, 0.03],
+    phecda: [11.897, 53.69, 2.44, 0.04],
+    megrez: [12.257, 57.03, 3.31, 0.08],
+    alioth: [12.9, 55.96, 1.77, -0.02],
+    mizar: [13.399, 54.93, 2.23, 0.02],
+    alkaid: [13.792, 49.31, 1.86, -0.19],
+    polaris: [2.53, 89.26, 1.98, 0.6],
+    yildun: [17.537, 86.59, 4.35, 0.03],
+    epsilonUMi: [16.766, 82.04, 4.21, 0.89],
+    zetaUMi: [15.734, 77.79, 4.29, 0.04],
+    etaUMi: [16.292, 75.76, 4.95, 0.37],
+    kochab: [14.845, 74.16, 2.08, 1.47],
+    pherkad: [15.345, 71.83, 3.05, 0.05],
+    // Cassiopeia and Perseus
+    caph: [0.153, 59.15, 2.28, 0.34],
+    schedar: [0.675, 56.54, 2.24, 1.17],
+    gammaCas: [0.945, 60.72, 2.47, -0.15],
+    ruchbah: [1.43, 60.24, 2.68, 0.13],
+    segin: [1.907, 63.67, 3.37, -0.15],
+    mirfak: [3.405, 49.86, 1.79, 0.48],
+    algol: [3.136, 40.96, 2.12, -0.05],
+    // Orion
+    betelgeuse: [5.919, 7.41, 0.5, 1.85],
+    rigel: [5.242, -8.2, 0.13, -0.03],
+    bellatrix: [5.419, 6.35, 1.64, -0.22],
+    saiph: [5.796, -9.67, 2.06, -0.17],
+    alnitak: [5.679, -1.94, 1.77, -0.21],
+    alnilam: [5.603, -1.2, 1.69, -0.18],
+    mintaka: [5.533, -0.3, 2.23, -0.22],
+    meissa: [5.585, 9.93, 3.39, -0.16],
+    // Canis Major and Canis Minor
+    sirius: [6.752, -16.72, -1.46, 0.0],
+    mirzam: [6.378, -17.96, 1.98, -0.23],
+    wezen: [7.14, -26.39, 1.83, 0.68],
+    adhara: [6.977, -28.97, 1.5, -0.21],
+    aludra: [7.402, -29.3, 2.45, -0.08],
+    procyon: [7.655, 5.22, 0.34, 0.42],
+    gomeisa: [7.453, 8.29, 2.89, -0.09],
+    // Gemini, Taurus and Auriga
+    castor: [7.577, 31.89, 1.58, 0.03],
+    pollux: [7.755, 28.03, 1.14, 1.0],
+    alhena: [6.629, 16.4, 1.93, 0.0],
+    wasat: [7.335, 21.98, 3.53, 0.34],
+    mebsuta: [6.732, 25.13, 2.98, 1.38],
+    tejat: [6.383, 22.51, 2.87, 1.64],
+    aldebaran: [4.599, 16.51, 0.86, 1.54],
+    elnath: [5.438, 28.61, 1.65, -0.13],
+    tianguan: [5.627, 21.14, 3.0, -0.19],
+    ain: [4.477, 19.18, 3.53, 1.01],
+    primaHyadum: [4.33, 15.63, 3.65, 0.99],
+    alcyone: [3.791, 24.11, 2.87, -0.09],
+    capella: [5.278, 46.0, 0.08, 0.8],
+    menkalinan: [5.992, 44.95, 1.9, 0.03],
+    mahasim: [5.995, 37.21, 2.62, -0.08],
+    hassaleh: [4.95, 33.17, 2.69, 1.53],
+    almaaz: [5.033, 43.82, 2.99, 0.54],
+    // Leo, Virgo, Hydra and Boötes
+    regulus: [10.14, 11.97, 1.35, -0.11],
+    etaLeo: [10.122, 16.76, 3.48, -0.03],
+    algieba: [10.333, 19.84, 2.08, 1.13],
+    adhafera: [10.278, 23.42, 3.43, 0.31],
+    rasalas: [9.879, 26.01, 3.88, 1.22],
+    epsilonLeo: [9.764, 23.77, 2.98, 0.81],
+    zosma: [11.235, 20.52, 2.56, 0.12],
+    chertan: [11.237, 15.43, 3.33, 0.0],
+    denebola: [11.818, 14.57, 2.14, 0.09],
+    spica: [13.42, -11.16, 0.97, -0.23],
+    alphard: [9.46, -8.66, 1.98, 1.44],
+    arcturus: [14.261, 19.18, -0.05, 1.23],
+    muphrid: [13.911, 18.4, 2.68, 0.58],
+    izar: [14.75, 27.07, 2.37, 0.97],
+    deltaBoo: [15.258, 33.31, 3.47, 0.95],
+    nekkar: [15.032, 40.39, 3.49, 0.95],
+    seginus: [14.535, 38.31, 3.04, 0.19],
+    // Scorpius and Sagittarius
+    acrab: [16.091, -19.81, 2.62, -0.07],
+    dschubba: [16.006, -22.62, 2.29, -0.12],
+    piSco: [15.981, -26.11, 2.89, -0.19],
+    antares: [16.49, -26.43, 1.06, 1.83],
+    tauSco: [16.598, -28.22, 2.82, -0.25],
+    larawag: [16.836, -34.29, 2.29, 1.15],
+    muSco: [16.864, -38.05, 3.0, -0.2],
+    zetaSco: [16.91, -42.36, 3.62, 1.37],
+    etaSco: [17.203, -43.24, 3.32, 0.41],
+    sargas: [17.622, -43.0, 1.86, 0.4],
+    iotaSco: [17.793, -40.13, 2.99, 0.51],
+    kappaSco: [17.708, -39.03, 2.39, -0.17],
+    shaula: [17.56, -37.1, 1.62, -0.22],
+    alnasl: [18.097, -30.42, 2.99, 1.0],
+    kausMedia: [18.35, -29.83, 2.7, 1.38],
+    kausAustralis: [18.403, -34.38, 1.85, -0.03],
+    kausBorealis: [18.466, -25.42, 2.81, 1.04],
+    phiSgr: [18.761, -26.99, 3.17, -0.11],
+    nunki: [18.921, -26.3, 2.05, -0.13],
+    tauSgr: [19.116, -27.67, 3.32, 1.19],
+    ascella: [19.044, -29.88, 2.6, 0.06],
+    // The Summer Triangle: Lyra, Cygnus and Aquila
+    vega: [18.616, 38.78, 0.03, 0.0],
+    zetaLyr: [18.746, 37.61, 4.34, 0.19],
+    sheliak: [18.835, 33.36, 3.52, 0.0],
+    sulafat: [18.982, 32.69, 3.25, -0.05],
+    deltaLyr: [18.908, 36.9, 4.3, 1.68],
+    deneb: [20.69, 45.28, 1.25, 0.09],
+    sadr: [20.37, 40.26, 2.23, 0.67],
+    etaCyg: [19.938, 35.08, 3.89, 1.02],
+    albireo: [19.512, 27.96, 3.05, 1.13],
+    gienah: [20.77, 33.97, 2.48, 1.03],
+    fawaris: [19.75, 45.13, 2.87, -0.03],
+    altair: [19.846, 8.87, 0.77, 0.22],
+    tarazed: [19.771, 10.61, 2.72, 1.52],
+    alshain: [19.922, 6.41, 3.71, 0.86],
+    okab: [19.09, 13.86, 2.99, 0.01],
+    deltaAql: [19.425, 3.11, 3.36, 0.32],
+    lambdaAql: [19.104, -4.88, 3.44, -0.09],
+    // Pegasus and Andromeda
+    markab: [23.079, 15.21, 2.49, -0.04],
+    scheat: [23.063, 28.08, 2.42, 1.67],
+    algenib: [0.221, 15.18, 2.83, -0.23],
+    alpheratz: [0.14, 29.09, 2.06, -0.11],
+    homam: [22.691, 10.83, 3.4, -0.09],
+    biham: [22.17, 6.2, 3.53, 0.08],
+    enif: [21.736, 9.88, 2.39, 1.53],
+    deltaAnd: [0.655, 30.86, 3.27, 1.28],
+    mirach: [1.162, 35.62, 2.05, 1.58],
+    almach: [2.065, 42.33, 2.1, 1.37],
+    // The southern sky
+    acrux: [12.443, -63.1, 0.76, -0.24],
+    mimosa: [12.795, -59.69, 1.25, -0.24],
+    gacrux: [12.519, -57.11, 1.59, 1.6],
+    imai: [12.252, -58.75, 2.79, -0.23],
+    rigilKentaurus: [14.66, -60.83, -0.27, 0.71],
+    hadar: [14.064, -60.37, 0.61, -0.23],
+    canopus: [6.399, -52.7, -0.74, 0.15],
+    achernar: [1.629, -57.24, 0.46, -0.16],
+    fomalhaut: [22.961, -29.62, 1.16, 0.09],
+}
+
+// Stick figures as runs of catalogue star names
+const CONSTELLATION_LINES: string[][] = [
+    ["dubhe", "merak", "phecda", "megrez", "dubhe"],
+    ["megrez", "alioth", "mizar", "alkaid"],
+    ["polaris", "yildun", "epsilonUMi", "zetaUMi", "kochab", "pherkad"],
+    ["pherkad", "etaUMi", "zetaUMi"],
+    ["caph", "schedar", "gammaCas", "ruchbah", "segin"],
+    ["mirfak", "algol"],
+    ["betelgeuse", "bellatrix", "mintaka", "rigel", "saiph", "alnitak"],
+    ["alnitak", "alnilam", "mintaka"],
+    ["alnitak", "betelgeuse", "meissa", "bellatrix"],
+    ["mirzam", "sirius", "adhara", "wezen", "aludra"],
+    ["sirius", "wezen"],
+    ["procyon", "gomeisa"],
+    ["castor", "mebsuta", "tejat"],
+    ["pollux", "wasat", "alhena"],
+    ["castor", "pollux"],
+    ["elnath", "ain", "primaHyadum", "aldebaran", "tianguan"],
+    ["capella", "menkalinan", "mahasim", "elnath", "hassaleh", "almaaz"],
+    ["almaaz", "capella"],
+    ["regulus", "etaLeo", "algieba", "adhafera", "rasalas", "epsilonLeo"],
+    ["algieba", "zosma", "denebola", "chertan", "regulus"],
+    ["zosma", "chertan"],
+    ["arcturus", "izar", "deltaBoo", "nekkar", "seginus", "arcturus"],
+    ["arcturus", "muphrid"],
+    ["acrab", "dschubba", "piSco"],
+    ["dschubba", "antares", "tauSco", "larawag", "muSco", "zetaSco"],
+    ["zetaSco", "etaSco", "sargas", "iotaSco", "kappaSco", "shaula"],
+    ["alnasl", "kausMedia", "kausBorealis", "phiSgr", "nunki", "tauSgr"],
+    ["tauSgr", "ascella", "kausAustralis", "alnasl"],
+    ["kausMedia", "kausAustralis"],
+    ["phiSgr", "ascella"],
+    ["vega", "zetaLyr", "sheliak", "sulafat", "deltaLyr", "zetaLyr"],
+    ["deneb", "sadr", "etaCyg", "albireo"],
+    ["gienah", "sadr", "fawaris"],
+    ["okab", "tarazed", "altair", "alshain"],
+    ["altair", "deltaAql", "lambdaAql"],
+    ["alpheratz", "scheat", "markab", "algenib", "alpheratz"],
+    ["markab", "homam", "biham", "enif"],
+    ["alpheratz", "deltaAnd", "mirach", "almach"],
+    ["acrux", "gacrux"],
+    ["mimosa", "imai"],
+    ["rigilKentaurus", "hadar"],
+]
+
+// Galactic north pole and centre, for the Milky Way band
+const GALACTIC_POLE: [number, number] = [12.857, 27.128]
+const GALACTIC_CENTER: [number, number] = [17.761, -28.936]
+
+// Blue-white hot stars through to orange-red cool ones
+const STAR_COLOR_STOPS: [number, string][] = [
+    [-0.3, "#a2b9ff"],
+    [0.0, "#cad7ff"],
+    [0.3, "#f6f4ff"],
+    [0.6, "#fff1de"],
+    [1.0, "#ffdcae"],
+    [1.5, "#ffc686"],
+    [2.0, "#ffae5e"],
+]
+
+const MAX_SHOOTING_STARS = 4
+const SHOOTING_STAR_TRAIL_POINTS = 12
+
+// A point on the celestial sphere, with x towards the March equinox and z
+// towards the north celestial pole
+function getCelestialVector(
+    rightAscension: number,
+    declination: number,
+    target = new THREE.Vector3()
+) {
+    const alpha = THREE.MathUtils.degToRad(rightAscension * 15)
+    const delta = THREE.MathUtils.degToRad(declination)
+    return target.set(
+        Math.cos(delta) * Math.cos(alpha),
+        Math.cos(delta) * Math.sin(alpha),
+        Math.sin(delta)
+    )
+}
+
+// Turns the celestial sphere into the sky seen from `latitude` at the given
+// sidereal time; `heading` turns it with the rest of the sky. The frame is
+// getSkyDirection's, north along -z and east along +x, and the basis below
+// is right-handed so the constellations aren't mirrored.
+function getCelestialMatrix(
+    siderealTime: number,
+    latitude: number,
+    heading: number,
+    target = new THREE.Matrix4()
+) {
+    const phi = THREE.MathUtils.degToRad(latitude)
+    const meridian = new THREE.Vector3(0, Math.cos(phi), Math.sin(phi))
+    const east = new THREE.Vector3(1, 0, 0)
+    const pole = new THREE.Vector3(0, Math.sin(phi), -Math.cos(phi))
+    // A turn about y the other way round from a bearing
+    return target
+        .makeRotationY(-THREE.MathUtils.degToRad(heading))
+        .multiply(new THREE.Matrix4().makeBasis(meridian, east, pole))
+        .multiply(new THREE.Matrix4().makeRotationZ(-siderealTime))
+}
+
+function getStarColor(colorIndex: number, target = new THREE.Color()) {
+    const stops = STAR_COLOR_STOPS
+    const last = stops.length - 1
+    const index = stops.findIndex(([stop]) => stop > colorIndex)
+    if (index <= 0) return target.set(stops[index === 0 ? 0 : last][1])
+    const [fromStop, from] = stops[index - 1]
+    const [toStop, to] = stops[index]
+    return target
+        .set(from)
+        .lerp(
+            new THREE.Color(to),
+            (colorIndex - fromStop) / (toStop - fromStop)
+        )
+}
+
+// Fades sky objects out as they sink below the horizon around the sky rig
+const SKY_HORIZON_FADE_VERTEX = `
+    vec3 skyDirection = normalize((modelMatrix * vec4(position, 1.0)).xyz - modelMatrix[3].xyz);
+    vHorizonFade = smoothstep(-0.02, 0.04, skyDirection.y);
+`
+
+function createCatalogueStars(radius: number) {
+    const positions: number[] = []
+    const colors: number[] = []
+    const sizes: number[] = []
+    const position = new THREE.Vector3()
+    const color = new THREE.Color()
+    Object.values(STAR_CATALOGUE).forEach(
+        ([rightAscension, declination, magnitude, colorIndex]) => {
+            getCelestialVector(rightAscension, declination, position)
+            positions.push(...position.multiplyScalar(radius).toArray())
+            // Each magnitude is ~2.5x fainter; past 1.5 they fade, not shrink
+            const brightness = Math.min(1, Math.pow(2.512, 1.5 - magnitude))
+            getStarColor(colorIndex, color).multiplyScalar(
+                0.35 + 0.65 * brightness
+            )
+            colors.push(color.r, color.g, color.b)
+            sizes.push(2.5 + Math.max(0, 4 - magnitude) * 1.3)
+        }
+    )
+
+    const geometry = new THREE.BufferGeometry()
+    geometry.setAttribute(
+        "position",
+        new THREE.Float32BufferAttribute(positions, 3)
+    )
+    geometry.setAttribute("color", new THREE.Float32BufferAttribute(colors, 3))
+    geometry.setAttribute(
+        "particleSize",
+        new THREE.Float32BufferAttribute(sizes, 1)
+    )
+
+    const material = new THREE.PointsMaterial({
+        map: createStarTexture(),
+        vertexColors: true,
+        transparent: true,
+        opacity: 0,
+        blending: THREE.AdditiveBlending,
+        depthWrite: false,
+        sizeAttenuation: false,
+        fog: false,
+    })
+    const uniforms = { time: { value: 0 } }
+    material.onBeforeCompile = (shader) => {
+        Object.assign(shader.uniforms, uniforms)
+        shader.vertexShader =
+            `
+            attribute float particleSize;
+            varying float vRand;
+            varying float vHorizonFade;
+        \n` +
+            shader.vertexShader.replace(
+                "#include <project_vertex>",
+                `
+            vRand = (position.x + position.y) * 10.0;
+            ${SKY_HORIZON_FADE_VERTEX}
+            #include <project_vertex>
+            gl_PointSize = particleSize * ( 200.0 / -mvPosition.z );
+            `
+            )
+        // A gentler twinkle than the background field; these are the
+        // stars people look for
+        shader.fragmentShader =
+            `
+            uniform float time;
+            varying float vRand;
+            varying float vHorizonFade;
+        \n` +
+            shader.fragmentShader.replace(
+                "vec4 diffuseColor = vec4( diffuse, opacity );",
+                `
+            float twinkleFactor = 0.5 * (1.0 + sin(time * 2.5 + vRand));
+            vec4 diffuseColor = vec4( diffuse, opacity * vHorizonFade * (0.8 + 0.2 * twinkleFactor) );
+            `
+            )
+    }
+
+    const stars = new THREE.Points(geometry, material)
+    stars.userData.setTime = (time: number) => {
+        uniforms.time.value = time
+    }
+    return stars
+}
+
+function createConstellationLines(radius: number) {
+    const positions: number[] = []
+    const point = new THREE.Vector3()
+    CONSTELLATION_LINES.forEach((names) => {
+        for (let i = 1; i < names.length; i++) {
+            ;[names[i - 1], names[i]].forEach((name) => {
+                const [rightAscension, declination] = STAR_CATALOGUE[name]
+                getCelestialVector(rightAscension, declination, point)
+                positions.push(...point.multiplyScalar(radius).toArray())
+            })
+        }
+    })
+
+    const geometry = new THREE.BufferGeometry()
+    geometry.setAttribute(
+        "position",
+        new THREE.Float32BufferAttribute(positions, 3)
+    )
+    const material = new THREE.LineBasicMaterial({
+        color: "#7f9cd6",
+        transparent: true,
+        opacity: 0,
+        blending: THREE.AdditiveBlending,
+        depthWrite: false,
+        fog: false,
+    })
+    material.onBeforeCompile = (shader) => {
+        shader.vertexShader =
+            `
+            varying float vHorizonFade;
+        \n` +
+            shader.vertexShader.replace(
+                "#include <project_vertex>",
+                `
+            ${SKY_HORIZON_FADE_VERTEX}
+            #include <project_vertex>
+            `
+            )
+        shader.fragmentShader =
+            `
+            varying float vHorizonFade;
+        \n` +
+            shader.fragmentShader.replace(
+                "vec4 diffuseColor = vec4( diffuse, opacity );",
+                "vec4 diffuseColor = vec4( diffuse, opacity * vHorizonFade );"
+            )
+    }
+    return new THREE.LineSegments(geometry, material)
+}
+
+function createMilkyWay(radius: number) {
+    const material = new THREE.ShaderMaterial({
+        uniforms: {
+            uOpacity: { value: 0 },
+            uIntensity: { value: 1 },
+            uGalacticPole: {
+                value: getCelestialVector(...GALACTIC_POLE),
+            },
+            uGalacticCenter: {
+                value: getCelestialVector(...GALACTIC_CENTER),
+            },
+        },
+        vertexShader: `
+            varying vec3 vCelestial;
+            varying float vHorizonFade;
+            void main() {
+                vCelestial = normalize(position);
+                ${SKY_HORIZON_FADE_VERTEX}
+                gl_Position = projectionMatrix * modelViewMatrix * vec4(position, 1.0);
+            }
+        `,
+        fragmentShader: `
+            uniform float uOpacity;
+            uniform float uIntensity;
+            uniform vec3 uGalacticPole;
+            uniform vec3 uGalacticCenter;
+            varying vec3 vCelestial;
+            varying float vHorizonFade;
+
+            float hash(vec3 p) {
+                return fract(sin(dot(p, vec3(127.1, 311.7, 74.7))) * 43758.5453);
+            }
+            float noise(vec3 p) {
+                vec3 i = floor(p);
+                vec3 f = fract(p);
+                f = f * f * (3.0 - 2.0 * f);
+                return mix(
+                    mix(
+                        mix(hash(i), hash(i + vec3(1.0, 0.0, 0.0)), f.x),
+                        mix(hash(i + vec3(0.0, 1.0, 0.0)), hash(i + vec3(1.0, 1.0, 0.0)), f.x),
+                        f.y
+                    ),
+                    mix(
+                        mix(hash(i + vec3(0.0, 0.0, 1.0)), hash(i + vec3(1.0, 0.0, 1.0)), f.x),
+                        mix(hash(i + vec3(0.0, 1.0, 1.0)), hash(i + vec3(1.0, 1.0, 1.0)), f.x),
+                        f.y
+                    ),
+                    f.z
+                );
+            }
+
+            void main() {
+                float latitude = dot(vCelestial, uGalacticPole);
+                float towardCenter = dot(vCelestial, uGalacticCenter) * 0.5 + 0.5;
+                // The band swells and brightens towards the galactic centre,
+                // with a dark dust lane running down its middle there
+                float width = mix(0.08, 0.2, towardCenter * towardCenter);
+                float band = exp(-latitude * latitude / (width * width));
+                float clouds = noise(vCelestial * 7.0) * 0.6 + noise(vCelestial * 19.0) * 0.4;
+                float rift = 1.0 - 0.6 * exp(-pow((latitude + 0.03 * (noise(vCelestial * 5.0) - 0.5)) / 0.03, 2.0))
+                    * smoothstep(0.5, 0.9, towardCenter);
+                float glow = band * rift * (0.3 + 0.7 * clouds) * mix(0.35, 1.0, pow(towardCenter, 3.0));
+                gl_FragColor = vec4(vec3(0.78, 0.84, 1.0) * glow * uIntensity * 0.35, uOpacity * vHorizonFade);
+            }
+        `,
+        side: THREE.BackSide,
+        transparent: true,
+        blending: THREE.AdditiveBlending,
+        depthWrite: false,
+    })
+    return new THREE.Mesh(new THREE.SphereGeometry(radius, 64, 32), material)
+}
+
+// Meteors streak across part of a great circle, their trails fading from a
+// bright head. They live in the sky rig's frame, not on the turning sphere.
+function createShootingStars(radius: number) {
+    const segmentCount = SHOOTING_STAR_TRAIL_POINTS - 1
+    const vertexCount = MAX_SHOOTING_STARS * segmentCount * 2
+    const geometry = new THREE.BufferGeometry()
+    geometry.setAttribute(
+        "position",
+        new THREE.BufferAttribute(new Float32Array(vertexCount * 3), 3)
+    )
+    geometry.setAttribute(
+        "color",
+        new THREE.BufferAttribute(new Float32Array(vertexCount * 3), 3)
+    )
+    const material = new THREE.LineBasicMaterial({
+        vertexColors: true,
+        transparent: true,
+        opacity: 0,
+        blending: THREE.AdditiveBlending,
+        depthWrite: false,
+        fog: false,
+    })
+    const lines = new THREE.LineSegments(geometry, material)
+    lines.frustumCulled = false
+
+    type Meteor = {
+        start: THREE.Vector3
+        axis: THREE.Vector3
+        arc: number // Radians travelled by the head
+        trail: number // Radians of trail behind it
+        startTime: number
+        duration: number
+    }
+    const meteors: (Meteor | null)[] = new Array(MAX_SHOOTING_STARS).fill(null)
+    const point = new THREE.Vector3()
+
+    const spawn = (now: number) => {
+        const slot = meteors.indexOf(null)
+        if (slot < 0) return
+        const start = getSkyDirection(
+            30 + Math.random() * 45,
+            Math.random() * 360
+        )
+        // Mostly downwards, at any slant
+        const heading = new THREE.Vector3(
+            Math.random() - 0.5,
+            -0.6 - Math.random() * 0.4,
+            Math.random() - 0.5
+        )
+        const axis = start.clone().cross(heading).normalize()
+        meteors[slot] = {
+            start,
+            axis,
+            arc: THREE.MathUtils.degToRad(10 + Math.random() * 15),
+            trail: THREE.MathUtils.degToRad(4 + Math.random() * 6),
+            startTime: now,
+            duration: 500 + Math.random() * 700,
+        }
+    }
+
+    lines.userData.update = (now: number, ratePerMinute: number) => {
+        // Poisson arrivals: each frame has a small chance of a new meteor
+        const elapsed = Math.min(now - (lines.userData.lastTime ?? now), 250)
+        lines.userData.lastTime = now
+        if (
+            ratePerMinute > 0 &&
+            material.opacity > 0.05 &&
+            Math.random() < (elapsed * ratePerMinute) / 60000
+        ) {
+            spawn(now)
+        }
+
+        const positions = geometry.attributes.position.array as Float32Array
+        const colors = geometry.attributes.color.array as Float32Array
+        colors.fill(0)
+        meteors.forEach((meteor, slot) => {
+            if (!meteor) return
+            const t = (now - meteor.startTime) / meteor.duration
+            if (t >= 1) {
+                meteors[slot] = null
+                return
+            }
+            const head = meteor.arc * t
+            const glow = Math.sin(Math.PI * t)
+            for (let i = 0; i < SHOOTING_STAR_TRAIL_POINTS; i++) {
+                const along = i / segmentCount
+                point
+                    .copy(meteor.start)
+                    .applyAxisAngle(
+                        meteor.axis,
+                        Math.max(0, head - along * meteor.trail)
+                    )
+                    .multiplyScalar(radius)
+                const brightness = glow * (1 - along) * (1 - along)
+                // Inner points end one segment and start the next
+                const vertices =
+                    i === 0
+                        ? [0]
+                        : i === segmentCount
+                          ? [2 * i - 1]
+                          : [2 * i - 1, 2 * i]
+                vertices.forEach((vertex) => {
+                    const offset = (slot * segmentCount * 2 + vertex) * 3
+                    point.toArray(positions, offset)
+                    colors[offset] = brightness
+                    colors[offset + 1] = brightness
+                    colors[offset + 2] = brightness * 0.9
+                })
+            }
+        })
+        geometry.attributes.position.needsUpdate = true
+        geometry.attributes.color.needsUpdate = true
+    }
+    return lines
+}
+
+// The night sky above the background star field: catalogue stars with
+// optional constellation lines and the Milky Way on a celestial sphere, plus
+// shooting stars. Everything shares the timeline's star opacity.
+function createNightSky(params: typeof initialParams) {
+    const nightSky = new THREE.Group()
+    const celestialSphere = new THREE.Group()
+    celestialSphere.matrixAutoUpdate = false
+    nightSky.add(celestialSphere)
+
+    const milkyWay = createMilkyWay(295)
+    const catalogueStars = createCatalogueStars(290)
+    const constellationLines = createConstellationLines(290)
+    const shootingStars = createShootingStars(250)
+    celestialSphere.add(milkyWay, catalogueStars, constellationLines)
+    nightSky.add(shootingStars)
+
+    const milkyWayUniforms = (milkyWay.material as THREE.ShaderMaterial)
+        .uniforms
+
+    nightSky.userData.orient = (
+        date: Date,
+        latitude: number,
+        longitude: number,
+        heading: number
+    ) => {
+        getCelestialMatrix(
+            getSiderealTime(toJulianDays(date), longitude),
+            latitude,
+            heading,
+            celestialSphere.matrix
+        )
+        celestialSphere.matrixWorldNeedsUpdate = true
+    }
+
+    nightSky.userData.setOpacity = (opacity: number) => {
+        ;(catalogueStars.material as THREE.PointsMaterial).opacity = opacity
+        ;(constellationLines.material as THREE.LineBasicMaterial).opacity =
+            opacity * 0.45
+        ;(shootingStars.material as THREE.LineBasicMaterial).opacity = opacity
+        milkyWayUniforms.uOpacity.value = opacity
+        nightSky.visible = opacity > 0
+    }
+
+    nightSky.userData.update = () => {
+        const now = performance.now()
+        catalogueStars.userData.setTime(now / 1000)
+        constellationLines.visible = params.showConstellations
+        milkyWay.visible = params.milkyWayIntensity > 0
+        milkyWayUniforms.uIntensity.value = params.milkyWayIntensity
+        shootingStars.userData.update(now, params.shootingStarRate)
+    }
+
+    nightSky.userData.dispose = () => {
+        ;[milkyWay, catalogueStars, constellationLines, shootingStars].forEach(
+            (object) => {
+                object.geometry.dispose()
+                const material = object.material as THREE.Material & {
+                    map?: THREE.Texture | null
+                }
+                material.map?.dispose()
+                material.dispose()
+            }
+        )
+    }
+
+    return nightSky
+}
+
+function createHemisphereLight() {
+    return new THREE.HemisphereLight(
+        initialParams.hemisphereSkyColor,
+        initialParams.hemisphereGroundColor,
+        initialParams.hemisphereIntensity
+    )
+}
+
+function createDirectionalLight() {
+    const light = new THREE.DirectionalLight(
+        initialParams.sunColor,
+        initialParams.lightIntensity
+    )
+    light.castShadow = true
+    light.shadow.mapSize.set(1024, 1024)
+    light.shadow.camera.top = 30
+    light.shadow.camera.bottom = -30
+    light.shadow.camera.left = -30
+    light.shadow.camera.right = 30
+    light.shadow.camera.near = 0.1
+    light.shadow.camera.far = 200
+    light.shadow.bias = initialParams.shadowBias
+    light.shadow.radius = initialParams.shadowRadius
+    return light
+}
+
+function createNeedleTexture(): THREE.CanvasTexture {
+    const size = 32
+    const canvas = document.createElement("canvas")
+    canvas.width = 4
+    canvas.height = size
+    const context = canvas.getContext("2d")
+    if (!context) {
+        throw new Error("Could not get 2D context from canvas")
+    }
+
+    context.fillStyle = "#4a6b5a"
+    context.fillRect(0, 0, 4, size)
+
+    context.fillStyle = "rgba(255, 255, 255, 0.15)"
+    context.fillRect(1, 0, 1, size)
+
+    context.fillStyle = "rgba(0, 0, 0, 0.1)"
+    context.fillRect(3, 0, 1, size)
+
+    const texture = new THREE.CanvasTexture(canvas)
+    texture.wrapS = THREE.RepeatWrapping
+    texture.wrapT = THREE.RepeatWrapping
+    texture.needsUpdate = true
+    return texture
+}
+
+function createPineTrees(
+    treeGeometry: THREE.BufferGeometry,
+    needleTexture: THREE.Texture,
+    waters: Waters,
+    terrain: Terrain,
+    wind: Wind,
+    cloudShadows: CloudShadows,
+    season: Season
+) {
+    const treeMaterial = new THREE.MeshToonMaterial({
+        vertexColors: true,
+        map: needleTexture,
+    })
+
+    treeMaterial.onBeforeCompile = (shader) => {
+        shader.uniforms.time = { value: 0 }
+        shader.uniforms.uMousePos = {
+            value: new THREE.Vector3(9999, 9999, 9999),
+        }
+
+        Object.assign(shader.uniforms, wind.uniforms, season.uniforms)
+
+        shader.vertexShader =
+            `
+            uniform float time;
+            uniform vec3 uMousePos;
+            varying float vSnowCover;
+            ${WIND_GLSL}
+            ${SEASON_GLSL}
+        \n` + shader.vertexShader
+        shader.fragmentShader =
+            `
+            varying float vSnowCover;
+            ${SEASON_GLSL}
+        \n` + shader.fragmentShader
+
+        shader.vertexShader = shader.vertexShader.replace(
+            "#include <begin_vertex>",
+            `
+                #include <begin_vertex>
+
+                // Wind: the crown bends downwind more than the trunk and
+                // rocks slowly, in the trunk's own turned and scaled space
+                // (see the grass shader)
+                vec3 treeRoot = (instanceMatrix * vec4(0.0, 0.0, 0.0, 1.0)).xyz;
+                float treeBend = pow(max(position.y, 0.0) / 7.5, 2.0);
+                float treeRock = sin(uWindTime * 1.1 + dot(treeRoot.xz, uWindDirection) * 0.3);
+                mat3 treeBasis = mat3(instanceMatrix);
+                vec3 treeWindLocal = transpose(treeBasis) * vec3(uWindDirection.x, 0.0, uWindDirection.y)
+                    / max(dot(treeBasis[0], treeBasis[0]), 1e-6);
+                transformed += treeWindLocal * getWind(treeRoot.xz) * (0.25 + 0.1 * treeRock) * treeBend;
+
+                vec4 instanceWorldPosition = instanceMatrix * vec4(position, 1.0);
+                float dist = distance(instanceWorldPosition.xz, uMousePos.xz);
+                float pushRadius = 6.0;
+                float pushStrength = 0.4;
+
+                if (dist < pushRadius) {
+                    float falloff = 1.0 - dist / pushRadius;
+                    falloff = pow(falloff, 2.0);
+                    
+                    vec3 pushDir = normalize(instanceWorldPosition.xyz - uMousePos);
+                    pushDir.y = 0.0;
+                    
+                    float heightFactor = position.y / 7.5;
+                    
+                    transformed.xyz += pushDir * falloff * pushStrength * heightFactor;
+                }
+
+                // Snow lies on the upward-facing needles
+                vSnowCover = getSnowCover(
+                    instanceWorldPosition.xyz,
+                    normalize(mat3(instanceMatrix) * normal).y
+                );
+            `
+        )
+        // Needles are greener than red, the trunk is not, so only the
+        // needles take the season's colour
+        shader.fragmentShader = shader.fragmentShader.replace(
+            "#include <color_fragment>",
+            `
+                #include <color_fragment>
+                float needles = step(vColor.r, vColor.g);
+                diffuseColor.rgb = mix(
+                    diffuseColor.rgb,
+                    uSeasonFoliageColor * (0.5 + dot(vColor.rgb, vec3(0.33))),
+                    uSeasonFoliageAmount * needles
+                );
+                diffuseColor.rgb = mix(diffuseColor.rgb, SNOW_COLOR, vSnowCover * needles);
+            `
+        )
+        addCloudShadows(shader, cloudShadows)
+        treeMaterial.userData.shader = shader
+    }
+
+    // "Tree Density" keeps its original meaning (trees per 50x50 meadow), so
+    // each chunk gets a share of that density rounded stochastically
+    const legacyMeadowArea = 50 * 50
+    const chunkArea = CHUNK_SIZE * CHUNK_SIZE
+    const treesPerChunk = Math.ceil(
+        (maxTreeCount * chunkArea) / legacyMeadowArea
+    )
+    let treeCount = initialParams.treeCount
+
+    const treeMesh = new THREE.InstancedMesh(
+        treeGeometry,
+        treeMaterial,
+        treesPerChunk * getChunkSlotCount(TREE_CHUNK_RADIUS)
+    )
+    treeMesh.castShadow = true
+    treeMesh.receiveShadow = true
+
+    const dummy = new THREE.Object3D()
+
+    const fillChunk = (slot: number, cx: number, cz: number, seed: number) => {
+        const random = createRandom(seed, `trees:${cx},${cz}`)
+        const expected = (treeCount * chunkArea) / legacyMeadowArea
+        const count = Math.min(treesPerChunk, Math.floor(expected + random()))
+
+        for (let j = 0; j < treesPerChunk; j++) {
+            const x = (cx + random()) * CHUNK_SIZE
+            const z = (cz + random()) * CHUNK_SIZE
+            const rotation = random() * Math.PI * 2
+            const scale = 1.2 + random() * 0.8
+
+            const isValid =
+                j < count &&
+                !waters.isInsideWater(x, z, 2) &&
+                !(Math.abs(x) < 20 && Math.abs(z) < 20) // Keep the spawn area open
+
+            // Sink the trunk a little so roots don't float on slopes
+            dummy.position.set(x, terrain.getHeightAt(x, z) - 0.2, z)
+            dummy.rotation.y = rotation
+            dummy.scale.setScalar(isValid ? scale : 0)
+            dummy.updateMatrix()
+            treeMesh.setMatrixAt(slot * treesPerChunk + j, dummy.matrix)
+        }
+    }
+
+    const chunkLayer: ChunkLayer = {
+        radius: TREE_CHUNK_RADIUS,
+        fillChunk,
+        onChunksChanged: () => {
+            treeMesh.instanceMatrix.needsUpdate = true
+            treeMesh.computeBoundingSphere()
+        },
+    }
+
+    // --- User Data Functions for GUI control ---
+    treeMesh.userData.chunkLayer = chunkLayer
+    treeMesh.userData.setTreeCount = (count: number) => {
+        treeCount = count
+    }
+
+    return treeMesh
+}
+
+// --- Day Clock ---
+// Drives timeOfDay on its own: "cycle" runs a full day every dayLengthSeconds
+// (sped up by timeScale) and "wallClock" follows the user's local time.
+type DayClock = {
+    update: () => void
+}
+
+function createDayClock(
+    params: typeof initialParams,
+    setTime: (timeOfDay: number) => void
+): DayClock {
+    let lastUpdate = performance.now()
+
+    const update = () => {
+        const now = performance.now()
+        const elapsedSeconds = (now - lastUpdate) / 1000
+        lastUpdate = now
+        if (params.clockPaused) return
+
+        if (params.clockMode === "wallClock") {
+            const date = new Date()
+            setTime(
+                date.getHours() +
+                    date.getMinutes() / 60 +
+                    date.getSeconds() / 3600
             )
+        } else if (params.clockMode === "cycle") {
+            const hours =
+                (elapsedSeconds * params.timeScale * 24) /
+                Math.max(params.dayLengthSeconds, 1)
+            setTime((params.timeOfDay + hours) % 24)
         }
     }
 
-    public dispose() {
-        this.disposeEventListeners()
-        this.orbs.forEach((orb) => this.scene.remove(orb))
-        if (this.specialOrb)
-            this.scene.remove(this.specialOrb)
+    return { update }
+}
 
-            // Particle cleanup
-        ;[
-            ...this.activeParticles.map((p) => p.mesh),
-            ...this.particlePool,
-        ].forEach((mesh) => {
-            this.scene.remove(mesh)
-            ;(mesh.material as THREE.Material).dispose()
-        })
-        this.activeParticles = []
-        this.particlePool = []
-        this.particleGeometry.dispose()
-        this.particleMaterial.dispose()
+// --- Weather ---
+// A small state machine over six kinds of weather. Each state is a set of
+// target conditions; changing state blends towards them over
+// weatherTransitionSeconds, and in auto mode the sky drifts on its own to a
+// neighbouring state every so often.
+type WeatherState =
+    "clear" | "cloudy" | "overcast" | "drizzle" | "rain" | "storm"
+
+type WeatherConditions = {
+    cloudCover: number // 0-1, from the chosen cloud count up to every cloud
+    cloudDarkness: number // 0-1, how grey the clouds turn
+    overcast: number // 0-1, how far the grey dome closes over the sky
+    rain: number // 0-1 share of rain drops falling
+    wetness: number // 0-1 darkening of the ground and grass
+    fogDensity: number // Added to params.fogDensity
+    lightDimming: number // 0-1 cut to the sun and sky light
+    lightning: number // Strikes per minute
+}
 
-        this.scene.remove(this.player)
-        this.player.geometry.dispose()
-        ;(this.player.material as THREE.Material).dispose()
-        this.orbGeometry.dispose()
-        this.orbMaterial.dispose()
-        this.specialOrbMaterial.dispose()
-    }
+const WEATHER_STATES: Record<WeatherState, WeatherConditions> = {
+    clear: {
+        cloudCover: 0,
+        cloudDarkness: 0,
+        overcast: 0,
+        rain: 0,
+        wetness: 0,
+        fogDensity: 0,
+        lightDimming: 0,
+        lightning: 0,
+    },
+    cloudy: {
+        cloudCover: 0.5,
+        cloudDarkness: 0.15,
+        overcast: 0.15,
+        rain: 0,
+        wetness: 0,
+        fogDensity: 0.003,
+        lightDimming: 0.15,
+        lightning: 0,
+    },
+    overcast: {
+        cloudCover: 1,
+        cloudDarkness: 0.45,
+        overcast: 0.6,
+        rain: 0,
+        wetness: 0,
+        fogDensity: 0.008,
+        lightDimming: 0.4,
+        lightning: 0,
+    },
+    drizzle: {
+        cloudCover: 1,
+        cloudDarkness: 0.55,
+        overcast: 0.7,
+        rain: 0.25,
+        wetness: 0.5,
+        fogDensity: 0.012,
+        lightDimming: 0.5,
+        lightning: 0,
+    },
+    rain: {
+        cloudCover: 1,
+        cloudDarkness: 0.7,
+        overcast: 0.8,
+        rain: 0.65,
+        wetness: 0.9,
+        fogDensity: 0.018,
+        lightDimming: 0.6,
+        lightning: 0.5,
+    },
+    storm: {
+        cloudCover: 1,
+        cloudDarkness: 0.9,
+        overcast: 0.92,
+        rain: 1,
+        wetness: 1,
+        fogDensity: 0.025,
+        lightDimming: 0.75,
+        lightning: 8,
+    },
 }
 
-// --- FROM App.tsx (Main Component) ---
-// --- Configuration ---
-const initialParams = {
-    // World
-    timeOfDay: 10.0, // 0-24 hours, 10 AM
+// Where auto mode may go next from each state
+const WEATHER_NEIGHBORS: Record<WeatherState, WeatherState[]> = {
+    clear: ["cloudy"],
+    cloudy: ["clear", "overcast"],
+    overcast: ["cloudy", "drizzle", "rain"],
+    drizzle: ["overcast", "rain"],
+    rain: ["drizzle", "overcast", "storm"],
+    storm: ["rain"],
+}
 
-    // Default Preset Values
-    groundColor: "#2fa753",
-    monolithColor: "#586F7C",
-    grassBaseColor: "#a7c957",
-    grassTipColor: "#55aa6f",
+// Soaking up rain is quicker than drying out again
+const WETTING_SECONDS = 15
+const DRYING_SECONDS = 90
 
-    // Lighting
-    lightIntensity: 1.5,
-    sunColor: "#ffcb8e",
-    hemisphereSkyColor: "#bde0fe",
-    hemisphereGroundColor: "#6a994e",
-    hemisphereIntensity: 0.6,
+type Weather = {
+    conditions: WeatherConditions
+    setState: (state: WeatherState) => void
+    update: () => void
+    refresh: () => void
+}
 
-    // Shadows
-    shadowBias: -0.0005,
-    shadowRadius: 8.2,
+function createWeather(
+    params: typeof initialParams,
+    applyConditions: (conditions: WeatherConditions) => void
+): Weather {
+    const conditions = { ...WEATHER_STATES[params.weather as WeatherState] }
+    let from = { ...conditions }
+    let to = conditions
+    let startTime = 0
+    let duration = 0
+    let transitioning = false
+    let lastUpdate = performance.now()
+    let lastAutoChange = 0
+    let autoChangeJitter = 1
+
+    const scheduleAutoChange = (now: number) => {
+        // Jitter the interval so changes do not tick like a metronome
+        lastAutoChange = now
+        autoChangeJitter = 0.5 + Math.random()
+    }
 
-    // Sky & Sun
-    turbidity: 10.3,
-    rayleigh: 0.582,
-    mieCoefficient: 0.015,
-    mieDirectionalG: 0.361,
-    elevation: 21.1,
-    azimuth: 180,
+    const setState = (state: WeatherState) => {
+        if (!WEATHER_STATES[state]) return // e.g. from a hand-edited scene file
+        from = { ...conditions }
+        to = WEATHER_STATES[state]
+        startTime = performance.now()
+        duration = params.weatherTransitionSeconds * 1000
+        transitioning = true
+        scheduleAutoChange(startTime)
+    }
 
-    // Flora
-    grassCount: 50000,
-    treeCount: 5,
+    const update = () => {
+        const now = performance.now()
+        const elapsedSeconds = (now - lastUpdate) / 1000
+        lastUpdate = now
+
+        if (!params.weatherAuto) {
+            scheduleAutoChange(now)
+        } else if (
+            now - lastAutoChange >=
+            params.weatherChangeMinutes * 60000 * autoChangeJitter
+        ) {
+            const options = WEATHER_NEIGHBORS[params.weather as WeatherState]
+            params.weather = options[Math.floor(Math.random() * options.length)]
+            setState(params.weather as WeatherState)
+        }
 
-    // Post-processing
-    bloomStrength: 0.4,
-    bloomThreshold: 1,
-    bloomRadius: 0.2,
+        let changed = false
+        if (transitioning) {
+            const t =
+                duration > 0 ? Math.min((now - startTime) / duration, 1) : 1
+            const eased = THREE.MathUtils.smoothstep(t, 0, 1)
+            ;(Object.keys(conditions) as (keyof WeatherConditions)[]).forEach(
+                (key) => {
+                    if (key !== "wetness") {
+                        conditions[key] = THREE.MathUtils.lerp(
+                            from[key],
+                            to[key],
+                            eased
+                        )
+                    }
+                }
+            )
+            transitioning = t < 1
+            changed = true
+        }
 
-    // Water Ripples
-    waterFlowSpeed: 0.5,
-    rippleIntensity: 0.1,
-    rippleScale: 2.0,
-    rippleSpeed: 0.03,
-    interactiveRippleRadius: 5.0,
-    interactiveRippleStrength: 0.15,
-    waterDistortion: 0.0,
+        // Wetness follows the rain at its own pace rather than the transition
+        const wetnessGap = to.wetness - conditions.wetness
+        if (Math.abs(wetnessGap) > 0.001) {
+            const seconds = wetnessGap > 0 ? WETTING_SECONDS : DRYING_SECONDS
+            conditions.wetness +=
+                wetnessGap * Math.min(elapsedSeconds / seconds, 1)
+            changed = true
+        }
 
-    // Clouds
-    cloudColor: "#ffffff",
-    cloudCount: 10,
+        if (changed) applyConditions(conditions)
+    }
 
-    // Fog
-    fogColor: "#c5d1d9",
-    fogDensity: 0.015,
+    scheduleAutoChange(lastUpdate)
 
-    // Stars
-    starCount: 5000,
-    starBaseSize: 1.5,
-    starColor: "#ffffff",
+    return {
+        conditions,
+        setState,
+        update,
+        refresh: () => applyConditions(conditions),
+    }
 }
 
-const maxGrassCount = 50000
-const maxCloudCount = 50
-const maxTreeCount = 5
-const maxStarCount = 20000
+// --- Lightning ---
+// Bolts fork down from a cloud to the ground, or leap across the sky far
+// beyond the fog where only their flash is seen. Each strike flickers
+// through a few return strokes, lighting the sky for a fraction of a second.
+const LIGHTNING_NEARBY_CHANCE = 0.5
+const SPEED_OF_SOUND = 343 // m/s
+
+type Lightning = {
+    getFlash: () => number // 0-1 brightness of the current flash
+    update: (strikesPerMinute: number, center: THREE.Vector3) => boolean
+    dispose: () => void
+}
 
-// --- Scene Element Creators ---
-function createMoon() {
-    const moonSize = 20
-    const textureSize = 128
-    const canvas = document.createElement("canvas")
-    canvas.width = textureSize
-    canvas.height = textureSize
-    const context = canvas.getContext("2d")
-    if (!context) {
-        throw new Error("Could not get 2D context from canvas")
+function createBoltGeometry(start: THREE.Vector3, end: THREE.Vector3) {
+    const positions: number[] = []
+
+    // Midpoint displacement: each pass splits every segment and nudges the
+    // new point sideways by a share of the segment's length
+    const addBranch = (
+        from: THREE.Vector3,
+        to: THREE.Vector3,
+        detail: number,
+        spread: number
+    ) => {
+        let points = [from.clone(), to.clone()]
+        for (let level = 0; level < detail; level++) {
+            const next = [points[0]]
+            for (let i = 1; i < points.length; i++) {
+                const a = points[i - 1]
+                const b = points[i]
+                const offset = a.distanceTo(b) * spread
+                const mid = a.clone().lerp(b, 0.5)
+                mid.x += (Math.random() - 0.5) * offset
+                mid.y += (Math.random() - 0.5) * offset * 0.3
+                mid.z += (Math.random() - 0.5) * offset
+                next.push(mid, b)
+            }
+            points = next
+        }
+        for (let i = 1; i < points.length; i++) {
+            positions.push(...points[i - 1].toArray(), ...points[i].toArray())
+        }
+        return points
     }
 
-    const centerX = textureSize / 2
-    const centerY = textureSize / 2
-    const radius = textureSize * 0.4
+    const trunk = addBranch(start, end, 6, 0.5)
+    const forkCount = 2 + Math.floor(Math.random() * 3)
+    for (let i = 0; i < forkCount; i++) {
+        // Forks leave the upper part of the trunk and die out in mid-air
+        const from = trunk[Math.floor(Math.random() * trunk.length * 0.6)]
+        const length = start.distanceTo(end) * (0.2 + Math.random() * 0.3)
+        const to = from
+            .clone()
+            .add(
+                new THREE.Vector3(
+                    (Math.random() - 0.5) * length,
+                    -length * (0.5 + Math.random() * 0.5),
+                    (Math.random() - 0.5) * length
+                )
+            )
+        addBranch(from, to, 4, 0.6)
+    }
 
-    // Soft glow
-    const grad = context.createRadialGradient(
-        centerX,
-        centerY,
-        radius * 0.5,
-        centerX,
-        centerY,
-        radius
+    const geometry = new THREE.BufferGeometry()
+    geometry.setAttribute(
+        "position",
+        new THREE.Float32BufferAttribute(positions, 3)
     )
-    grad.addColorStop(0, "rgba(255, 255, 240, 1.0)")
-    grad.addColorStop(0.8, "rgba(255, 255, 240, 0.5)")
-    grad.addColorStop(1, "rgba(255, 255, 240, 0)")
-
-    context.fillStyle = grad
-    context.fillRect(0, 0, textureSize, textureSize)
+    return geometry
+}
 
-    const texture = new THREE.CanvasTexture(canvas)
-    const material = new THREE.MeshBasicMaterial({
-        map: texture,
+function createLightning(
+    scene: THREE.Scene,
+    clouds: THREE.Group,
+    terrain: Terrain,
+    onStrike: (distance: number) => void
+): Lightning {
+    const boltMaterial = new THREE.LineBasicMaterial({
+        color: "#e8eeff",
         transparent: true,
         opacity: 0,
         blending: THREE.AdditiveBlending,
         depthWrite: false,
+        fog: false, // Bolts punch through rain and haze
     })
-    const geometry = new THREE.PlaneGeometry(moonSize, moonSize)
-    const moon = new THREE.Mesh(geometry, material)
-    return moon
+    const bolt = new THREE.LineSegments(
+        new THREE.BufferGeometry(),
+        boltMaterial
+    )
+    bolt.frustumCulled = false
+    bolt.renderOrder = 2
+    bolt.visible = false
+    scene.add(bolt)
+
+    // Lights the cloud it leaves and the ground below. It stays in the scene
+    // at zero intensity so strikes never change the light count (and with it
+    // every material's shader).
+    const cloudLight = new THREE.PointLight("#cfd8ff", 0, 0, 2)
+    scene.add(cloudLight)
+
+    let strokes: { time: number; strength: number }[] = []
+    let flash = 0
+    let lastUpdate = performance.now()
+    const cloudPosition = new THREE.Vector3()
+
+    const strike = (center: THREE.Vector3) => {
+        const now = performance.now()
+        const visibleClouds = clouds.children.filter((cloud) => cloud.visible)
+        const nearby =
+            visibleClouds.length > 0 && Math.random() < LIGHTNING_NEARBY_CHANCE
+
+        let distance: number
+        let strength: number
+        if (nearby) {
+            const cloud =
+                visibleClouds[Math.floor(Math.random() * visibleClouds.length)]
+            cloud.getWorldPosition(cloudPosition)
+            if (!clouds.visible) cloudPosition.y = CLOUD_LAYER_BOTTOM
+            const groundX = cloudPosition.x + (Math.random() - 0.5) * 20
+            const groundZ = cloudPosition.z + (Math.random() - 0.5) * 20
+            const end = new THREE.Vector3(
+                groundX,
+                terrain.getHeightAt(groundX, groundZ),
+                groundZ
+            )
+            bolt.geometry.dispose()
+            bolt.geometry = createBoltGeometry(cloudPosition, end)
+            cloudLight.position.copy(cloudPosition)
+            distance = center.distanceTo(cloudPosition.lerp(end, 0.5))
+            strength = 1
+        } else {
+            distance = 300 + Math.random() * 2700
+            strength = THREE.MathUtils.mapLinear(distance, 300, 3000, 0.6, 0.2)
+        }
+        bolt.visible = nearby
+
+        // A leader stroke then a few quick return strokes
+        strokes = [{ time: now, strength }]
+        const returnStrokes = 1 + Math.floor(Math.random() * 3)
+        for (let i = 0; i < returnStrokes; i++) {
+            strokes.push({
+                time:
+                    strokes[strokes.length - 1].time + 50 + Math.random() * 100,
+                strength: strength * (0.5 + Math.random() * 0.5),
+            })
+        }
+        onStrike(distance)
+    }
+
+    const update = (strikesPerMinute: number, center: THREE.Vector3) => {
+        const now = performance.now()
+        const elapsed = Math.min(now - lastUpdate, 250)
+        lastUpdate = now
+        if (
+            strikesPerMinute > 0 &&
+            Math.random() < (elapsed * strikesPerMinute) / 60000
+        ) {
+            strike(center)
+        }
+        if (strokes.length === 0) return false
+
+        flash = 0
+        strokes.forEach((stroke) => {
+            if (now >= stroke.time) {
+                flash = Math.max(
+                    flash,
+                    stroke.strength * Math.exp(-(now - stroke.time) / 60)
+                )
+            }
+        })
+        if (now > strokes[strokes.length - 1].time + 500) {
+            strokes = []
+            flash = 0
+            bolt.visible = false
+        }
+        boltMaterial.opacity = Math.min(1, flash * 2)
+        cloudLight.intensity = bolt.visible ? flash * 4000 : 0
+        return true
+    }
+
+    const dispose = () => {
+        bolt.geometry.dispose()
+        boltMaterial.dispose()
+    }
+
+    return { getFlash: () => flash, update, dispose }
 }
 
-function createStarTexture(): THREE.CanvasTexture {
-    const size = 64
-    const canvas = document.createElement("canvas")
-    canvas.width = size
-    canvas.height = size
-    const context = canvas.getContext("2d")
-    if (!context) {
-        throw new Error("Could not get 2D context")
+// --- Thunder ---
+// Synthesised with Web Audio from filtered noise: a sharp crack for strikes
+// close by, then a long rumble. Sound arrives distance / 343 seconds after
+// the flash, and the air softens and quietens it the farther it travels.
+type Thunder = {
+    play: (distance: number, volume: number) => void
+    dispose: () => void
+}
+
+function createThunder(): Thunder {
+    let context: AudioContext | null = null
+    let rumbleNoise: AudioBuffer | null = null
+    let crackNoise: AudioBuffer | null = null
+
+    const getContext = () => {
+        if (context) return context
+        const AudioContextClass =
+            window.AudioContext ?? window.webkitAudioContext
+        if (!AudioContextClass) return null
+        context = new AudioContextClass()
+        const length = context.sampleRate * 4
+        rumbleNoise = context.createBuffer(1, length, context.sampleRate)
+        crackNoise = context.createBuffer(1, length, context.sampleRate)
+        const rumble = rumbleNoise.getChannelData(0)
+        const crack = crackNoise.getChannelData(0)
+        // Brown noise (integrated white noise) for the low rumble
+        let last = 0
+        for (let i = 0; i < length; i++) {
+            const white = Math.random() * 2 - 1
+            crack[i] = white
+            last = (last + 0.02 * white) / 1.02
+            rumble[i] = last * 3.5
+        }
+        return context
     }
 
-    const centerX = size / 2
-    const centerY = size / 2
-    const radius = size / 2
+    const playNoise = (
+        audio: AudioContext,
+        buffer: AudioBuffer,
+        filterType: BiquadFilterType,
+        frequency: number,
+        start: number,
+        duration: number,
+        shapeGain: (gain: AudioParam) => void
+    ) => {
+        const source = audio.createBufferSource()
+        source.buffer = buffer
+        source.loop = true
+        const filter = audio.createBiquadFilter()
+        filter.type = filterType
+        filter.frequency.value = frequency
+        const gain = audio.createGain()
+        gain.gain.setValueAtTime(0, audio.currentTime)
+        shapeGain(gain.gain)
+        source.connect(filter).connect(gain).connect(audio.destination)
+        source.start(start, Math.random() * buffer.duration)
+        source.stop(start + duration)
+    }
 
-    const gradient = context.createRadialGradient(
-        centerX,
-        centerY,
-        0,
-        centerX,
-        centerY,
-        radius
-    )
-    gradient.addColorStop(0, "rgba(255, 255, 255, 1.0)")
-    gradient.addColorStop(0.2, "rgba(255, 255, 255, 0.8)")
-    gradient.addColorStop(1, "rgba(255, 255, 255, 0)")
+    const play = (distance: number, volume: number) => {
+        if (volume <= 0) return
+        const audio = getContext()
+        if (!audio || !rumbleNoise || !crackNoise) return
+        // Browsers hold audio until the page has been interacted with
+        if (audio.state === "suspended") audio.resume().catch(() => {})
+
+        const start = audio.currentTime + distance / SPEED_OF_SOUND
+        const far = THREE.MathUtils.clamp(distance / 3000, 0, 1)
+        const loudness = volume / (1 + distance / 500)
+        const duration = 3 + Math.random() * 3 + far * 2
+
+        if (distance < 300) {
+            playNoise(
+                audio,
+                crackNoise,
+                "bandpass",
+                1800,
+                start,
+                0.4,
+                (gain) => {
+                    gain.setValueAtTime(0, start)
+                    gain.linearRampToValueAtTime(loudness * 0.8, start + 0.01)
+                    gain.exponentialRampToValueAtTime(0.0001, start + 0.35)
+                }
+            )
+        }
+        playNoise(
+            audio,
+            rumbleNoise,
+            "lowpass",
+            THREE.MathUtils.lerp(900, 150, far),
+            start,
+            duration + 0.5,
+            (gain) => {
+                gain.setValueAtTime(0, start)
+                gain.linearRampToValueAtTime(loudness, start + 0.05 + far * 0.5)
+                // Echoes off the clouds come back as uneven rolls
+                let time = start + 0.3
+                while (time < start + duration * 0.7) {
+                    gain.setTargetAtTime(
+                        loudness * (0.3 + Math.random() * 0.7),
+                        time,
+                        0.15
+                    )
+                    time += 0.3 + Math.random() * 0.6
+                }
+                gain.setTargetAtTime(0.0001, time, duration * 0.15)
+            }
+        )
+    }
 
-    context.fillStyle = gradient
-    context.fillRect(0, 0, size, size)
+    return {
+        play,
+        dispose: () => {
+            context?.close()
+        },
+    }
+}
+
+// --- Visual Presets ---
+// A preset is the look of the scene: every color and numeric param except the
+// ones that rebuild geometry or reshape the world when they change.
+type VisualPreset = Partial<typeof initialParams>
+
+const PRESET_EXCLUDED_PARAMS: (keyof typeof initialParams)[] = [
+    "seed",
+    "clockMode",
+    "clockPaused",
+    "dayLengthSeconds",
+    "timeScale",
+    "astronomyMode",
+    "latitude",
+    "longitude",
+    "astronomyDate",
+    "moonPhase",
+    "showConstellations",
+    "weather",
+    "weatherAuto",
+    "weatherChangeMinutes",
+    "weatherTransitionSeconds",
+    "thunderVolume",
+    "windDirection",
+    "windStrength",
+    "windGustiness",
+    "season",
+    "seasonFromDate",
+    "cloudRenderer",
+    "cloudQuality",
+    "grassCount",
+    "treeCount",
+    "starCount",
+    "grassPaths",
+    "grassClearing",
+    "grassShoreThinning",
+    "grassPatchiness",
+]
+
+// Params that wrap around, blended the short way round
+const PRESET_CYCLIC_PARAMS: Partial<
+    Record<keyof typeof initialParams, number>
+> = {
+    timeOfDay: 24,
+    azimuth: 360,
+}
+
+// Params whose change handlers redo a lot of work (recolouring every grass
+// blade, rebuilding the stars), stepped a few times a second during a fade
+// instead of every frame
+const PRESET_THROTTLED_PARAMS: (keyof typeof initialParams)[] = [
+    "grassBaseColor",
+    "starColor",
+    "starBaseSize",
+]
+const PRESET_THROTTLE_MS = 250
+
+const USER_PRESETS_KEY = "serene-grassland:presets"
+
+function pickPresetParams(params: typeof initialParams): VisualPreset {
+    const preset: VisualPreset = {}
+    ;(Object.keys(params) as (keyof typeof initialParams)[]).forEach((key) => {
+        if (!PRESET_EXCLUDED_PARAMS.includes(key)) {
+            setParam(preset, key, params[key])
+        }
+    })
+    return preset
+}
+
+// Built-in presets start from the defaults, so switching between any two of
+// them always resets everything the previous one changed
+const VISUAL_PRESETS: Record<string, VisualPreset> = {
+    Default: pickPresetParams(initialParams),
+    "Ghibli Summer": {
+        ...pickPresetParams(initialParams),
+        timeOfDay: 13,
+        groundColor: "#3cae4f",
+        grassBaseColor: "#b8d957",
+        grassTipColor: "#4fb06a",
+        lightIntensity: 1.8,
+        sunColor: "#fff1c9",
+        hemisphereSkyColor: "#a8d8ff",
+        hemisphereGroundColor: "#74a84a",
+        hemisphereIntensity: 0.8,
+        bloomStrength: 0.5,
+        rippleIntensity: 0.12,
+        cloudCount: 18,
+        fogColor: "#cfe3ee",
+        fogDensity: 0.01,
+    },
+    "Misty Dawn": {
+        ...pickPresetParams(initialParams),
+        timeOfDay: 6.3,
+        groundColor: "#4d8a5e",
+        grassBaseColor: "#8fb58a",
+        grassTipColor: "#6f9e86",
+        lightIntensity: 1.0,
+        sunColor: "#ffc9a3",
+        hemisphereSkyColor: "#d9d4e8",
+        hemisphereGroundColor: "#5b6e5a",
+        hemisphereIntensity: 0.9,
+        bloomStrength: 0.6,
+        bloomThreshold: 0.85,
+        bloomRadius: 0.5,
+        waterFlowSpeed: 0.2,
+        rippleIntensity: 0.04,
+        cloudColor: "#f4e6ee",
+        cloudCount: 6,
+        fogColor: "#d8d6de",
+        fogDensity: 0.045,
+    },
+    Autumn: {
+        ...pickPresetParams(initialParams),
+        timeOfDay: 16.5,
+        groundColor: "#8a7a3a",
+        monolithColor: "#6b5e57",
+        grassBaseColor: "#d4a048",
+        grassTipColor: "#b5652e",
+        lightIntensity: 1.4,
+        sunColor: "#ffb56b",
+        hemisphereSkyColor: "#f2d4a8",
+        hemisphereGroundColor: "#7a5a32",
+        bloomStrength: 0.45,
+        rippleIntensity: 0.15,
+        rippleSpeed: 0.05,
+        cloudColor: "#fff1de",
+        cloudCount: 14,
+        fogColor: "#e0c9a6",
+        fogDensity: 0.02,
+    },
+    Moonlit: {
+        ...pickPresetParams(initialParams),
+        timeOfDay: 23,
+        groundColor: "#1f5a48",
+        grassBaseColor: "#4f7a6a",
+        grassTipColor: "#2d5a5e",
+        lightIntensity: 0.4,
+        sunColor: "#aaccff",
+        hemisphereSkyColor: "#1b2f52",
+        hemisphereGroundColor: "#10241e",
+        hemisphereIntensity: 0.4,
+        bloomStrength: 0.8,
+        bloomThreshold: 0.6,
+        rippleIntensity: 0.06,
+        cloudColor: "#3a4a60",
+        cloudCount: 8,
+        fogColor: "#0b1724",
+        fogDensity: 0.02,
+        starBaseSize: 2.0,
+        starColor: "#dfe8ff",
+    },
+}
+
+// Saved presets are checked like a scene's params: only params this build
+// knows about, with matching types, are kept
+function readUserPreset(stored: Record<string, unknown>): VisualPreset {
+    const preset: VisualPreset = {}
+    ;(Object.keys(initialParams) as (keyof typeof initialParams)[]).forEach(
+        (key) => {
+            const value = stored[key]
+            if (
+                !PRESET_EXCLUDED_PARAMS.includes(key) &&
+                typeof value === typeof initialParams[key]
+            ) {
+                setParam(
+                    preset,
+                    key,
+                    value as (typeof initialParams)[typeof key]
+                )
+            }
+        }
+    )
+    return preset
+}
 
-    return new THREE.CanvasTexture(canvas)
+function loadUserPresets(): Record<string, VisualPreset> {
+    try {
+        const stored = localStorage.getItem(USER_PRESETS_KEY)
+        const presets: unknown = stored ? JSON.parse(stored) : {}
+        if (!isRecord(presets)) return {}
+        const userPresets: Record<string, VisualPreset> = {}
+        Object.entries(presets).forEach(([name, preset]) => {
+            if (isRecord(preset)) userPresets[name] = readUserPreset(preset)
+        })
+        return userPresets
+    } catch (error) {
+        console.warn("Could not read saved presets:", error)
+        return {}
+    }
 }
 
-function updateStarGeometry(
-    geometry: THREE.BufferGeometry,
-    params: {
-        count: number
-        baseSize: number
-        color: string | number | THREE.Color
+function saveUserPresets(presets: Record<string, VisualPreset>) {
+    try {
+        localStorage.setItem(USER_PRESETS_KEY, JSON.stringify(presets))
+    } catch (error) {
+        console.warn("Could not save presets:", error)
     }
-) {
-    const vertices = []
-    const colors = []
-    const sizes = []
+}
 
-    const radius = 300
-    const baseColor = new THREE.Color(params.color)
+const presetColorA = new THREE.Color()
+const presetColorB = new THREE.Color()
 
-    for (let i = 0; i < params.count; i++) {
-        const x = (Math.random() - 0.5) * 2 * radius
-        const y = Math.random() * radius * 0.8 + 50
-        const z = (Math.random() - 0.5) * 2 * radius
-        const magSq = x * x + y * y + z * z
-        if (magSq > radius * radius || magSq < radius * 0.8 * (radius * 0.8)) {
-            i--
-            continue
+// Writes the blend of two presets at `t` into `target`. Keys missing from
+// `to` are left out, so they keep whatever value they currently have.
+function blendPresets(
+    from: VisualPreset,
+    to: VisualPreset,
+    t: number,
+    target: VisualPreset
+) {
+    ;(Object.keys(to) as (keyof typeof initialParams)[]).forEach((key) => {
+        const a = from[key] ?? to[key]
+        const b = to[key]
+        let value = b
+        if (typeof a === "number" && typeof b === "number") {
+            const period = PRESET_CYCLIC_PARAMS[key]
+            if (period) {
+                const diff =
+                    ((((b - a) % period) + period * 1.5) % period) - period / 2
+                value = (a + diff * t + period) % period
+            } else {
+                value = THREE.MathUtils.lerp(a, b, t)
+            }
+        } else if (typeof a === "string" && typeof b === "string") {
+            presetColorA.set(a)
+            presetColorB.set(b)
+            value = `#${presetColorA.lerp(presetColorB, t).getHexString()}`
+        } else if (t < 1) {
+            value = a
         }
-        vertices.push(x, y, z)
-
-        const brightness = 0.5 + Math.random() * 0.5
-        colors.push(
-            baseColor.r * brightness,
-            baseColor.g * brightness,
-            baseColor.b * brightness
-        )
-
-        sizes.push(params.baseSize + Math.random() * 1.5)
-    }
+        setParam(target, key, value)
+    })
+    return target
+}
 
-    geometry.setAttribute(
-        "position",
-        new THREE.Float32BufferAttribute(vertices, 3)
-    )
-    geometry.setAttribute("color", new THREE.Float32BufferAttribute(colors, 3))
-    geometry.setAttribute(
-        "particleSize",
-        new THREE.Float32BufferAttribute(sizes, 1)
-    )
-    geometry.attributes.position.needsUpdate = true
-    geometry.attributes.color.needsUpdate = true
-    geometry.attributes.particleSize.needsUpdate = true
+type PresetCrossfade = {
+    start: (target: VisualPreset, seconds: number) => void
+    update: () => void
+    cancel: () => void
 }
 
-function createStars(params: {
-    count: number
-    baseSize: number
-    color: string | number | THREE.Color
-}) {
-    const starGeometry = new THREE.BufferGeometry()
-    updateStarGeometry(starGeometry, params)
+// Fades from the current params to a preset over time. `applyParams` pushes
+// each blended frame into the scene.
+function createPresetCrossfade(
+    params: typeof initialParams,
+    applyParams: (values: VisualPreset) => void
+): PresetCrossfade {
+    let from: VisualPreset | null = null
+    let to: VisualPreset = {}
+    let startTime = 0
+    let duration = 0
+    let lastThrottledUpdate = -Infinity
+    const blended: VisualPreset = {}
+
+    const update = () => {
+        if (!from) return
+        const now = performance.now()
+        const t = duration > 0 ? Math.min((now - startTime) / duration, 1) : 1
+        blendPresets(from, to, THREE.MathUtils.smoothstep(t, 0, 1), blended)
+        // The last frame always lands every param on the preset
+        const values = { ...blended }
+        if (t < 1 && now - lastThrottledUpdate < PRESET_THROTTLE_MS) {
+            PRESET_THROTTLED_PARAMS.forEach((key) => delete values[key])
+        } else {
+            lastThrottledUpdate = now
+        }
+        applyParams(values)
+        if (t >= 1) from = null
+    }
 
-    const starTexture = createStarTexture()
+    const start = (target: VisualPreset, seconds: number) => {
+        from = pickPresetParams(params)
+        to = target
+        startTime = performance.now()
+        duration = seconds * 1000
+        lastThrottledUpdate = -Infinity
+        update()
+    }
 
-    const starMaterial = new THREE.PointsMaterial({
-        map: starTexture,
-        vertexColors: true,
-        transparent: true,
-        opacity: 0,
-        blending: THREE.AdditiveBlending,
-        depthWrite: false,
-        sizeAttenuation: false,
-    })
+    return { start, update, cancel: () => (from = null) }
+}
 
-    starMaterial.onBeforeCompile = (shader) => {
-        shader.uniforms.time = { value: 0 }
-        shader.vertexShader =
-            `
-            attribute float particleSize;
-            varying float vRand;
-        \n` +
-            shader.vertexShader.replace(
-                "#include <project_vertex>",
-                `
-            vRand = (position.x + position.z) * 10.0;
-            #include <project_vertex>
-            gl_PointSize = particleSize * ( 200.0 / -mvPosition.z );
-            `
-            )
-        shader.fragmentShader =
-            `
-            uniform float time;
-            varying float vRand;
-        \n` +
-            shader.fragmentShader.replace(
-                "vec4 diffuseColor = vec4( diffuse, opacity );",
-                `
-            float twinkleFactor = 0.5 * (1.0 + sin(time * 2.0 + vRand));
-            twinkleFactor = pow(twinkleFactor, 2.0);
-            vec4 diffuseColor = vec4( diffuse, opacity * (0.5 + 0.5 * twinkleFactor) );
-            `
-            )
-        starMaterial.userData.shader = shader
+// --- Scene Document ---
+// A versioned JSON snapshot of everything the user can change: the panel
+// params (seed included), object placements, painted grass and the spectator
+// camera. Trees are not listed one by one, since they regrow identically from
+// the seed and tree density.
+const SCENE_DOCUMENT_VERSION = 2
+const SCENE_AUTOSAVE_KEY = "serene-grassland:scene"
+
+type SceneDocument = {
+    version: number
+    params: typeof initialParams
+    placements: {
+        monolith: { x: number; z: number }
+        waters: SerializedWaterBody[]
+        grassPaint: SerializedGrassPaint
     }
-
-    const stars = new THREE.Points(starGeometry, starMaterial)
-    stars.userData.update = (newParams: {
-        count: number
-        baseSize: number
-        color: string | number | THREE.Color
-    }) => {
-        updateStarGeometry(starGeometry, newParams)
+    camera: {
+        position: [number, number, number]
+        target: [number, number, number]
     }
+    lighting: LightingKeyframe[]
+}
 
-    return stars
+// A document as read back in, of this version or an older one. Nothing in
+// it is trusted until it has been migrated and checked.
+type StoredSceneDocument = Record<string, unknown> & { version: number }
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+    return typeof value === "object" && value !== null && !Array.isArray(value)
 }
 
-function createSky() {
-    const sky = new Sky()
-    sky.scale.setScalar(450000)
-    return sky
+function isFiniteNumber(value: unknown): value is number {
+    return typeof value === "number" && Number.isFinite(value)
 }
 
-function updateSunPosition(
-    sky: Sky,
-    directionalLight: THREE.DirectionalLight,
-    elevation: number,
-    azimuth: number
-) {
-    const sun = new THREE.Vector3()
-    const phi = THREE.MathUtils.degToRad(90 - elevation)
-    const theta = THREE.MathUtils.degToRad(azimuth)
-    sun.setFromSphericalCoords(1, phi, theta)
-    sky.material.uniforms["sunPosition"].value.copy(sun)
-    directionalLight.position.copy(sun).multiplyScalar(50)
+function readNumber(value: unknown, fallback: number) {
+    return isFiniteNumber(value) ? value : fallback
 }
 
-function createHemisphereLight() {
-    return new THREE.HemisphereLight(
-        initialParams.hemisphereSkyColor,
-        initialParams.hemisphereGroundColor,
-        initialParams.hemisphereIntensity
-    )
+function readVector3(
+    value: unknown,
+    fallback: [number, number, number]
+): [number, number, number] {
+    return Array.isArray(value) &&
+        value.length === 3 &&
+        value.every(isFiniteNumber)
+        ? [value[0], value[1], value[2]]
+        : fallback
 }
 
-function createDirectionalLight() {
-    const light = new THREE.DirectionalLight(
-        initialParams.sunColor,
-        initialParams.lightIntensity
+// A spline needs at least two points, and a closed one three to enclose
+// anything
+function isSerializedWaterBody(value: unknown): value is SerializedWaterBody {
+    if (
+        !isRecord(value) ||
+        typeof value.closed !== "boolean" ||
+        !isFiniteNumber(value.width) ||
+        value.width < 0 ||
+        !Array.isArray(value.points)
+    ) {
+        return false
+    }
+    return (
+        value.points.length >= (value.closed ? 3 : 2) &&
+        value.points.every(
+            (point) =>
+                Array.isArray(point) &&
+                point.length === 2 &&
+                point.every(isFiniteNumber)
+        )
     )
-    light.castShadow = true
-    light.shadow.mapSize.set(1024, 1024)
-    light.shadow.camera.top = 30
-    light.shadow.camera.bottom = -30
-    light.shadow.camera.left = -30
-    light.shadow.camera.right = 30
-    light.shadow.camera.near = 0.1
-    light.shadow.camera.far = 200
-    light.shadow.bias = initialParams.shadowBias
-    light.shadow.radius = initialParams.shadowRadius
-    return light
 }
 
-function createNeedleTexture(): THREE.CanvasTexture {
-    const size = 32
-    const canvas = document.createElement("canvas")
-    canvas.width = 4
-    canvas.height = size
-    const context = canvas.getContext("2d")
-    if (!context) {
-        throw new Error("Could not get 2D context from canvas")
+// Water that doesn't read can't be guessed at, so it rejects the whole
+// document rather than reshaping the land around whatever was left
+function readWaterBodies(
+    value: unknown,
+    fallback: SerializedWaterBody[]
+): SerializedWaterBody[] {
+    if (value === undefined) return fallback
+    if (!Array.isArray(value) || !value.every(isSerializedWaterBody)) {
+        throw new Error("Malformed water bodies")
     }
+    return value
+}
 
-    context.fillStyle = "#4a6b5a"
-    context.fillRect(0, 0, 4, size)
-
-    context.fillStyle = "rgba(255, 255, 255, 0.15)"
-    context.fillRect(1, 0, 1, size)
-
-    context.fillStyle = "rgba(0, 0, 0, 0.1)"
-    context.fillRect(3, 0, 1, size)
+// Paint laid out on another grid can't be carried over, so it rejects the
+// whole document. Cells that don't read are dropped.
+function readGrassPaint(
+    value: unknown,
+    fallback: SerializedGrassPaint
+): SerializedGrassPaint {
+    if (value === undefined) return fallback
+    if (
+        !isRecord(value) ||
+        value.version !== fallback.version ||
+        value.cellSize !== fallback.cellSize ||
+        !Array.isArray(value.cells)
+    ) {
+        throw new Error("Unsupported grass paint data")
+    }
+    const cells = value.cells.filter(
+        (cell): cell is SerializedGrassPaintCell =>
+            Array.isArray(cell) &&
+            cell.length === 6 &&
+            cell.slice(0, 5).every(isFiniteNumber) &&
+            typeof cell[5] === "string"
+    )
+    return { version: fallback.version, cellSize: fallback.cellSize, cells }
+}
 
-    const texture = new THREE.CanvasTexture(canvas)
-    texture.wrapS = THREE.RepeatWrapping
-    texture.wrapT = THREE.RepeatWrapping
-    texture.needsUpdate = true
-    return texture
+// Upgrades keyed by the version they start from, each returning a document of
+// the next version. Fields that are simply new need no entry: they fall back
+// to their defaults below.
+const sceneMigrations: Record<
+    number,
+    (sceneDocument: StoredSceneDocument) => StoredSceneDocument
+> = {
+    // The one round pond became a list of spline water bodies
+    1: (sceneDocument) => {
+        const { pond, ...placements } = isRecord(sceneDocument.placements)
+            ? sceneDocument.placements
+            : {}
+        return {
+            ...sceneDocument,
+            version: 2,
+            placements: isRecord(pond)
+                ? {
+                      ...placements,
+                      waters: [
+                          serializeWaterBody(
+                              createPondBody(
+                                  readNumber(pond.x, 10),
+                                  readNumber(pond.z, 5),
+                                  readNumber(pond.radius, 15)
+                              )
+                          ),
+                      ],
+                  }
+                : placements,
+        }
+    },
 }
 
-function createPineTrees(
-    treeGeometry: THREE.BufferGeometry,
-    needleTexture: THREE.Texture,
-    pondPosition: THREE.Vector3,
-    pondRadius: number
-) {
-    const treeMaterial = new THREE.MeshToonMaterial({
-        vertexColors: true,
-        map: needleTexture,
-    })
+function migrateSceneDocument(data: unknown, defaults: SceneDocument) {
+    if (!isRecord(data) || typeof data.version !== "number") {
+        throw new Error("Not a scene document")
+    }
+    if (data.version > SCENE_DOCUMENT_VERSION) {
+        throw new Error(
+            `Scene version ${data.version} is newer than this viewer supports`
+        )
+    }
 
-    treeMaterial.onBeforeCompile = (shader) => {
-        shader.uniforms.time = { value: 0 }
-        shader.uniforms.uMousePos = {
-            value: new THREE.Vector3(9999, 9999, 9999),
-        }
+    let sceneDocument: StoredSceneDocument = { ...data, version: data.version }
+    for (
+        let version = data.version;
+        version < SCENE_DOCUMENT_VERSION;
+        version++
+    ) {
+        const migrate = sceneMigrations[version]
+        if (!migrate)
+            throw new Error(`No migration from scene version ${version}`)
+        sceneDocument = migrate(sceneDocument)
+    }
 
-        shader.vertexShader =
-            `
-            uniform float time;
-            uniform vec3 uMousePos;
-        \n` + shader.vertexShader
+    // Keep only params this build knows about, with matching types
+    const params = { ...defaults.params }
+    const savedParams = isRecord(sceneDocument.params)
+        ? sceneDocument.params
+        : {}
+    ;(Object.keys(params) as (keyof typeof params)[]).forEach((key) => {
+        const value = savedParams[key]
+        if (typeof value === typeof params[key]) {
+            setParam(params, key, value as (typeof params)[typeof key])
+        }
+    })
 
-        shader.vertexShader = shader.vertexShader.replace(
-            "#include <begin_vertex>",
-            `
-                #include <begin_vertex>
-                
-                vec4 instanceWorldPosition = instanceMatrix * vec4(position, 1.0);
-                float dist = distance(instanceWorldPosition.xz, uMousePos.xz);
-                float pushRadius = 6.0;
-                float pushStrength = 0.4;
+    // Placements and the camera are checked field by field, falling back to
+    // their defaults or rejecting the document here, so applying the result
+    // can't fail halfway
+    const placements = isRecord(sceneDocument.placements)
+        ? sceneDocument.placements
+        : {}
+    const monolith = isRecord(placements.monolith) ? placements.monolith : {}
+    const camera = isRecord(sceneDocument.camera) ? sceneDocument.camera : {}
+    const lighting = Array.isArray(sceneDocument.lighting)
+        ? sceneDocument.lighting.filter(isRecord)
+        : []
+
+    const migrated: SceneDocument = {
+        version: SCENE_DOCUMENT_VERSION,
+        params,
+        placements: {
+            monolith: {
+                x: readNumber(monolith.x, defaults.placements.monolith.x),
+                z: readNumber(monolith.z, defaults.placements.monolith.z),
+            },
+            waters: readWaterBodies(
+                placements.waters,
+                defaults.placements.waters
+            ),
+            grassPaint: readGrassPaint(
+                placements.grassPaint,
+                defaults.placements.grassPaint
+            ),
+        },
+        camera: {
+            position: readVector3(camera.position, defaults.camera.position),
+            target: readVector3(camera.target, defaults.camera.target),
+        },
+        // Keyframe fields added later are filled in from a default stop
+        lighting:
+            lighting.length > 0
+                ? lighting.map((keyframe) => ({
+                      ...defaults.lighting[0],
+                      ...(keyframe as Partial<LightingKeyframe>),
+                  }))
+                : defaults.lighting,
+    }
+    return migrated
+}
 
-                if (dist < pushRadius) {
-                    float falloff = 1.0 - dist / pushRadius;
-                    falloff = pow(falloff, 2.0);
-                    
-                    vec3 pushDir = normalize(instanceWorldPosition.xyz - uMousePos);
-                    pushDir.y = 0.0;
-                    
-                    float heightFactor = position.y / 7.5;
-                    
-                    transformed.xyz += pushDir * falloff * pushStrength * heightFactor;
-                }
-            `
-        )
-        treeMaterial.userData.shader = shader
+function loadAutosavedScene(): unknown {
+    try {
+        const stored = localStorage.getItem(SCENE_AUTOSAVE_KEY)
+        return stored ? JSON.parse(stored) : null
+    } catch (error) {
+        console.warn("Could not read the autosaved scene:", error)
+        return null
     }
+}
 
-    const treeMesh = new THREE.InstancedMesh(
-        treeGeometry,
-        treeMaterial,
-        maxTreeCount
-    )
-    treeMesh.count = initialParams.treeCount
-    treeMesh.castShadow = true
-    treeMesh.receiveShadow = true
+function autosaveScene(sceneDocument: SceneDocument) {
+    try {
+        localStorage.setItem(SCENE_AUTOSAVE_KEY, JSON.stringify(sceneDocument))
+    } catch (error) {
+        console.warn("Could not autosave the scene:", error)
+    }
+}
 
-    const dummy = new THREE.Object3D()
-    const areaSize = 50
-    const pondCenter = new THREE.Vector2(pondPosition.x, pondPosition.z)
-    const pondRadiusSq = (pondRadius + 2) * (pondRadius + 2)
-
-    for (let i = 0; i < maxTreeCount; i++) {
-        let x, z
-        do {
-            x = (Math.random() - 0.5) * areaSize
-            z = (Math.random() - 0.5) * areaSize
-        } while (
-            new THREE.Vector2(x, z).distanceToSquared(pondCenter) <
-                pondRadiusSq ||
-            (Math.abs(x) < 20 && Math.abs(z) < 20)
-        )
-
-        dummy.position.set(x, 0, z)
-        dummy.rotation.y = Math.random() * Math.PI * 2
-        const scale = 1.2 + Math.random() * 0.8
-        dummy.scale.set(scale, scale, scale)
-        dummy.updateMatrix()
-        treeMesh.setMatrixAt(i, dummy.matrix)
-    }
-    treeMesh.instanceMatrix.needsUpdate = true
+function downloadSceneDocument(sceneDocument: SceneDocument) {
+    const blob = new Blob([JSON.stringify(sceneDocument, null, 2)], {
+        type: "application/json",
+    })
+    const url = URL.createObjectURL(blob)
+    const link = document.createElement("a")
+    link.href = url
+    link.download = `serene-grassland-${sceneDocument.params.seed}.json`
+    link.click()
+    URL.revokeObjectURL(url)
+}
 
-    return treeMesh
+// Lets the user choose a scene file and hands over its parsed contents
+function pickSceneFile(onLoad: (data: unknown) => void) {
+    const input = document.createElement("input")
+    input.type = "file"
+    input.accept = "application/json,.json"
+    input.onchange = () => {
+        const file = input.files?.[0]
+        if (!file) return
+        file.text()
+            .then((text) => onLoad(JSON.parse(text)))
+            .catch((error) => {
+                console.error("Could not import scene:", error)
+                window.alert(`Could not import scene: ${error.message}`)
+            })
+    }
+    input.click()
 }
 
 type SceneElements = {
     sky: Sky
     directionalLight: THREE.DirectionalLight
     hemisphereLight: THREE.HemisphereLight
-    ground: THREE.Mesh<THREE.PlaneGeometry, THREE.MeshToonMaterial>
-    grassMesh: THREE.InstancedMesh
+    ground: THREE.Group
+    grass: THREE.Group
+    shoreVegetation: THREE.Group
     water: Water
     clouds: THREE.Group
+    cloudLayer: THREE.Mesh
     pineTrees: THREE.InstancedMesh
     stars: THREE.Points
     moon: THREE.Mesh<THREE.PlaneGeometry, THREE.MeshBasicMaterial>
     bloomPass: UnrealBloomPass
     axesHelper: THREE.AxesHelper
+    chunkManager: ChunkManager
+    grassBrush: GrassBrush
 }
 
 function setupGUI(
     params: typeof initialParams,
     sceneElements: SceneElements,
     scene: THREE.Scene,
-    updateWorldState: (time: number) => void
+    updateWorldState: (time: number) => void,
+    regenerateWorld: (seed: number) => void,
+    grassEditor: {
+        setEnabled: (enabled: boolean) => void
+        clear: () => void
+    },
+    sceneFile: {
+        exportScene: () => void
+        importScene: () => void
+        resetScene: () => void
+    },
+    presetCrossfade: PresetCrossfade,
+    weather: Weather
 ) {
     const {
         ground,
-        grassMesh,
+        grass,
+        shoreVegetation,
         water,
         clouds,
+        cloudLayer,
         pineTrees,
         bloomPass,
         stars,
         axesHelper,
+        chunkManager,
+        grassBrush,
     } = sceneElements
     const gui = new GUI()
     gui.domElement.style.top = "10px"
@@ -1979,12 +8296,188 @@ function setupGUI(
         .add(params, "timeOfDay", 0, 24, 0.1)
         .name("Time of Day")
         .onChange(updateWorldState)
+        .listen() // Follows the day clock
+
+    const seedController = worldFolder
+        .add(params, "seed")
+        .step(1)
+        .name("Seed")
+        .onFinishChange((value: number) => regenerateWorld(Math.floor(value)))
+    worldFolder
+        .add(
+            {
+                randomize: () => {
+                    params.seed = Math.floor(Math.random() * 1000000)
+                    seedController.updateDisplay()
+                    regenerateWorld(params.seed)
+                },
+            },
+            "randomize"
+        )
+        .name("Random Seed")
+
+    const clockFolder = worldFolder.addFolder("Clock")
+    clockFolder
+        .add(params, "clockMode", {
+            Manual: "manual",
+            "Day Cycle": "cycle",
+            "Local Time": "wallClock",
+        })
+        .name("Mode")
+    clockFolder.add(params, "clockPaused").name("Paused")
+    clockFolder
+        .add(params, "dayLengthSeconds", 10, 3600, 10)
+        .name("Day Length (s)")
+    clockFolder.add(params, "timeScale", 0.1, 20, 0.1).name("Time Scale")
+
+    const astronomyFolder = worldFolder.addFolder("Astronomy")
+    const refreshSky = () => updateWorldState(params.timeOfDay)
+    astronomyFolder
+        .add(params, "astronomyMode")
+        .name("Real Sun & Moon")
+        .onChange(refreshSky)
+    const latitudeController = astronomyFolder
+        .add(params, "latitude", -90, 90, 0.01)
+        .name("Latitude")
+        .onChange(refreshSky)
+    const longitudeController = astronomyFolder
+        .add(params, "longitude", -180, 180, 0.01)
+        .name("Longitude")
+        .onChange(refreshSky)
+    astronomyFolder
+        .add(params, "astronomyDate")
+        .name("Date (blank = today)")
+        .onFinishChange(refreshSky)
+    astronomyFolder
+        .add(params, "moonPhase", 0, 1, 0.01)
+        .name("Moon Phase")
+        .onChange(refreshSky)
+    astronomyFolder
+        .add(
+            {
+                locate: () =>
+                    navigator.geolocation?.getCurrentPosition(
+                        (position) => {
+                            latitudeController.setValue(
+                                position.coords.latitude
+                            )
+                            longitudeController.setValue(
+                                position.coords.longitude
+                            )
+                        },
+                        (error) =>
+                            console.warn("Could not get location:", error)
+                    ),
+            },
+            "locate"
+        )
+        .name("Use My Location")
+
+    // Read every frame by the wind, so no change handlers are needed
+    const windFolder = worldFolder.addFolder("Wind")
+    windFolder.add(params, "windDirection", 0, 360, 1).name("From (°)")
+    windFolder.add(params, "windStrength", 0, 3, 0.05).name("Strength")
+    windFolder.add(params, "windGustiness", 0, 1, 0.05).name("Gustiness")
+
+    const seasonFolder = worldFolder.addFolder("Season")
+    seasonFolder.add(params, "season", 0, 1, 0.01).name("Time of Year").listen() // Follows the date
+    seasonFolder.add(params, "seasonFromDate").name("Follow Date")
+
+    const weatherFolder = worldFolder.addFolder("Weather")
+    weatherFolder
+        .add(params, "weather", {
+            Clear: "clear",
+            Cloudy: "cloudy",
+            Overcast: "overcast",
+            Drizzle: "drizzle",
+            Rain: "rain",
+            Storm: "storm",
+        })
+        .name("Weather")
+        .onChange((value: WeatherState) => weather.setState(value))
+        .listen() // Follows auto weather
+    weatherFolder.add(params, "weatherAuto").name("Auto Weather")
+    weatherFolder
+        .add(params, "weatherChangeMinutes", 0.5, 30, 0.5)
+        .name("Change Every (min)")
+    weatherFolder
+        .add(params, "weatherTransitionSeconds", 0, 120, 1)
+        .name("Transition (s)")
+    weatherFolder
+        .add(params, "thunderVolume", 0, 1, 0.05)
+        .name("Thunder Volume")
+
+    const sceneFolder = worldFolder.addFolder("Scene File")
+    sceneFolder.add(sceneFile, "exportScene").name("Export Scene")
+    sceneFolder.add(sceneFile, "importScene").name("Import Scene")
+    sceneFolder.add(sceneFile, "resetScene").name("Reset to Defaults")
+
+    const presetsFolder = gui.addFolder("Presets")
+    const presetState = { preset: "Default", fadeSeconds: 3, name: "My Preset" }
+    const getPresetLibrary = () => ({
+        ...VISUAL_PRESETS,
+        ...loadUserPresets(),
+    })
+    const selectPreset = (name: string) => {
+        const preset = getPresetLibrary()[name]
+        if (preset) presetCrossfade.start(preset, presetState.fadeSeconds)
+    }
+    let presetController = presetsFolder
+        .add(presetState, "preset", Object.keys(getPresetLibrary()))
+        .name("Preset")
+        .onChange(selectPreset)
+    // options() swaps in a fresh controller, so its handler is set again
+    const refreshPresetList = () => {
+        presetController = presetController
+            .options(Object.keys(getPresetLibrary()))
+            .name("Preset")
+            .onChange(selectPreset)
+    }
+    presetsFolder
+        .add(presetState, "fadeSeconds", 0, 10, 0.1)
+        .name("Fade Duration (s)")
+    presetsFolder.add(presetState, "name").name("Preset Name")
+    presetsFolder
+        .add(
+            {
+                save: () => {
+                    const name = presetState.name.trim()
+                    if (!name) return
+                    if (name in VISUAL_PRESETS) {
+                        window.alert(`"${name}" is a built-in preset name`)
+                        return
+                    }
+                    const userPresets = loadUserPresets()
+                    userPresets[name] = pickPresetParams(params)
+                    saveUserPresets(userPresets)
+                    presetState.preset = name
+                    refreshPresetList()
+                },
+            },
+            "save"
+        )
+        .name("Save Current as Preset")
+    presetsFolder
+        .add(
+            {
+                remove: () => {
+                    const userPresets = loadUserPresets()
+                    if (!(presetState.preset in userPresets)) return
+                    delete userPresets[presetState.preset]
+                    saveUserPresets(userPresets)
+                    presetState.preset = "Default"
+                    refreshPresetList()
+                },
+            },
+            "remove"
+        )
+        .name("Delete Selected Preset")
 
     const objectsFolder = gui.addFolder("Objects & Flora")
     objectsFolder
         .addColor(params, "groundColor")
         .name("Ground Color")
-        .onChange((value) => ground.material.color.set(value))
+        .onChange((value) => ground.userData.setGroundColor(value))
 
     const waterSubFolder = objectsFolder.addFolder("Pond")
     waterSubFolder
@@ -1996,6 +8489,30 @@ function setupGUI(
             ).uniforms.distortionScale.value = v
         })
     waterSubFolder.add(params, "waterFlowSpeed", 0, 2, 0.01).name("Flow Speed")
+    waterSubFolder
+        .addColor(params, "waterShallowColor")
+        .name("Shallow Color")
+        .onChange((value) =>
+            (
+                water.material as THREE.ShaderMaterial
+            ).uniforms.uShallowColor.value.set(value)
+        )
+    waterSubFolder
+        .addColor(params, "waterDeepColor")
+        .name("Deep Color")
+        .onChange((value) =>
+            (
+                water.material as THREE.ShaderMaterial
+            ).uniforms.uDeepColor.value.set(value)
+        )
+    waterSubFolder
+        .add(params, "shoreFoam", 0, 1, 0.01)
+        .name("Shore Foam")
+        .onChange((v) => {
+            ;(
+                water.material as THREE.ShaderMaterial
+            ).uniforms.uShoreFoam.value = v
+        })
     waterSubFolder
         .add(params, "rippleIntensity", 0, 1, 0.01)
         .name("Wave Intensity")
@@ -2023,41 +8540,29 @@ function setupGUI(
 
     const interactiveFolder = waterSubFolder.addFolder("Interactive Ripples")
     interactiveFolder
-        .add(params, "interactiveRippleRadius", 1, 10, 0.1)
+        .add(params, "interactiveRippleRadius", 0.2, 3, 0.1)
         .name("Radius")
-        .onChange((v) => {
-            ;(
-                water.material as THREE.ShaderMaterial
-            ).uniforms.uRippleRadius.value = v
-        })
     interactiveFolder
         .add(params, "interactiveRippleStrength", 0, 0.5, 0.01)
         .name("Strength")
-        .onChange((v) => {
-            ;(
-                water.material as THREE.ShaderMaterial
-            ).uniforms.uRippleStrength.value = v
-        })
 
-    const color = new THREE.Color()
+    const refreshGrass = () =>
+        grass.userData.chunkLayers.forEach((layer: ChunkLayer) =>
+            chunkManager.refresh(layer)
+        )
+
     objectsFolder
         .addColor(params, "grassBaseColor")
         .name("Grass Base Color")
         .onChange((value) => {
-            ;(grassMesh.material as THREE.MeshToonMaterial).color.set(value)
-            for (let i = 0; i < grassMesh.count; i++) {
-                color.set(value)
-                color.multiplyScalar(0.8 + Math.random() * 0.4)
-                grassMesh.setColorAt(i, color)
-            }
-            if (grassMesh.instanceColor)
-                grassMesh.instanceColor.needsUpdate = true
+            grass.userData.setBaseColor(value)
+            shoreVegetation.userData.setBaseColor(value)
         })
     objectsFolder
         .addColor(params, "grassTipColor")
         .name("Grass Tip Color")
         .onChange((value) => {
-            const material = grassMesh.material as THREE.MeshToonMaterial
+            const material = grass.userData.material as THREE.MeshToonMaterial
             if (material.userData.shader) {
                 ;(
                     material.userData.shader as any
@@ -2068,24 +8573,79 @@ function setupGUI(
         .add(params, "grassCount", 1000, maxGrassCount, 1000)
         .name("Grass Density")
         .onChange((value) => {
-            grassMesh.count = Math.floor(value)
+            grass.userData.setGrassCount(Math.floor(value))
+            refreshGrass()
         })
     objectsFolder
         .add(params, "treeCount", 0, maxTreeCount, 1)
         .name("Tree Density")
         .onChange((value) => {
-            pineTrees.count = Math.floor(value)
+            pineTrees.userData.setTreeCount(Math.floor(value))
+            chunkManager.refresh(pineTrees.userData.chunkLayer)
+        })
+
+    const grassMapFolder = objectsFolder.addFolder("Grass Map")
+    grassMapFolder
+        .add(params, "grassPaths")
+        .name("Footpaths")
+        .onChange(refreshGrass)
+    grassMapFolder
+        .add(params, "grassClearing")
+        .name("Monolith Clearing")
+        .onChange(refreshGrass)
+    grassMapFolder
+        .add(params, "grassShoreThinning")
+        .name("Shore Thinning")
+        .onChange(refreshGrass)
+    grassMapFolder
+        .add(params, "grassPatchiness", 0, 1, 0.05)
+        .name("Patchiness")
+        .onFinishChange(refreshGrass)
+
+    const grassBrushFolder = objectsFolder.addFolder("Grass Brush")
+    grassBrushFolder
+        .add(grassBrush, "enabled")
+        .name("Paint Mode")
+        .onChange(grassEditor.setEnabled)
+    grassBrushFolder
+        .add(grassBrush, "mode", {
+            "Add Grass": "add",
+            "Remove Grass": "remove",
+            Raise: "raise",
+            Lower: "lower",
+            Tint: "tint",
+            Erase: "erase",
         })
+        .name("Brush")
+    grassBrushFolder.add(grassBrush, "radius", 0.5, 10, 0.1).name("Radius")
+    grassBrushFolder.add(grassBrush, "strength", 0.1, 4, 0.1).name("Strength")
+    grassBrushFolder.addColor(grassBrush, "color").name("Tint Color")
+    grassBrushFolder.add(grassEditor, "clear").name("Clear Painted Grass")
 
     const cloudsFolder = gui.addFolder("Clouds")
+    cloudsFolder
+        .add(params, "cloudRenderer", {
+            Puffs: "puffs",
+            Raymarched: "raymarched",
+        })
+        .name("Renderer")
+    cloudsFolder
+        .add(params, "cloudQuality", {
+            Low: "low",
+            Medium: "medium",
+            High: "high",
+        })
+        .name("Raymarch Quality")
+        .onChange((value: CloudQuality) =>
+            cloudLayer.userData.setQuality(value)
+        )
+    cloudsFolder
+        .add(params, "cloudShadowStrength", 0, 1, 0.05)
+        .name("Shadow Strength")
     cloudsFolder
         .add(params, "cloudCount", 0, maxCloudCount, 1)
         .name("Cloud Count")
-        .onChange((value) => {
-            if (clouds.userData.setCloudCount) {
-                clouds.userData.setCloudCount(value)
-            }
-        })
+        .onChange(() => weather.refresh()) // Weather may add more clouds
     cloudsFolder
         .addColor(params, "cloudColor")
         .name("Cloud Color")
@@ -2181,21 +8741,20 @@ function setupGUI(
     fogFolder
         .add(params, "fogDensity", 0, 0.1, 0.001)
         .name("Density")
-        .onChange((value) => {
-            if (scene.fog instanceof THREE.FogExp2) {
-                scene.fog.density = value
-            }
-        })
+        .onChange(() => weather.refresh()) // Weather may thicken it further
 
     const debugFolder = gui.addFolder("Debug & Stars")
     debugFolder.add(axesHelper, "visible").name("Show Axes Helper")
     const updateStarParams = () => {
         if (stars.userData.update) {
-            stars.userData.update({
-                count: params.starCount,
-                baseSize: params.starBaseSize,
-                color: params.starColor,
-            })
+            stars.userData.update(
+                {
+                    count: params.starCount,
+                    baseSize: params.starBaseSize,
+                    color: params.starColor,
+                },
+                createRandom(params.seed, "stars")
+            )
         }
     }
     debugFolder
@@ -2211,9 +8770,189 @@ function setupGUI(
         .name("Star Color")
         .onChange(updateStarParams)
 
+    // Read every frame by the night sky, so no change handlers are needed
+    const nightSkyFolder = debugFolder.addFolder("Night Sky")
+    nightSkyFolder.add(params, "showConstellations").name("Constellation Lines")
+    nightSkyFolder
+        .add(params, "shootingStarRate", 0, 30, 1)
+        .name("Shooting Stars / min")
+    nightSkyFolder
+        .add(params, "milkyWayIntensity", 0, 3, 0.05)
+        .name("Milky Way")
+
     return gui
 }
 
+// --- Lighting Timeline Editor ---
+// Edits one keyframe at a time through a draft copy, since lil-gui controls
+// stay bound to a single object. Picking a keyframe jumps the clock to it.
+function createLightingTimelineEditor(
+    gui: GUI,
+    timeline: LightingKeyframe[],
+    params: typeof initialParams,
+    setTime: (timeOfDay: number) => void
+) {
+    const folder = gui.addFolder("Lighting Timeline")
+    folder.close()
+
+    const sortTimeline = () => timeline.sort((a, b) => a.time - b.time)
+    sortTimeline()
+
+    let selected = timeline[0]
+    const selection = { index: 0 }
+    const draft: LightingKeyframe = { ...selected }
+
+    const formatTime = (time: number) => {
+        const minutes = Math.round(time * 60)
+        const hh = String(Math.floor(minutes / 60) % 24).padStart(2, "0")
+        const mm = String(minutes % 60).padStart(2, "0")
+        return `${hh}:${mm}`
+    }
+    const getOptions = () =>
+        Object.fromEntries(
+            timeline.map((keyframe, i) => [
+                `${i + 1}. ${formatTime(keyframe.time)}`,
+                i,
+            ])
+        )
+
+    const fieldControllers = [
+        folder.add(draft, "time", 0, 23.95, 0.05).name("Time (h)"),
+        folder.add(draft, "sunElevation", -90, 90, 0.5).name("Sun Elevation"),
+        folder.add(draft, "sunAzimuth", 0, 360, 1).name("Sun Azimuth"),
+        folder.addColor(draft, "sunColor").name("Sun Color"),
+        folder.add(draft, "sunIntensity", 0, 5, 0.05).name("Sun Intensity"),
+        folder.addColor(draft, "hemisphereSky").name("Hemisphere Sky"),
+        folder.addColor(draft, "hemisphereGround").name("Hemisphere Ground"),
+        folder
+            .add(draft, "hemisphereIntensity", 0, 5, 0.05)
+            .name("Hemisphere Intensity"),
+        folder.addColor(draft, "fogColor").name("Fog Color"),
+        folder.addColor(draft, "cloudColor").name("Cloud Color"),
+        folder.add(draft, "turbidity", 0, 20, 0.1).name("Turbidity"),
+        folder.add(draft, "rayleigh", 0, 4, 0.001).name("Rayleigh"),
+        folder.add(draft, "starOpacity", 0, 1, 0.01).name("Star Opacity"),
+    ]
+
+    const select = (index: number) => {
+        selection.index = THREE.MathUtils.clamp(index, 0, timeline.length - 1)
+        selected = timeline[selection.index]
+        Object.assign(draft, selected)
+        fieldControllers.forEach((controller) => controller.updateDisplay())
+        setTime(selected.time)
+    }
+
+    let keyframeController = folder
+        .add(selection, "index", getOptions())
+        .name("Keyframe")
+        .onChange(select)
+    // options() swaps in a fresh controller, so its handler is set again
+    const refreshList = () => {
+        sortTimeline()
+        selection.index = Math.max(0, timeline.indexOf(selected))
+        keyframeController = keyframeController
+            .options(getOptions())
+            .name("Keyframe")
+            .onChange(select)
+    }
+
+    fieldControllers.forEach((controller) =>
+        controller.onChange(() => {
+            Object.assign(selected, draft)
+            setTime(params.timeOfDay)
+        })
+    )
+    // Re-sort once a time edit is finished, then follow the moved keyframe
+    fieldControllers[0].onFinishChange(() => {
+        refreshList()
+        setTime(selected.time)
+    })
+
+    folder
+        .add(
+            {
+                add: () => {
+                    const time = Math.round(params.timeOfDay * 20) / 20
+                    const existing = timeline.findIndex(
+                        (keyframe) => Math.abs(keyframe.time - time) < 0.01
+                    )
+                    if (existing >= 0) {
+                        select(existing)
+                        return
+                    }
+                    const sample = sampleLightingTimeline(
+                        timeline,
+                        time,
+                        createLightingSample()
+                    )
+                    const keyframe: LightingKeyframe = {
+                        time,
+                        sunElevation: sample.sunElevation,
+                        sunAzimuth: ((sample.sunAzimuth % 360) + 360) % 360,
+                        sunColor: `#${sample.sunColor.getHexString()}`,
+                        sunIntensity: sample.sunIntensity,
+                        hemisphereSky: `#${sample.hemisphereSky.getHexString()}`,
+                        hemisphereGround: `#${sample.hemisphereGround.getHexString()}`,
+                        hemisphereIntensity: sample.hemisphereIntensity,
+                        fogColor: `#${sample.fogColor.getHexString()}`,
+                        cloudColor: `#${sample.cloudColor.getHexString()}`,
+                        turbidity: sample.turbidity,
+                        rayleigh: sample.rayleigh,
+                        starOpacity: sample.starOpacity,
+                    }
+                    timeline.push(keyframe)
+                    selected = keyframe
+                    refreshList()
+                    select(selection.index)
+                },
+            },
+            "add"
+        )
+        .name("Add Keyframe at Current Time")
+    folder
+        .add(
+            {
+                remove: () => {
+                    if (timeline.length <= 1) return
+                    timeline.splice(selection.index, 1)
+                    selected =
+                        timeline[Math.min(selection.index, timeline.length - 1)]
+                    refreshList()
+                    select(selection.index)
+                },
+            },
+            "remove"
+        )
+        .name("Delete Keyframe")
+    folder
+        .add(
+            {
+                reset: () => {
+                    timeline.splice(
+                        0,
+                        timeline.length,
+                        ...cloneLightingKeyframes(DEFAULT_LIGHTING_KEYFRAMES)
+                    )
+                    selected = timeline[0]
+                    refreshList()
+                    select(0)
+                },
+            },
+            "reset"
+        )
+        .name("Reset Timeline")
+
+    // Call after the timeline was replaced from outside (e.g. a loaded scene)
+    const refresh = () => {
+        selected = timeline[Math.min(selection.index, timeline.length - 1)]
+        refreshList()
+        Object.assign(draft, selected)
+        fieldControllers.forEach((controller) => controller.updateDisplay())
+    }
+
+    return { refresh }
+}
+
 export function ModelViewer() {
     const mountRef = useRef<HTMLDivElement>(null)
 
@@ -2244,7 +8983,10 @@ export function ModelViewer() {
         )
         const renderer = new THREE.WebGLRenderer({ antialias: true })
 
-        const params = { ...initialParams }
+        const params = {
+            ...initialParams,
+            seed: getSeedFromURL(initialParams.seed),
+        }
 
         scene.fog = new THREE.FogExp2(params.fogColor, params.fogDensity)
         scene.background = new THREE.Color(params.fogColor)
@@ -2277,64 +9019,274 @@ export function ModelViewer() {
         const hemisphereLight = createHemisphereLight()
         scene.add(hemisphereLight)
 
+        // The sun light and its target ride on a rig that follows the streamed
+        // chunks, keeping the shadow camera centred on the visible meadow
         const directionalLight = createDirectionalLight()
-        scene.add(directionalLight)
+        const sunRig = new THREE.Group()
+        sunRig.add(directionalLight)
+        sunRig.add(directionalLight.target)
+        scene.add(sunRig)
+
+        const waters = createWaters(createDefaultWaterBodies(), 0.05)
+
+        const terrain = createTerrain(params.seed, waters)
+
+        const cloudShadows = createCloudShadows()
+        const season = createSeason(params)
 
-        const ground = createGround({ groundColor: params.groundColor })
+        const ground = createGround(
+            { groundColor: params.groundColor },
+            terrain,
+            cloudShadows,
+            season
+        )
         scene.add(ground)
 
-        const monolith = createMonolith({ monolithColor: params.monolithColor })
+        const monolith = createMonolith(
+            { monolithColor: params.monolithColor },
+            terrain,
+            season
+        )
         scene.add(monolith)
 
-        const pondPosition = new THREE.Vector3(10, 0.05, 5)
-        const pondRadius = 15
+        const wind = createWind(params)
 
-        const waterGeometry = new THREE.CircleGeometry(pondRadius, 64)
+        const ripples = createRipples(renderer, waters)
         const water = createWater(
-            waterGeometry,
+            waters,
+            terrain,
             directionalLight.position.clone().normalize(),
-            params
+            params,
+            wind,
+            cloudShadows,
+            ripples
         )
-        water.position.copy(pondPosition)
         scene.add(water)
+        water.userData.setIceTarget(season.conditions.frozen, true) // No thaw on load
+
+        const fishSchool = createFishSchool(waters, terrain, water, ripples)
+        scene.add(fishSchool)
 
-        const grassMesh = createGrass(
-            pondPosition,
-            pondRadius,
+        const grassPaintLayer = createGrassPaintLayer()
+        const grassDensityMap = createGrassDensityMap(
+            params.seed,
+            waters,
+            monolith.position,
+            grassPaintLayer,
+            params
+        )
+        const grass = createGrass(
+            waters,
             {
                 grassCount: params.grassCount,
                 grassBaseColor: params.grassBaseColor,
                 grassTipColor: params.grassTipColor,
             },
-            maxGrassCount
+            maxGrassCount,
+            terrain,
+            grassDensityMap,
+            wind,
+            cloudShadows,
+            season
         )
-        scene.add(grassMesh)
+        grass.userData.setFogDensity(params.fogDensity)
+        scene.add(grass)
+
+        const shoreVegetation = createShoreVegetation(
+            params.seed,
+            waters,
+            terrain,
+            grassDensityMap,
+            grass,
+            wind,
+            season,
+            cloudShadows,
+            ripples
+        )
+        scene.add(shoreVegetation)
 
-        const pineTreeGeometry = createPineTreeGeometry()
+        const pineTreeGeometry = createPineTreeGeometry(
+            createRandom(params.seed, "treeShape")
+        )
         const needleTexture = createNeedleTexture()
         const pineTrees = createPineTrees(
             pineTreeGeometry,
             needleTexture,
-            pondPosition,
-            pondRadius
+            waters,
+            terrain,
+            wind,
+            cloudShadows,
+            season
         )
         scene.add(pineTrees)
 
-        const clouds = createClouds({
-            count: params.cloudCount,
-            color: params.cloudColor,
-        })
+        const clouds = createClouds(
+            {
+                count: params.cloudCount,
+                color: params.cloudColor,
+            },
+            createRandom(params.seed, "clouds"),
+            wind
+        )
         scene.add(clouds)
 
-        const stars = createStars({
-            count: params.starCount,
-            baseSize: params.starBaseSize,
-            color: params.starColor,
-        })
-        scene.add(stars)
+        // Stars and moon sit on a rig that travels with the camera, so the
+        // night sky stays put however far the viewer walks
+        const skyRig = new THREE.Group()
+        scene.add(skyRig)
+
+        const stars = createStars(
+            {
+                count: params.starCount,
+                baseSize: params.starBaseSize,
+                color: params.starColor,
+            },
+            createRandom(params.seed, "stars")
+        )
+        skyRig.add(stars)
 
         const moon = createMoon()
-        scene.add(moon)
+        moon.userData.setFogDensity(params.fogDensity)
+        skyRig.add(moon)
+
+        const nightSky = createNightSky(params)
+        skyRig.add(nightSky)
+
+        const overcastSky = createOvercastSky()
+        skyRig.add(overcastSky)
+
+        const cloudLayer = createCloudLayer(
+            params.cloudQuality as CloudQuality,
+            wind,
+            cloudShadows
+        )
+        skyRig.add(cloudLayer)
+
+        // Only the chosen cloud renderer is drawn and moved
+        const animateClouds = () => {
+            const raymarched = params.cloudRenderer === "raymarched"
+            clouds.visible = !raymarched
+            cloudLayer.visible = raymarched
+            if (raymarched) cloudLayer.userData.update()
+            else clouds.userData.update(camera)
+            // Overcast skies are too evenly grey to cast shadows
+            cloudShadows.update(
+                clouds,
+                raymarched,
+                params.cloudShadowStrength * (1 - weather.conditions.overcast),
+                camera.position
+            )
+        }
+
+        const rain = createRain(
+            maxRainDropCount,
+            createRandom(params.seed, "rain"),
+            wind
+        )
+        scene.add(rain)
+
+        const fallingParticles = createFallingParticles(
+            maxFallingParticleCount,
+            createRandom(params.seed, "falling"),
+            wind
+        )
+        scene.add(fallingParticles)
+
+        // --- Chunk Streaming ---
+        const chunkManager = createChunkManager(params.seed, [
+            ground.userData.chunkLayer,
+            ...grass.userData.chunkLayers,
+            pineTrees.userData.chunkLayer,
+        ])
+
+        // Streams chunks around the focus and drags the light and sky rigs along
+        const streamWorld = (focus: THREE.Vector3) => {
+            chunkManager.update(focus)
+            const center = chunkManager.getCenter()
+            sunRig.position.set(center.x, 0, center.z)
+            skyRig.position.set(camera.position.x, 0, camera.position.z)
+        }
+
+        // --- Grass Brush ---
+        // In editor mode the left mouse button paints onto the grass paint
+        // layer and the right button orbits the camera instead
+        const grassBrush: GrassBrush = {
+            enabled: false,
+            mode: "add",
+            radius: 3,
+            strength: 1,
+            color: "#e8c75a",
+        }
+        const brushCursor = new THREE.Mesh(
+            new THREE.RingGeometry(0.94, 1, 48).rotateX(-Math.PI / 2),
+            new THREE.MeshBasicMaterial({
+                color: 0xffffff,
+                transparent: true,
+                opacity: 0.7,
+                depthTest: false,
+            })
+        )
+        brushCursor.renderOrder = 1
+        brushCursor.visible = false
+        scene.add(brushCursor)
+
+        const brushClock = new THREE.Clock(false)
+        const brushDirtyArea = new THREE.Box2()
+        const brushDirtyCenter = new THREE.Vector2()
+        const brushDirtySize = new THREE.Vector2()
+        let isPainting = false
+        let brushRefreshTimer = 0
+
+        const applyBrushControls = () => {
+            controls.mouseButtons.LEFT = grassBrush.enabled
+                ? -1
+                : THREE.MOUSE.ROTATE
+            controls.mouseButtons.RIGHT = grassBrush.enabled
+                ? THREE.MOUSE.ROTATE
+                : THREE.MOUSE.PAN
+        }
+
+        // Refills only the grass patches touched since the last refresh
+        const flushBrushStroke = () => {
+            if (brushDirtyArea.isEmpty()) return
+            brushDirtyArea.getCenter(brushDirtyCenter)
+            brushDirtyArea.getSize(brushDirtySize)
+            chunkManager.refreshArea(
+                brushDirtyCenter.x,
+                brushDirtyCenter.y,
+                brushDirtySize.length() / 2 + grassBrush.radius,
+                grass.userData.chunkLayers
+            )
+            brushDirtyArea.makeEmpty()
+        }
+
+        const paintGrass = (point: THREE.Vector3) => {
+            const step = Math.min(brushClock.getDelta(), 0.1)
+            grassPaintLayer.paint(point.x, point.z, grassBrush, step)
+            brushDirtyArea.expandByPoint(brushDirtyCenter.set(point.x, point.z))
+
+            // Rebuilding patches is the costly part, so throttle it mid-stroke
+            brushRefreshTimer += step
+            if (brushRefreshTimer >= 0.1) {
+                brushRefreshTimer = 0
+                flushBrushStroke()
+            }
+        }
+
+        const endBrushStroke = () => {
+            if (!isPainting) return
+            isPainting = false
+            brushClock.stop()
+            flushBrushStroke()
+            scheduleAutosave()
+        }
+
+        const clearGrassPaint = () => {
+            grassPaintLayer.clear()
+            grass.userData.chunkLayers.forEach((layer: ChunkLayer) =>
+                chunkManager.refresh(layer)
+            )
+        }
 
         const axesHelper = new THREE.AxesHelper(5)
         axesHelper.visible = false
@@ -2361,184 +9313,282 @@ export function ModelViewer() {
             scene,
             camera,
             monolith,
-            { position: pondPosition, radius: pondRadius },
+            waters,
             renderer,
             composer,
-            isMobile
+            isMobile,
+            params.seed,
+            terrain
         )
+        game.getIceAt = water.userData.getIceAt
 
         // --- Camera ---
-        camera.position.set(-15, 4, 15)
-        controls.target.copy(new THREE.Vector3(0, 1.5, 0))
-        controls.update()
+        // Spectator framing sits relative to the terrain so hills never
+        // swallow the camera or its target
+        const resetSpectatorCamera = () => {
+            camera.position.set(-15, terrain.getHeightAt(-15, 15) + 4, 15)
+            controls.target.set(0, terrain.getHeightAt(0, 0) + 1.5, 0)
+            controls.update()
+        }
+        resetSpectatorCamera()
+        streamWorld(camera.position)
+
+        // The player skims a wake across open water while hovering low
+        const lastPlayerPosition = new THREE.Vector3()
+        const disturbWaterUnderPlayer = () => {
+            const position = game.player.position
+            const moved = Math.hypot(
+                position.x - lastPlayerPosition.x,
+                position.z - lastPlayerPosition.z
+            )
+            lastPlayerPosition.copy(position)
+            if (
+                waters.isInsideWater(position.x, position.z) &&
+                position.y - waters.level < 2.5 &&
+                moved > 0.01
+            )
+                ripples.disturb(
+                    position.x,
+                    position.z,
+                    PLAYER_SIZE,
+                    0.3 * Math.min(moved, 0.5)
+                )
+        }
+
+        // Fish scatter as the player comes down near the water
+        const scareFishFromPlayer = () => {
+            const position = game.player.position
+            if (
+                waters.isInsideWater(position.x, position.z, 3) &&
+                position.y - waters.level < 4
+            )
+                fishSchool.userData.scare(position.x, position.z)
+        }
+
+        // The game runs its own render loop, so it streams around the player
+        game.onUpdate = () => {
+            streamWorld(game.player.position)
+            disturbWaterUnderPlayer()
+            scareFishFromPlayer()
+            fishSchool.userData.update()
+            wind.update()
+            animateClouds()
+            dayClock.update()
+            presetCrossfade.update()
+            nightSky.userData.update()
+            animateWeather()
+            animateSeason()
+        }
 
         const sceneElements: SceneElements = {
             sky,
             directionalLight,
             hemisphereLight,
             ground,
-            grassMesh,
+            grass,
+            shoreVegetation,
             water,
             clouds,
+            cloudLayer,
             pineTrees,
             stars,
             moon,
             bloomPass,
             axesHelper,
+            chunkManager,
+            grassBrush,
         }
 
         // --- Day/Night Cycle Logic ---
-        const dayNightPalettes = {
-            day: {
-                sunColor: new THREE.Color("#ffcb8e"),
-                hemisphereSky: new THREE.Color("#bde0fe"),
-                hemisphereGround: new THREE.Color("#6a994e"),
-                fog: new THREE.Color("#c5d1d9"),
-                cloud: new THREE.Color("#ffffff"),
-            },
-            sunset: {
-                sunColor: new THREE.Color("#ff6b00"),
-                hemisphereSky: new THREE.Color("#ff8c69"),
-                hemisphereGround: new THREE.Color("#5e4534"),
-                fog: new THREE.Color("#f2b279"),
-                cloud: new THREE.Color("#ffdab9"),
-            },
-            night: {
-                sunColor: new THREE.Color("#aaccff"), // Moonlight
-                hemisphereSky: new THREE.Color("#0a2a4f"),
-                hemisphereGround: new THREE.Color("#102820"),
-                fog: new THREE.Color("#08141e"),
-                cloud: new THREE.Color("#2c3e50"),
-            },
+        const lightingTimeline = cloneLightingKeyframes(
+            DEFAULT_LIGHTING_KEYFRAMES
+        )
+        const lighting = createLightingSample()
+        const moonDirection = new THREE.Vector3()
+        const sunSkyDirection = new THREE.Vector3()
+        const overcastGrey = new THREE.Color()
+        const lightningWhite = new THREE.Color("#dfe6ff")
+        const weatherCloudColor = new THREE.Color()
+        const cloudSunColor = new THREE.Color()
+        const particleLight = new THREE.Color()
+        const skyLight = new THREE.Color()
+
+        // --- Weather ---
+        const weather = createWeather(params, (conditions) => {
+            const fogDensity = params.fogDensity + conditions.fogDensity
+            ;(scene.fog as THREE.FogExp2).density = fogDensity
+            grass.userData.setFogDensity(fogDensity)
+            moon.userData.setFogDensity(fogDensity)
+            const cloudAmount = THREE.MathUtils.lerp(
+                params.cloudCount,
+                maxCloudCount,
+                conditions.cloudCover
+            )
+            clouds.userData.setCloudCount(Math.round(cloudAmount))
+            cloudLayer.userData.setCoverage(cloudAmount / maxCloudCount)
+            cloudLayer.userData.setDarkness(conditions.cloudDarkness)
+            ground.userData.setWetness(conditions.wetness)
+            grass.userData.setWetness(conditions.wetness)
+            updateWorldState(params.timeOfDay)
+        })
+        const thunder = createThunder()
+        const lightning = createLightning(scene, clouds, terrain, (distance) =>
+            thunder.play(distance, params.thunderVolume)
+        )
+        const animateWeather = () => {
+            weather.update()
+            rain.userData.update(camera.position)
+            if (lightning.update(weather.conditions.lightning, camera.position))
+                updateWorldState(params.timeOfDay)
+        }
+
+        // --- Seasons ---
+        // Winter rain comes down as snow and never ripples the frozen pond
+        const animateSeason = () => {
+            season.update()
+            const { frozen, leaves, snowfall } = season.conditions
+            const snowiness = season.uniforms.uSnow.value
+            const rainfall = weather.conditions.rain
+            rain.userData.setAmount(rainfall * (1 - snowiness))
+            water.userData.setRainAmount(rainfall * (1 - snowiness))
+            water.userData.setIceTarget(frozen)
+            water.userData.update()
+            fallingParticles.userData.setAmounts(
+                leaves,
+                Math.min(snowfall + rainfall * snowiness, 1)
+            )
+            fallingParticles.userData.update(camera.position)
         }
 
         const updateWorldState = (timeOfDay: number) => {
             params.timeOfDay = timeOfDay
 
-            let elevation,
-                turbidity,
-                directIntensity,
-                hemiIntensity,
-                starOpacity
-
-            if (timeOfDay >= 5 && timeOfDay < 7) {
-                // Sunrise
-                const t = (timeOfDay - 5) / 2
-                elevation = THREE.MathUtils.lerp(-2, 10, t)
-                turbidity = THREE.MathUtils.lerp(15, 10, t)
-                directIntensity = THREE.MathUtils.lerp(0.25, 1.5, t)
-                hemiIntensity = THREE.MathUtils.lerp(0.4, 0.6, t)
-                starOpacity = THREE.MathUtils.lerp(1.0, 0, t)
-                directionalLight.color.lerpColors(
-                    dayNightPalettes.sunset.sunColor,
-                    dayNightPalettes.day.sunColor,
-                    t
-                )
-                hemisphereLight.color.lerpColors(
-                    dayNightPalettes.night.hemisphereSky,
-                    dayNightPalettes.day.hemisphereSky,
-                    t
+            let sunElevation: number
+            let sunAzimuth: number
+            let moonElevation: number
+            let moonAzimuth: number
+            let moonPhase = params.moonPhase
+            let moonIllumination = (1 - Math.cos(moonPhase * Math.PI * 2)) / 2
+            if (params.astronomyMode) {
+                const astronomy = computeAstronomy(
+                    getAstronomyDate(params.astronomyDate, timeOfDay),
+                    params.latitude,
+                    params.longitude
                 )
-                hemisphereLight.groundColor.lerpColors(
-                    dayNightPalettes.night.hemisphereGround,
-                    dayNightPalettes.day.hemisphereGround,
-                    t
-                )
-                ;(scene.fog as THREE.FogExp2).color.lerpColors(
-                    dayNightPalettes.night.fog,
-                    dayNightPalettes.day.fog,
-                    t
-                )
-                clouds.userData.setCloudColor(
-                    new THREE.Color().lerpColors(
-                        dayNightPalettes.night.cloud,
-                        dayNightPalettes.day.cloud,
-                        t
-                    )
-                )
-            } else if (timeOfDay >= 7 && timeOfDay < 18) {
-                // Day
-                elevation = 10
-                turbidity = 10
-                directIntensity = 1.5
-                hemiIntensity = 0.6
-                starOpacity = 0
-                directionalLight.color.copy(dayNightPalettes.day.sunColor)
-                hemisphereLight.color.copy(dayNightPalettes.day.hemisphereSky)
-                hemisphereLight.groundColor.copy(
-                    dayNightPalettes.day.hemisphereGround
-                )
-                ;(scene.fog as THREE.FogExp2).color.copy(
-                    dayNightPalettes.day.fog
-                )
-                clouds.userData.setCloudColor(dayNightPalettes.day.cloud)
-            } else if (timeOfDay >= 18 && timeOfDay < 20) {
-                // Sunset
-                const t = (timeOfDay - 18) / 2
-                elevation = THREE.MathUtils.lerp(10, -2, t)
-                turbidity = THREE.MathUtils.lerp(10, 15, t)
-                directIntensity = THREE.MathUtils.lerp(1.5, 0.25, t)
-                hemiIntensity = THREE.MathUtils.lerp(0.6, 0.4, t)
-                starOpacity = THREE.MathUtils.lerp(0, 1.0, t)
-                directionalLight.color.lerpColors(
-                    dayNightPalettes.day.sunColor,
-                    dayNightPalettes.sunset.sunColor,
-                    t
-                )
-                hemisphereLight.color.lerpColors(
-                    dayNightPalettes.day.hemisphereSky,
-                    dayNightPalettes.night.hemisphereSky,
-                    t
-                )
-                hemisphereLight.groundColor.lerpColors(
-                    dayNightPalettes.day.hemisphereGround,
-                    dayNightPalettes.night.hemisphereGround,
-                    t
-                )
-                ;(scene.fog as THREE.FogExp2).color.lerpColors(
-                    dayNightPalettes.day.fog,
-                    dayNightPalettes.night.fog,
-                    t
-                )
-                clouds.userData.setCloudColor(
-                    new THREE.Color().lerpColors(
-                        dayNightPalettes.day.cloud,
-                        dayNightPalettes.night.cloud,
-                        t
-                    )
+                // Colors come from the point in the timeline where its sun
+                // stands as high as the real one does now
+                sampleLightingTimeline(
+                    lightingTimeline,
+                    findTimelineTimeForElevation(
+                        lightingTimeline,
+                        astronomy.sun.elevation,
+                        astronomy.sun.hourAngle < 0
+                    ),
+                    lighting
                 )
+                sunElevation = astronomy.sun.elevation
+                sunAzimuth = astronomy.sun.azimuth
+                moonElevation = astronomy.moon.elevation
+                moonAzimuth = astronomy.moon.azimuth
+                moonPhase = astronomy.moonPhase
+                moonIllumination = astronomy.moonIllumination
             } else {
-                // Night
-                elevation = -2
-                turbidity = 15
-                directIntensity = 0.25
-                hemiIntensity = 0.4
-                starOpacity = 1.0
-                directionalLight.color.copy(dayNightPalettes.night.sunColor)
-                hemisphereLight.color.copy(dayNightPalettes.night.hemisphereSky)
-                hemisphereLight.groundColor.copy(
-                    dayNightPalettes.night.hemisphereGround
-                )
-                ;(scene.fog as THREE.FogExp2).color.copy(
-                    dayNightPalettes.night.fog
-                )
-                clouds.userData.setCloudColor(dayNightPalettes.night.cloud)
+                sampleLightingTimeline(lightingTimeline, timeOfDay, lighting)
+                sunElevation = lighting.sunElevation
+                sunAzimuth = lighting.sunAzimuth
+                moonElevation = -sunElevation
+                moonAzimuth = sunAzimuth + 180
             }
 
-            sky.material.uniforms["turbidity"].value = turbidity
-            sky.material.uniforms["rayleigh"].value =
-                elevation > 0 ? 0.582 : 0.1
-            directionalLight.intensity = directIntensity
-            hemisphereLight.intensity = hemiIntensity
+            const { overcast, cloudDarkness, lightDimming } = weather.conditions
+            const flash = lightning.getFlash()
+            directionalLight.color.copy(lighting.sunColor)
+            directionalLight.intensity =
+                lighting.sunIntensity * (1 - lightDimming) + flash * 2
+            hemisphereLight.color.copy(lighting.hemisphereSky)
+            hemisphereLight.groundColor.copy(lighting.hemisphereGround)
+            hemisphereLight.intensity =
+                lighting.hemisphereIntensity * (1 - lightDimming * 0.5) +
+                flash * 1.5
+            bloomPass.strength = params.bloomStrength + flash * 1.5
+
+            // Cloud cover washes the fog and clouds towards a flat grey about
+            // as bright as the clear-sky fog
+            const fogColor = (scene.fog as THREE.FogExp2).color.copy(
+                lighting.fogColor
+            )
+            overcastGrey.setScalar(
+                (0.2126 * fogColor.r +
+                    0.7152 * fogColor.g +
+                    0.0722 * fogColor.b) *
+                    (1 - 0.35 * overcast)
+            )
+            fogColor.lerp(overcastGrey, overcast * 0.8)
+            fogColor.lerp(lightningWhite, flash * 0.4)
+            clouds.userData.setCloudColor(
+                weatherCloudColor
+                    .copy(lighting.cloudColor)
+                    .lerp(overcastGrey, cloudDarkness)
+            )
+            overcastSky.material.color.copy(fogColor)
+            overcastSky.material.opacity = overcast
+            overcastSky.visible = overcast > 0
+            rain.userData.setColor(
+                weatherCloudColor.copy(fogColor).multiplyScalar(1.5)
+            )
+
+            sky.material.uniforms["turbidity"].value = lighting.turbidity
+            sky.material.uniforms["rayleigh"].value = lighting.rayleigh
+            const starOpacity = lighting.starOpacity * (1 - overcast)
             ;(stars.material as THREE.PointsMaterial).opacity = starOpacity
-            scene.background = (scene.fog as THREE.FogExp2).color
+            nightSky.userData.setOpacity(starOpacity)
+            scene.background = fogColor
+
+            // params.azimuth turns the whole sky; 180 keeps bearings as they are
+            const heading = params.azimuth - 180
+            updateSunPosition(
+                sky,
+                directionalLight,
+                sunElevation,
+                sunAzimuth + heading
+            )
 
-            updateSunPosition(sky, directionalLight, elevation, params.azimuth)
+            nightSky.userData.orient(
+                getAstronomyDate(params.astronomyDate, timeOfDay),
+                params.latitude,
+                params.longitude,
+                heading
+            )
 
-            const sunVec = sky.material.uniforms.sunPosition.value.clone()
-            const moonPosition = sunVec.clone().negate().multiplyScalar(200)
-            moon.position.copy(moonPosition)
-            ;(moon.material as THREE.MeshBasicMaterial).opacity = starOpacity
+            getSkyDirection(moonElevation, moonAzimuth + heading, moonDirection)
+            moon.position.copy(moonDirection).multiplyScalar(200)
+            moon.userData.setPhase(
+                moonPhase,
+                moonIllumination,
+                getSkyDirection(
+                    sunElevation,
+                    sunAzimuth + heading,
+                    sunSkyDirection
+                )
+            )
+            ;(moon.material as THREE.MeshBasicMaterial).opacity =
+                moonElevation > -5 ? starOpacity : 0
+
+            // Once the sun is down, the higher of sun and moon lights the
+            // meadow, kept a little above the horizon so never from below
+            if (sunElevation < 0) {
+                const moonIsHigher = moonElevation > sunElevation
+                getSkyDirection(
+                    Math.max(moonIsHigher ? moonElevation : sunElevation, 5),
+                    (moonIsHigher ? moonAzimuth : sunAzimuth) + heading,
+                    directionalLight.position
+                ).multiplyScalar(50)
+                // Moonlight fades faster than the lit fraction of the disc
+                if (moonIsHigher) {
+                    directionalLight.intensity *=
+                        0.1 + 0.9 * Math.pow(moonIllumination, 1.5)
+                }
+            }
 
             const sunDirection = directionalLight.position.clone().normalize()
             ;(
@@ -2547,18 +9597,232 @@ export function ModelViewer() {
             ;(
                 water.material as THREE.ShaderMaterial
             ).uniforms.sunColor.value.copy(directionalLight.color)
+            cloudShadows.uniforms.uCloudShadowSun.value.copy(sunDirection)
+            cloudLayer.userData.setLighting(
+                sunDirection,
+                cloudSunColor
+                    .copy(directionalLight.color)
+                    .multiplyScalar(directionalLight.intensity),
+                weatherCloudColor
+                    .copy(lighting.cloudColor)
+                    .lerp(overcastGrey, cloudDarkness)
+                    .multiplyScalar(hemisphereLight.intensity),
+                fogColor
+            )
+            particleLight
+                .copy(directionalLight.color)
+                .multiplyScalar(directionalLight.intensity * 0.5)
+            fallingParticles.userData.setLight(
+                particleLight.add(
+                    skyLight
+                        .copy(hemisphereLight.color)
+                        .multiplyScalar(hemisphereLight.intensity)
+                )
+            )
+        }
+
+        // --- World Seed ---
+        // Rebuilds every procedural element from the given seed, so a shared
+        // URL reproduces the exact same meadow, trees, clouds, stars and orbs.
+        const regenerateWorld = (seed: number) => {
+            params.seed = seed
+            setSeedInURL(seed)
+
+            terrain.reseed(seed)
+            grassDensityMap.reseed(seed)
+            monolith.userData.snapToGround()
+
+            const oldTreeGeometry = pineTrees.geometry
+            pineTrees.geometry = createPineTreeGeometry(
+                createRandom(seed, "treeShape")
+            )
+            oldTreeGeometry.dispose()
+            chunkManager.reseed(seed) // Refills ground, grass and trees
+            shoreVegetation.userData.regenerate(seed)
+
+            clouds.userData.regenerate(createRandom(seed, "clouds"))
+
+            stars.userData.update(
+                {
+                    count: params.starCount,
+                    baseSize: params.starBaseSize,
+                    color: params.starColor,
+                },
+                createRandom(seed, "stars")
+            )
+
+            game.reseed(seed)
+            resetSpectatorCamera()
+        }
+
+        // Sets params through their controls, so each one runs its own update
+        // logic exactly as if it had been changed by hand. `finish` also fires
+        // the finish-change handlers (such as the seed regenerating the world).
+        const setParams = (values: Partial<typeof params>, finish: boolean) => {
+            gui.controllersRecursive().forEach((controller) => {
+                if (controller.object !== params) return
+                const key = controller.property as keyof typeof params
+                if (!(key in values) || values[key] === params[key]) return
+                if (finish) controller.load(values[key])
+                else controller.setValue(values[key])
+            })
+            Object.assign(params, values)
+        }
+        const presetCrossfade = createPresetCrossfade(params, (values) =>
+            setParams(values, false)
+        )
+        const dayClock = createDayClock(params, updateWorldState)
+
+        weather.refresh() // Also lights the scene for the current time
+        const gui = setupGUI(
+            params,
+            sceneElements,
+            scene,
+            updateWorldState,
+            regenerateWorld,
+            {
+                setEnabled: (enabled: boolean) => {
+                    grassBrush.enabled = enabled
+                    if (!enabled) endBrushStroke()
+                    applyBrushControls()
+                },
+                clear: clearGrassPaint,
+            },
+            {
+                exportScene: () => downloadSceneDocument(captureScene()),
+                importScene: () =>
+                    pickSceneFile((data) => {
+                        applyScene(migrateSceneDocument(data, defaultScene))
+                        scheduleAutosave()
+                    }),
+                resetScene: () => {
+                    applyScene(defaultScene)
+                    scheduleAutosave()
+                },
+            },
+            presetCrossfade,
+            weather
+        )
+        const lightingTimelineEditor = createLightingTimelineEditor(
+            gui,
+            lightingTimeline,
+            params,
+            updateWorldState
+        )
+
+        // --- Scene Document ---
+        // The spectator pose is only tracked while spectating, so saving
+        // mid-game keeps the last orbit view rather than the player camera
+        let cameraPose: SceneDocument["camera"] = {
+            position: camera.position.toArray(),
+            target: controls.target.toArray(),
+        }
+        const captureScene = (): SceneDocument => {
+            if (gameState.current === "spectator") {
+                cameraPose = {
+                    position: camera.position.toArray(),
+                    target: controls.target.toArray(),
+                }
+            }
+            return {
+                version: SCENE_DOCUMENT_VERSION,
+                params: { ...params },
+                placements: {
+                    monolith: {
+                        x: monolith.position.x,
+                        z: monolith.position.z,
+                    },
+                    waters: waters.bodies.map(serializeWaterBody),
+                    grassPaint: grassPaintLayer.serialize(),
+                },
+                camera: cameraPose,
+                lighting: cloneLightingKeyframes(lightingTimeline),
+            }
+        }
+
+        // Nothing is painted or moved yet, so this is the pristine world
+        const defaultScene: SceneDocument = {
+            ...captureScene(),
+            params: { ...initialParams },
+        }
+
+        const applyScene = (sceneDocument: SceneDocument) => {
+            // Everything that could still fail comes first, so a bad document
+            // leaves the scene as it was. The paint layer checks its data
+            // before replacing any cells.
+            const placements = sceneDocument.placements
+            const bodies = placements.waters.map(deserializeWaterBody)
+            grassPaintLayer.deserialize(placements.grassPaint)
+
+            presetCrossfade.cancel()
+            setParams(sceneDocument.params, true)
+
+            monolith.position.x = placements.monolith.x
+            monolith.position.z = placements.monolith.z
+            monolith.userData.snapToGround()
+            waters.setBodies(bodies)
+            water.userData.reshape()
+            fishSchool.userData.reset()
+            chunkManager.refresh() // Ground, grass and trees follow the water
+            shoreVegetation.userData.regenerate(params.seed)
+            game.reseed(params.seed) // Respawn orbs clear of the water
+
+            lightingTimeline.splice(
+                0,
+                lightingTimeline.length,
+                ...cloneLightingKeyframes(sceneDocument.lighting)
+            )
+            lightingTimelineEditor.refresh()
+            updateWorldState(params.timeOfDay)
+
+            if (gameState.current === "spectator") {
+                camera.position.fromArray(sceneDocument.camera.position)
+                controls.target.fromArray(sceneDocument.camera.target)
+                controls.update()
+            }
         }
 
-        updateWorldState(params.timeOfDay)
-        const gui = setupGUI(params, sceneElements, scene, updateWorldState)
+        // Debounced so slider drags and brush strokes write only once
+        let autosaveTimeout = 0
+        const scheduleAutosave = () => {
+            window.clearTimeout(autosaveTimeout)
+            autosaveTimeout = window.setTimeout(
+                () => autosaveScene(captureScene()),
+                1000
+            )
+        }
+        const handlePageHide = () => {
+            window.clearTimeout(autosaveTimeout)
+            autosaveScene(captureScene())
+        }
+        gui.onChange(scheduleAutosave)
+
+        const autosavedScene = loadAutosavedScene()
+        if (autosavedScene) {
+            try {
+                const restored = migrateSceneDocument(
+                    autosavedScene,
+                    defaultScene
+                )
+                // A seed in the URL wins, so shared links show the shared world
+                if (new URLSearchParams(window.location.search).has("seed")) {
+                    restored.params.seed = params.seed
+                }
+                applyScene(restored)
+            } catch (error) {
+                console.warn("Could not restore the autosaved scene:", error)
+            }
+        }
 
+        let lastCursorOnWater: THREE.Vector3 | null = null
         const animateSpectator = () => {
             animationFrameId = requestAnimationFrame(animateSpectator)
             const elapsedTime = clock.getElapsedTime()
             const delta = clock.getDelta()
 
             // --- Universal visual updates ---
-            const grassMaterial = grassMesh.material as THREE.MeshToonMaterial
+            const grassMaterial = grass.userData
+                .material as THREE.MeshToonMaterial
             const treeMaterial = pineTrees.material as THREE.MeshToonMaterial
             const starMaterial = stars.material as THREE.PointsMaterial
 
@@ -2574,18 +9838,21 @@ export function ModelViewer() {
             if (starMaterial.userData.shader) {
                 starMaterial.userData.shader.uniforms.time.value = elapsedTime
             }
-            if (water.material) {
-                ;(water.material as THREE.ShaderMaterial).uniforms.time.value +=
-                    delta * params.waterFlowSpeed
-            }
-            if (clouds.userData.update) clouds.userData.update(delta, camera)
+            wind.update()
+            animateClouds()
+            dayClock.update()
+            presetCrossfade.update()
+            nightSky.userData.update()
+            animateWeather()
+            animateSeason()
+            fishSchool.userData.update()
             stars.rotation.y = elapsedTime * 0.01
             if ((moon.material as THREE.MeshBasicMaterial).opacity > 0)
                 moon.lookAt(camera.position)
 
             // --- Spectator-only logic ---
 
-            // Spectator camera dolly animation
+            // Spectator camera dolly animation, held still while painting
             const dollySpeed = 0.1
             const minDistance = 12
             const maxDistance = 22
@@ -2602,9 +9869,17 @@ export function ModelViewer() {
                 .add(direction.multiplyScalar(idealDistance))
 
             // A gentle lerp to avoid fighting user input too hard.
-            camera.position.lerp(newPosition, delta * 0.5)
+            if (!grassBrush.enabled)
+                camera.position.lerp(newPosition, delta * 0.5)
+
+            // Keep the orbiting camera above the hills
+            const minCameraHeight =
+                terrain.getHeightAt(camera.position.x, camera.position.z) + 1.0
+            if (camera.position.y < minCameraHeight)
+                camera.position.y = minCameraHeight
 
             controls.update()
+            streamWorld(camera.position)
 
             game.updateHover(delta)
 
@@ -2637,13 +9912,9 @@ export function ModelViewer() {
                     9999,
                     9999
                 )
-            if (water.material)
-                (
-                    water.material as THREE.ShaderMaterial
-                ).uniforms.uMousePos.value.set(9999, 9999, 9999)
 
             const groundIntersect = intersectsEnv.find(
-                (i) => i.object === ground
+                (i) => i.object.parent === ground
             )
             if (groundIntersect) {
                 const interactPoint = groundIntersect.point
@@ -2656,11 +9927,41 @@ export function ModelViewer() {
                         interactPoint
                     )
             }
+
+            brushCursor.visible = grassBrush.enabled && !!groundIntersect
+            if (grassBrush.enabled && groundIntersect) {
+                brushCursor.position.copy(groundIntersect.point)
+                brushCursor.position.y += 0.05
+                brushCursor.scale.setScalar(grassBrush.radius)
+                if (isPainting) paintGrass(groundIntersect.point)
+            }
+            // The cursor drags a wake through the water as it moves, and
+            // the fish nearby flee from it
             const waterIntersect = intersectsEnv.find((i) => i.object === water)
-            if (waterIntersect && water.material)
-                (
-                    water.material as THREE.ShaderMaterial
-                ).uniforms.uMousePos.value.copy(waterIntersect.point)
+            if (waterIntersect) {
+                fishSchool.userData.scare(
+                    waterIntersect.point.x,
+                    waterIntersect.point.z
+                )
+                if (lastCursorOnWater) {
+                    const moved = lastCursorOnWater.distanceTo(
+                        waterIntersect.point
+                    )
+                    if (moved > 0.01)
+                        ripples.disturb(
+                            waterIntersect.point.x,
+                            waterIntersect.point.z,
+                            params.interactiveRippleRadius,
+                            params.interactiveRippleStrength *
+                                Math.min(moved * 2, 1)
+                        )
+                }
+                lastCursorOnWater = (
+                    lastCursorOnWater ?? new THREE.Vector3()
+                ).copy(waterIntersect.point)
+            } else {
+                lastCursorOnWater = null
+            }
 
             composer.render()
         }
@@ -2682,9 +9983,31 @@ export function ModelViewer() {
             mouse.y = -(event.clientY / currentMount.clientHeight) * 2 + 1
         }
 
+        const handlePointerDown = (event: PointerEvent) => {
+            if (
+                !grassBrush.enabled ||
+                gameState.current !== "spectator" ||
+                event.button !== 0
+            )
+                return
+            // Touches never fire mousemove, so aim the brush from here too
+            mouse.x = (event.clientX / currentMount.clientWidth) * 2 - 1
+            mouse.y = -(event.clientY / currentMount.clientHeight) * 2 + 1
+            isPainting = true
+            brushRefreshTimer = 0
+            brushClock.start()
+        }
+
+        const handlePointerMove = (event: PointerEvent) => {
+            if (!isPainting || event.pointerType === "mouse") return
+            mouse.x = (event.clientX / currentMount.clientWidth) * 2 - 1
+            mouse.y = -(event.clientY / currentMount.clientHeight) * 2 + 1
+        }
+
         const handleKeyDown = (event: KeyboardEvent) => {
             if (
                 !isMobile &&
+                !grassBrush.enabled &&
                 gameState.current === "spectator" &&
                 event.code === "Space"
             ) {
@@ -2696,6 +10019,7 @@ export function ModelViewer() {
         const handleClick = () => {
             if (
                 gameState.current === "spectator" &&
+                !grassBrush.enabled &&
                 hoveredObject.current === game.player
             ) {
                 if (isMobile) {
@@ -2738,9 +10062,6 @@ export function ModelViewer() {
                 gameState.current = "spectator"
                 game.stopGame()
 
-                // Reset camera to a good spectator position
-                camera.position.set(-15, 4, 15)
-
                 controls = new OrbitControls(camera, renderer.domElement)
                 controls.enableDamping = true
                 controls.dampingFactor = 0.04
@@ -2748,8 +10069,10 @@ export function ModelViewer() {
                 controls.enablePan = false
                 controls.rotateSpeed = 0.4
                 controls.zoomSpeed = 0.7
-                controls.target.copy(new THREE.Vector3(0, 1.5, 0))
-                controls.update()
+                applyBrushControls()
+
+                // Reset camera to a good spectator position
+                resetSpectatorCamera()
 
                 document.body.classList.remove("playing")
                 animateSpectator()
@@ -2758,6 +10081,11 @@ export function ModelViewer() {
 
         window.addEventListener("resize", handleResize)
         window.addEventListener("mousemove", handleMouseMove)
+        renderer.domElement.addEventListener("pointerdown", handlePointerDown)
+        window.addEventListener("pointermove", handlePointerMove)
+        window.addEventListener("pointerup", endBrushStroke)
+        window.addEventListener("pointercancel", endBrushStroke)
+        window.addEventListener("pagehide", handlePageHide)
         document.addEventListener("keydown", handleKeyDown)
         document.addEventListener("click", handleClick)
         document.addEventListener(
@@ -2770,6 +10098,15 @@ export function ModelViewer() {
             cancelAnimationFrame(animationFrameId)
             window.removeEventListener("resize", handleResize)
             window.removeEventListener("mousemove", handleMouseMove)
+            renderer.domElement.removeEventListener(
+                "pointerdown",
+                handlePointerDown
+            )
+            window.removeEventListener("pointermove", handlePointerMove)
+            window.removeEventListener("pointerup", endBrushStroke)
+            window.removeEventListener("pointercancel", endBrushStroke)
+            window.removeEventListener("pagehide", handlePageHide)
+            window.clearTimeout(autosaveTimeout)
             document.removeEventListener("keydown", handleKeyDown)
             document.removeEventListener("click", handleClick)
             document.removeEventListener(
@@ -2785,13 +10122,25 @@ export function ModelViewer() {
             gui.destroy()
             controls.dispose()
 
-            pineTreeGeometry.dispose()
             needleTexture.dispose()
             stars.geometry.dispose()
             ;(stars.material as THREE.PointsMaterial).map?.dispose()
             ;(stars.material as THREE.Material).dispose()
             moon.geometry.dispose()
             ;(moon.material as THREE.Material).dispose()
+            nightSky.userData.dispose()
+            lightning.dispose()
+            thunder.dispose()
+            ripples.dispose()
+            rain.geometry.dispose()
+            ;(rain.material as THREE.Material).dispose()
+            fallingParticles.geometry.dispose()
+            ;(fallingParticles.material as THREE.Material).dispose()
+            waters.uniforms.uWaterShape.value.dispose()
+            ;(
+                water.material as THREE.ShaderMaterial
+            ).uniforms.uWaterDepth.value.dispose()
+            fishSchool.userData.dispose()
 
             scene.traverse((object) => {
                 if (object instanceof THREE.Mesh) {